@@ -9,6 +9,7 @@ const logger = createLogger({ context: 'FeedbackLoopEngine' });
 export interface FeedbackLoopContext {
   sessionId: string;
   testCaseId: string;
+  testRunId?: string;
   currentObjective: string;
   executionHistory: ExecutionStep[];
   maxSteps: number;
@@ -50,6 +51,7 @@ export class FeedbackLoopEngine {
    */
   async startFeedbackLoop(params: {
     testCaseId: string;
+    testRunId?: string;
     objective: string;
     maxSteps?: number;
   }): Promise<string> {
@@ -61,6 +63,7 @@ export class FeedbackLoopEngine {
     const context: FeedbackLoopContext = {
       sessionId,
       testCaseId: params.testCaseId,
+      testRunId: params.testRunId,
       currentObjective: params.objective,
       executionHistory: [],
       maxSteps: params.maxSteps || 10,
@@ -194,6 +197,16 @@ export class FeedbackLoopEngine {
     let completed = false;
 
     while (shouldContinue) {
+      // 외부에서 종료된 루프 (예: 테스트 실행 취소)
+      if (!this.activeLoops.has(sessionId)) {
+        logger.info('Feedback loop stopping', {
+          sessionId,
+          reason: 'terminated',
+          totalSteps: context.currentStep
+        });
+        break;
+      }
+
       const cycleResult = await this.executeSingleCycle(sessionId);
       completed = cycleResult.completed;
       shouldContinue = cycleResult.shouldContinue;
@@ -330,6 +343,21 @@ Important: Be specific and actionable in your response.
     });
   }
 
+  /**
+   * 테스트 실행에 연결된 피드백 루프 모두 종료
+   */
+  async terminateFeedbackLoopsForTestRun(testRunId: string): Promise<number> {
+    const sessionIds = Array.from(this.activeLoops.values())
+      .filter(context => context.testRunId === testRunId)
+      .map(context => context.sessionId);
+
+    for (const sessionId of sessionIds) {
+      await this.terminateFeedbackLoop(sessionId);
+    }
+
+    return sessionIds.length;
+  }
+
   /**
    * 모든 활성 피드백 루프 조회
    */
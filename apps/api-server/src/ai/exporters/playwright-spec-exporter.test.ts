@@ -0,0 +1,110 @@
+import type { AdaptationPattern } from '@cinnamon-qa/database';
+import { createLogger } from '@cinnamon-qa/logger';
+import type { TestStep } from '../parsers/scenario-parser';
+import { PlaywrightSpecExporter } from './playwright-spec-exporter';
+
+const logger = createLogger({ context: 'PlaywrightSpecExporterTest' });
+
+const testCase = {
+  id: 'case-1',
+  name: 'Login works',
+  url: 'https://example.com/login',
+  test_config: {
+    viewport: { width: 1280, height: 720 },
+    timeout: 30000,
+    headless: true,
+    adaptiveMode: true,
+    maxAdaptations: 3,
+    recoveryStrategies: [],
+    aiValidation: { enabled: false, confidence_threshold: 0.8, validation_points: [] },
+  },
+};
+
+function step(fields: Partial<TestStep> & Pick<TestStep, 'id' | 'action'>): TestStep {
+  return { description: `${fields.action} step`, selector: '', expectedResult: 'It works', ...fields };
+}
+
+function assert(condition: unknown, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+/**
+ * Test the Playwright spec exporter
+ * Run with: npx tsx src/ai/exporters/playwright-spec-exporter.test.ts
+ */
+function testPlaywrightSpecExporter() {
+  logger.info('Starting Playwright spec exporter test...');
+
+  try {
+    // Test 1: actions map onto Playwright calls, starting from the case URL
+    const { content, filename, stepCount } = PlaywrightSpecExporter.export(testCase, [
+      step({ id: 's1', action: 'type', selector: '#email', value: "o'neil@example.com" }),
+      step({ id: 's2', action: 'click', selector: 'button[type=submit]' }),
+      step({ id: 's3', action: 'wait', waitCondition: '2s' }),
+      step({ id: 's4', action: 'verify', selector: '.greeting', value: 'Welcome' }),
+    ]);
+    assert(filename === 'login-works.spec.ts', 'filename from the case name');
+    assert(stepCount === 4, 'step count');
+    assert(content.includes("await page.goto('https://example.com/login');"), 'starts at the case URL');
+    assert(content.includes("await page.locator('#email').fill('o\\'neil@example.com');"), 'type fills the escaped value');
+    assert(content.includes("await page.locator('button[type=submit]').click();"), 'click');
+    assert(content.includes('await page.waitForTimeout(2000);'), 'wait in seconds');
+    assert(content.includes("await expect(page.locator('.greeting')).toContainText('Welcome');"), 'verify value');
+    assert(content.includes('test.use({ viewport: { width: 1280, height: 720 }, headless: true });'), 'test.use');
+    logger.info('✅ Steps rendered');
+
+    // Test 2: a verify step without a selector only asserts on its value
+    const byValue = PlaywrightSpecExporter.export(testCase, [
+      step({ id: 's1', action: 'verify', value: 'Dashboard', expectedResult: 'The dashboard is shown' }),
+    ]).content;
+    assert(byValue.includes("await expect(page.getByText('Dashboard').first()).toBeVisible();"), 'asserts on the value');
+    assert(!byValue.includes('The dashboard is shown'), 'expected result prose is not asserted');
+    logger.info('✅ Verify by value');
+
+    // Test 3: without a selector or a value the check cannot be automated, so it is annotated and the test goes on
+    const unverifiable = PlaywrightSpecExporter.export(testCase, [
+      step({ id: 's1', action: 'verify', expectedResult: 'The page looks right' }),
+      step({ id: 's2', action: 'click', selector: '#next' }),
+    ]).content;
+    assert(
+      unverifiable.includes(
+        "test.info().annotations.push({ type: 'manual-check', description: 'Step 1 cannot be verified automatically: The page looks right' });"
+      ),
+      'unverifiable step is annotated'
+    );
+    assert(!unverifiable.includes('test.skip'), 'the test is not skipped');
+    assert(unverifiable.includes("await page.locator('#next').click();"), 'later steps still run');
+    assert(!unverifiable.includes('getByText'), 'no text assertion');
+    assert(!unverifiable.includes('TODO'), 'no TODO left behind');
+    logger.info('✅ Unverifiable steps annotated');
+
+    // Test 4: learned role selectors replace the original selector
+    const pattern = {
+      action: 'click',
+      original_selector: '#submit',
+      adapted_selector: 'button "Sign in"',
+      success_rate: 0.9,
+      confidence: 0.9,
+    } as AdaptationPattern;
+    const stabilized = PlaywrightSpecExporter.export(
+      testCase,
+      [step({ id: 's1', action: 'click', selector: '#submit' })],
+      [pattern]
+    );
+    assert(stabilized.stabilizedStepIds.includes('s1'), 'stabilized step reported');
+    assert(
+      stabilized.content.includes("await page.getByRole('button', { name: 'Sign in', exact: true }).click();"),
+      'getByRole locator'
+    );
+    logger.info('✅ Learned selectors');
+
+    logger.info('All Playwright spec exporter tests passed!');
+  } catch (error) {
+    logger.error('❌ Test failed:', error);
+    process.exitCode = 1;
+  }
+}
+
+testPlaywrightSpecExporter();
@@ -0,0 +1,244 @@
+import type { AdaptationPattern, TestCase } from '@cinnamon-qa/database';
+import type { TestStep } from '../parsers/scenario-parser';
+
+/**
+ * Playwright 스펙 내보내기 결과
+ */
+export interface PlaywrightSpecExport {
+  filename: string;
+  content: string;
+  stepCount: number;
+  // 학습된 선택자로 바뀐 스텝 ID
+  stabilizedStepIds: string[];
+}
+
+/**
+ * 학습된 적응 패턴으로 안정화된 대상 (`role "name"` 형식)
+ */
+interface StabilizedTarget {
+  role: string;
+  name: string;
+  originalSelector: string;
+}
+
+const INDENT = '  ';
+
+/**
+ * 분석된 테스트 스텝을 독립 실행 가능한 @playwright/test 스펙으로 변환
+ */
+export class PlaywrightSpecExporter {
+  /**
+   * 테스트 케이스와 스텝으로 스펙 파일 생성. 적응 패턴은 신뢰할 수 있는
+   * 것만 넘겨야 하며, 일치하는 스텝의 선택자를 getByRole 로케이터로 대체함
+   */
+  static export(
+    testCase: Pick<TestCase, 'id' | 'name' | 'url' | 'test_config'>,
+    steps: TestStep[],
+    adaptationPatterns: AdaptationPattern[] = []
+  ): PlaywrightSpecExport {
+    const body: string[] = [];
+    const stabilizedStepIds: string[] = [];
+
+    // 첫 스텝이 이동이 아니면 테스트 케이스 URL에서 시작
+    if (steps[0]?.action !== 'navigate') {
+      body.push(`await page.goto(${quote(testCase.url)});`);
+    }
+
+    steps.forEach((step, index) => {
+      const stabilized = this.findStabilizedTarget(step, adaptationPatterns);
+      if (stabilized) {
+        stabilizedStepIds.push(step.id);
+      }
+
+      if (body.length > 0) {
+        body.push('');
+      }
+      body.push(`// Step ${index + 1}: ${singleLine(step.description)}`);
+      if (stabilized) {
+        body.push(`// Learned selector, originally: ${singleLine(stabilized.originalSelector)}`);
+      }
+      body.push(...this.renderStep(step, index + 1, testCase.url, stabilized));
+    });
+
+    const lines = [
+      `import { test, expect } from '@playwright/test';`,
+      '',
+      `// Exported from Cinnamon-QA test case "${singleLine(testCase.name)}" (${testCase.id})`,
+      '',
+      ...this.renderUse(testCase.test_config),
+      `test(${quote(testCase.name)}, async ({ page }) => {`,
+      ...this.renderTimeout(testCase.test_config),
+      ...body.map((line) => (line ? `${INDENT}${line}` : line)),
+      '});',
+      '',
+    ];
+
+    return {
+      filename: `${slugify(testCase.name) || testCase.id}.spec.ts`,
+      content: lines.join('\n'),
+      stepCount: steps.length,
+      stabilizedStepIds,
+    };
+  }
+
+  /**
+   * 스텝 하나를 Playwright 코드로 변환 (워커의 실행 방식과 동일한 의미)
+   */
+  private static renderStep(
+    step: TestStep,
+    stepNumber: number,
+    caseUrl: string,
+    stabilized: StabilizedTarget | null
+  ): string[] {
+    const target = () => this.locator(step.selector, stabilized);
+
+    switch (step.action) {
+      case 'navigate':
+        return [`await page.goto(${quote(step.value || caseUrl)});`];
+
+      case 'click':
+        return [`await ${target()}.click();`];
+
+      case 'type':
+        return [`await ${target()}.fill(${quote(step.value ?? '')});`];
+
+      case 'hover':
+        return [`await ${target()}.hover();`];
+
+      case 'select':
+        return [`await ${target()}.selectOption(${quote(step.value ?? '')});`];
+
+      case 'scroll':
+        return step.selector || stabilized
+          ? [`await ${target()}.scrollIntoViewIfNeeded();`]
+          : [`await page.mouse.wheel(0, ${Number(step.value) || 600});`];
+
+      case 'wait':
+        return this.renderWait(step, stabilized);
+
+      case 'verify':
+        return this.renderVerify(step, stepNumber, stabilized);
+    }
+  }
+
+  /**
+   * 대기 조건: 시간(ms/s), 선택자, 텍스트 순으로 해석
+   */
+  private static renderWait(step: TestStep, stabilized: StabilizedTarget | null): string[] {
+    const condition = step.waitCondition?.trim() || step.value?.trim() || '';
+    const milliseconds = parseWaitMilliseconds(condition);
+
+    if (milliseconds !== null) {
+      return [`await page.waitForTimeout(${milliseconds});`];
+    }
+
+    const selector = step.selector || (looksLikeSelector(condition) ? condition : '');
+    if (selector || stabilized) {
+      return [`await expect(${this.locator(selector, stabilized)}).toBeVisible();`];
+    }
+
+    if (condition) {
+      return [`await expect(page.getByText(${quote(condition)}).first()).toBeVisible();`];
+    }
+
+    return [`await page.waitForLoadState();`];
+  }
+
+  /**
+   * 검증: 요소가 보이는지, 값이 있으면 해당 텍스트를 포함하는지 확인.
+   * 선택자도 값도 없으면 워커도 검증할 수 없으므로 수동 확인 항목으로
+   * 어노테이션만 남기고 이후 스텝은 계속 실행함 (expectedResult는 서술문이라
+   * 페이지 텍스트로 확인할 수 없음)
+   */
+  private static renderVerify(step: TestStep, stepNumber: number, stabilized: StabilizedTarget | null): string[] {
+    if (!step.selector && !stabilized) {
+      if (!step.value) {
+        const reason = `Step ${stepNumber} cannot be verified automatically: ${singleLine(step.expectedResult || step.description)}`;
+        return [`test.info().annotations.push({ type: 'manual-check', description: ${quote(reason)} });`];
+      }
+      return [`await expect(page.getByText(${quote(step.value)}).first()).toBeVisible();`];
+    }
+
+    const target = this.locator(step.selector, stabilized);
+    const lines = [`await expect(${target}).toBeVisible();`];
+    if (step.value) {
+      lines.push(`await expect(${target}).toContainText(${quote(step.value)});`);
+    }
+    return lines;
+  }
+
+  /**
+   * 선택자 목록(쉼표 구분)은 여러 요소와 일치할 수 있으므로 첫 요소를 사용
+   */
+  private static locator(selector: string, stabilized: StabilizedTarget | null): string {
+    if (stabilized) {
+      return `page.getByRole(${quote(stabilized.role)}, { name: ${quote(stabilized.name)}, exact: true })`;
+    }
+    return selector.includes(',')
+      ? `page.locator(${quote(selector)}).first()`
+      : `page.locator(${quote(selector)})`;
+  }
+
+  /**
+   * 스텝의 액션과 선택자에 대해 학습된 대상 중 가장 신뢰도 높은 것
+   */
+  private static findStabilizedTarget(step: TestStep, patterns: AdaptationPattern[]): StabilizedTarget | null {
+    const selector = step.selector?.trim();
+    if (!selector) {
+      return null;
+    }
+
+    const best = patterns
+      .filter((pattern) => pattern.action === step.action && pattern.original_selector === selector)
+      .sort((a, b) => b.success_rate - a.success_rate || b.confidence - a.confidence)[0];
+
+    const target = best?.adapted_selector?.match(/^([\w-]+)\s+"(.*)"$/);
+    return target ? { role: target[1], name: target[2], originalSelector: selector } : null;
+  }
+
+  private static renderUse(testConfig: TestCase['test_config'] | undefined): string[] {
+    const options: string[] = [];
+    if (testConfig?.viewport) {
+      options.push(`viewport: { width: ${testConfig.viewport.width}, height: ${testConfig.viewport.height} }`);
+    }
+    if (testConfig?.headless !== undefined) {
+      options.push(`headless: ${testConfig.headless}`);
+    }
+    return options.length > 0 ? [`test.use({ ${options.join(', ')} });`, ''] : [];
+  }
+
+  private static renderTimeout(testConfig: TestCase['test_config'] | undefined): string[] {
+    return testConfig?.timeout ? [`${INDENT}test.setTimeout(${testConfig.timeout});`, ''] : [];
+  }
+}
+
+function quote(value: string): string {
+  return `'${value
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/\r?\n/g, '\\n')}'`;
+}
+
+function singleLine(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+function parseWaitMilliseconds(condition: string): number | null {
+  const match = condition.match(/^(\d+(?:\.\d+)?)\s*(ms|s)?$/i);
+  if (!match) {
+    return null;
+  }
+  const amount = Number(match[1]);
+  return Math.round(match[2]?.toLowerCase() === 's' ? amount * 1000 : amount);
+}
+
+function looksLikeSelector(condition: string): boolean {
+  return /^[#.[]|:has-text|:visible|^[a-z]+[#.[:]/i.test(condition);
+}
@@ -5,9 +5,14 @@ export * from './gemini/types';
 
 // Export scenario analysis
 export { ScenarioAnalyzer, getScenarioAnalyzer } from './services/scenario-analyzer';
-export { ScenarioParser, PartialResultRecovery } from './parsers/scenario-parser';
+export { ScenarioParser, PartialResultRecovery, TestStepSchema } from './parsers/scenario-parser';
+export { PlaywrightSpecParser } from './parsers/playwright-spec-parser';
+export { TestCaseFileParser, TestCaseFileError, TestCaseFileEntrySchema } from './parsers/test-case-file-parser';
 export * from './prompts/scenario-analysis';
 
+// Export Playwright spec export
+export { PlaywrightSpecExporter } from './exporters/playwright-spec-exporter';
+
 // Export MCP tools integration
 export { MCPToolManager, getMCPToolManager, resetMCPToolManager } from './execution/mcp-tool-manager';
 
@@ -51,6 +56,21 @@ export type {
   AnalysisResult as ScenarioAnalysisResult,
 } from './parsers/scenario-parser';
 
+export type {
+  PlaywrightSpecExport,
+} from './exporters/playwright-spec-exporter';
+
+export type {
+  ImportedTestCase,
+} from './parsers/playwright-spec-parser';
+
+export type {
+  TestCaseFileEntry,
+  TestCaseDefinition,
+  TestCaseFieldDrift,
+  SyncedField,
+} from './parsers/test-case-file-parser';
+
 export type {
   AnalyzeScenarioRequest,
   AnalyzeScenarioResponse,
@@ -0,0 +1,121 @@
+import { createLogger } from '@cinnamon-qa/logger';
+import { PlaywrightSpecParser } from './playwright-spec-parser';
+
+const logger = createLogger({ context: 'PlaywrightSpecParserTest' });
+
+// Output of `npx playwright codegen`
+const CODEGEN_SPEC = `import { test, expect } from '@playwright/test';
+
+test('test', async ({ page }) => {
+  await page.goto('https://example.com/login');
+  await page.getByPlaceholder('Email').fill('user@example.com');
+  await page.getByRole('textbox', { name: 'Password' }).fill('secret');
+  await page.getByRole('checkbox', { name: 'Remember me' }).check();
+  await page.getByRole('button', { name: "Don't forget" }).click();
+  await page.getByTestId('nav').getByRole('link', { name: 'Settings' }).click();
+  await expect(page.getByRole('heading', { name: 'Settings' })).toBeVisible();
+  await expect(page.locator('#status')).toContainText('Saved');
+  await page.getByText('Row 1').getByRole('button', { name: 'Edit' }).click();
+});
+`;
+
+// Regex literals, comments and strings with brackets in them
+const REGEX_SPEC = `import { test, expect } from '@playwright/test';
+
+test.describe('checkout', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('https://example.com/'); // see (docs
+  });
+
+  test('pays', async ({ page }) => {
+    /* the cart) is prefilled */
+    await expect(page).toHaveURL(/example\\.com\\//);
+    await page.getByRole('button', { name: /Pay \\(card\\)/ }).click();
+    await page.locator('#note').fill('done :)');
+    await page.mouse.wheel(0, -300);
+  });
+});
+`;
+
+function assert(condition: unknown, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+/**
+ * Test the Playwright spec parser on codegen output
+ * Run with: npx tsx src/ai/parsers/playwright-spec-parser.test.ts
+ */
+function testPlaywrightSpecParser() {
+  logger.info('Starting Playwright spec parser test...');
+
+  try {
+    const [testCase] = PlaywrightSpecParser.parse(CODEGEN_SPEC, { name: 'Login' });
+    const selectors = testCase.steps.map((step) => step.selector);
+
+    // Test 1: the case starts at the navigated URL
+    assert(testCase.name === 'Login', 'name from the options');
+    assert(testCase.url === 'https://example.com/login', 'URL from page.goto');
+    assert(testCase.steps[0].action === 'navigate', 'first step navigates');
+    logger.info('✅ Case and URL');
+
+    // Test 2: form controls are found by their attributes, not their (empty) text
+    assert(selectors[1] === '[placeholder="Email"]', `placeholder: ${selectors[1]}`);
+    assert(
+      selectors[2] === ':is(input, textarea, [role="textbox"]):is([aria-label="Password"], [placeholder="Password"])',
+      `textbox: ${selectors[2]}`
+    );
+    assert(
+      selectors[3] === ':is(input[type="checkbox"], [role="checkbox"]):is([aria-label="Remember me"])',
+      `checkbox: ${selectors[3]}`
+    );
+    logger.info('✅ Form controls');
+
+    // Test 3: text conditions stay literal, with no backslash escapes
+    assert(selectors[4] === ':is(button, [role="button"]):has-text("Don\'t forget")', `button: ${selectors[4]}`);
+    assert(!selectors.some((selector) => selector.includes('\\')), 'no backslash escapes');
+    logger.info('✅ Literal text');
+
+    // Test 4: chained locators resolve to descendants
+    assert(
+      selectors[5] === '[data-testid="nav"] :is(a, [role="link"]):has-text("Settings")',
+      `chained link: ${selectors[5]}`
+    );
+    logger.info('✅ Chained locators');
+
+    // Test 5: role groups never leave a comma-separated list at the top level
+    assert(
+      selectors[6] === ':is(h1, h2, h3, h4, h5, h6, [role="heading"]):has-text("Settings")',
+      `heading: ${selectors[6]}`
+    );
+    assert(testCase.steps[7].action === 'verify' && testCase.steps[7].value === 'Saved', 'text assertion');
+    logger.info('✅ Assertions');
+
+    // Test 6: a text condition in the middle of a chain cannot be expressed and is skipped
+    assert(testCase.steps.length === 8, `step count: ${testCase.steps.length}`);
+    assert(testCase.warnings.some((warning) => warning.includes("getByText('Row 1')")), 'skipped chain warned');
+    logger.info('✅ Unsupported chains skipped');
+
+    // Test 7: regex literals and brackets in comments or strings do not break parsing
+    const [regexCase] = PlaywrightSpecParser.parse(REGEX_SPEC);
+    assert(regexCase.name === 'pays', `name from test(): ${regexCase.name}`);
+    assert(regexCase.url === 'https://example.com/', 'URL from test.beforeEach');
+    assert(
+      regexCase.steps.map((step) => step.action).join() === 'navigate,click,type,scroll',
+      `steps: ${regexCase.steps.map((step) => step.action).join()}`
+    );
+    assert(regexCase.steps[1].selector === ':is(button, [role="button"]):has-text("Pay (card)")', `regex name: ${regexCase.steps[1].selector}`);
+    assert(regexCase.steps[2].value === 'done :)', 'string with a bracket');
+    assert(regexCase.warnings.some((warning) => warning.includes('toHaveURL(/example')), 'URL assertion skipped');
+    assert(regexCase.steps[3].value === '-300', 'negative scroll distance');
+    logger.info('✅ Regex literals');
+
+    logger.info('All Playwright spec parser tests passed!');
+  } catch (error) {
+    logger.error('❌ Test failed:', error);
+    process.exitCode = 1;
+  }
+}
+
+testPlaywrightSpecParser();
@@ -0,0 +1,642 @@
+import * as ts from 'typescript';
+import { z } from 'zod';
+import { createLogger } from '@cinnamon-qa/logger';
+import { TestStepSchema, type TestStep } from './scenario-parser';
+
+const logger = createLogger({ context: 'PlaywrightSpecParser' });
+
+const MAX_STEPS = 50;
+
+/**
+ * 스펙에서 가져온 테스트 케이스 하나
+ */
+export interface ImportedTestCase {
+  name: string;
+  url: string;
+  originalScenario: string;
+  steps: TestStep[];
+  // 변환하지 못하고 건너뛴 구문
+  warnings: string[];
+}
+
+/**
+ * 호출 체인의 한 구간 (`.click()`, `.getByRole('button', ...)`, `.not`)
+ */
+interface ChainCall {
+  name: string;
+  args: readonly ts.Expression[] | null;
+}
+
+/**
+ * 변환된 로케이터: 워커가 사용하는 CSS 선택자와 설명용 이름
+ */
+interface ImportedLocator {
+  selector: string;
+  label: string;
+}
+
+type DraftStep = Omit<TestStep, 'id'>;
+
+// 역할별 요소. 워커는 최상위 쉼표를 대안 목록으로 보므로 :is()로 묶음
+const ROLE_TAGS: Record<string, string> = {
+  button: ':is(button, [role="button"])',
+  link: ':is(a, [role="link"])',
+  heading: ':is(h1, h2, h3, h4, h5, h6, [role="heading"])',
+  textbox: ':is(input, textarea, [role="textbox"])',
+  checkbox: ':is(input[type="checkbox"], [role="checkbox"])',
+  radio: ':is(input[type="radio"], [role="radio"])',
+  combobox: ':is(select, [role="combobox"])',
+  img: ':is(img, [role="img"])',
+};
+
+// 텍스트 내용이 아닌 속성으로 이름이 정해지는 역할
+const ROLE_NAME_ATTRIBUTES: Record<string, string[]> = {
+  textbox: ['aria-label', 'placeholder'],
+  checkbox: ['aria-label'],
+  radio: ['aria-label'],
+  combobox: ['aria-label'],
+  img: ['alt', 'aria-label'],
+};
+
+const ROLE_LABELS: Record<string, string> = {
+  button: '버튼',
+  link: '링크',
+  heading: '제목',
+  textbox: '입력 필드',
+  checkbox: '체크박스',
+  radio: '라디오 버튼',
+  combobox: '선택 목록',
+  img: '이미지',
+};
+
+const LOCATOR_METHODS = new Set([
+  'locator', 'getByRole', 'getByText', 'getByLabel', 'getByPlaceholder', 'getByTestId', 'getByAltText', 'getByTitle',
+]);
+const LOCATOR_MODIFIERS = new Set(['first', 'last', 'nth', 'filter', 'and', 'or']);
+// page.click(selector) 형식의 예전 API
+const PAGE_ACTIONS = new Set(['click', 'dblclick', 'check', 'uncheck', 'tap', 'fill', 'type', 'hover', 'selectOption']);
+const LOCATOR_ACTIONS = new Set([...PAGE_ACTIONS, 'pressSequentially']);
+
+/**
+ * @playwright/test 스펙과 codegen 녹화를 TestStepSchema 스텝으로 변환
+ */
+export class PlaywrightSpecParser {
+  /**
+   * 스펙 소스를 테스트 케이스 목록으로 변환. test() 블록마다 하나씩 만들며,
+   * test() 없이 page 호출만 있는 녹화는 케이스 하나로 취급함
+   */
+  static parse(source: string, options: { name?: string; url?: string } = {}): ImportedTestCase[] {
+    const file = ts.createSourceFile('spec.ts', source, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+    const blocks = findTestBlocks(file);
+    const beforeEach = findCalls(file, (callee) => callee === 'test.beforeEach');
+
+    const cases = blocks.length > 0
+      ? blocks.map((block) => ({ name: block.name, nodes: [...beforeEach, block.call] }))
+      : [{ name: options.name ?? 'Imported Playwright recording', nodes: [file] }];
+
+    const imported = cases.map(({ name, nodes }) => {
+      const warnings: string[] = [];
+      const drafts = nodes
+        .flatMap((node) => findAwaitedExpressions(node))
+        .map((expression) => this.toStep(expression, file, warnings))
+        .filter((step): step is DraftStep => step !== null);
+
+      return this.buildCase(blocks.length > 1 || !options.name ? name : options.name, drafts, warnings, options.url);
+    });
+
+    logger.info('Parsed Playwright spec', {
+      cases: imported.length,
+      steps: imported.map((testCase) => testCase.steps.length),
+    });
+
+    return imported;
+  }
+
+  private static buildCase(name: string, drafts: DraftStep[], warnings: string[], fallbackUrl?: string): ImportedTestCase {
+    if (drafts.length === 0) {
+      throw new Error(`No supported Playwright actions found in "${name}"`);
+    }
+    if (drafts.length > MAX_STEPS) {
+      throw new Error(`"${name}" has ${drafts.length} steps (max ${MAX_STEPS})`);
+    }
+
+    const url = drafts.find((step) => step.action === 'navigate')?.value ?? fallbackUrl;
+    if (!url) {
+      throw new Error(`"${name}" never navigates to a page; provide the URL of the test case`);
+    }
+
+    const steps = z.array(TestStepSchema).parse(
+      drafts.map((step, index) => ({ id: `step-${index + 1}`, ...step }))
+    );
+
+    return {
+      name,
+      url,
+      originalScenario: buildScenario(url, steps),
+      steps,
+      warnings,
+    };
+  }
+
+  /**
+   * await 구문 하나를 스텝으로 변환. 지원하지 않는 구문은 경고로 남기고 건너뜀
+   */
+  private static toStep(expression: ts.Expression, file: ts.SourceFile, warnings: string[]): DraftStep | null {
+    const text = expression.getText(file);
+
+    try {
+      const chain = parseChain(expression);
+      const step = chain[0]?.name === 'expect' ? this.toAssertionStep(chain) : this.toActionStep(chain);
+      if (!step) {
+        warnings.push(`Skipped unsupported statement: ${singleLine(text)}`);
+      }
+      return step;
+    } catch (error) {
+      warnings.push(`Skipped unparsable statement: ${singleLine(text)}`);
+      logger.debug('Failed to parse statement', { statement: text, error });
+      return null;
+    }
+  }
+
+  private static toActionStep(chain: ChainCall[]): DraftStep | null {
+    const [root, ...calls] = chain;
+    if (!root || !['page', 'frame'].includes(root.name) || calls.length === 0) {
+      return null;
+    }
+
+    const action = calls[calls.length - 1];
+    const args = action.args ?? [];
+
+    switch (action.name) {
+      case 'goto': {
+        const url = stringArgs(args)[0];
+        return url
+          ? { action: 'navigate', description: `페이지 이동: ${url}`, selector: '', value: url, expectedResult: '페이지가 로드됨' }
+          : null;
+      }
+
+      case 'waitForTimeout': {
+        const milliseconds = numberArg(args[0]);
+        return Number.isFinite(milliseconds)
+          ? { action: 'wait', description: `${milliseconds}ms 대기`, selector: '', waitCondition: `${milliseconds}ms`, expectedResult: '대기 시간 경과' }
+          : null;
+      }
+
+      case 'waitForSelector': {
+        const selector = stringArgs(args)[0];
+        if (!selector) {
+          return null;
+        }
+        const locator = fromSelector(selector);
+        return {
+          action: 'wait',
+          description: `${locator.label} 표시 대기`,
+          selector: locator.selector,
+          waitCondition: 'visible',
+          expectedResult: `${locator.label}이(가) 표시됨`,
+        };
+      }
+
+      case 'wheel': {
+        const deltaY = numberArg(args[1]);
+        return {
+          action: 'scroll',
+          description: '페이지 스크롤',
+          selector: '',
+          value: String(Number.isFinite(deltaY) ? deltaY : 600),
+          expectedResult: '페이지가 스크롤됨',
+        };
+      }
+    }
+
+    // page.click('#id') 등 예전 API
+    if (calls.length === 1 && PAGE_ACTIONS.has(action.name)) {
+      const [selector, value] = stringArgs(args);
+      return selector ? toInteraction(action.name, fromSelector(selector), value ?? selectOptionValue(args)) : null;
+    }
+
+    const locator = buildLocator(calls.slice(0, -1));
+    if (!locator) {
+      return null;
+    }
+
+    if (action.name === 'scrollIntoViewIfNeeded') {
+      return {
+        action: 'scroll',
+        description: `${locator.label}까지 스크롤`,
+        selector: locator.selector,
+        expectedResult: `${locator.label}이(가) 화면에 표시됨`,
+      };
+    }
+
+    if (action.name === 'waitFor') {
+      return {
+        action: 'wait',
+        description: `${locator.label} 표시 대기`,
+        selector: locator.selector,
+        waitCondition: 'visible',
+        expectedResult: `${locator.label}이(가) 표시됨`,
+      };
+    }
+
+    return LOCATOR_ACTIONS.has(action.name)
+      ? toInteraction(action.name, locator, stringArgs(args)[0] ?? selectOptionValue(args))
+      : null;
+  }
+
+  /**
+   * expect(locator).toXxx() 검증. 부정 검증과 페이지 단위 검증(URL, 제목)은
+   * 워커가 확인할 수 없으므로 지원하지 않음
+   */
+  private static toAssertionStep(chain: ChainCall[]): DraftStep | null {
+    const [expectCall, ...matchers] = chain;
+    if (!expectCall.args?.[0] || matchers.some((call) => call.name === 'not')) {
+      return null;
+    }
+
+    const subject = parseChain(expectCall.args[0]);
+    if (subject[0]?.name !== 'page' || subject.length < 2) {
+      return null;
+    }
+    const locator = buildLocator(subject.slice(1));
+    const matcher = matchers[matchers.length - 1];
+    if (!locator || !matcher) {
+      return null;
+    }
+
+    switch (matcher.name) {
+      case 'toBeVisible':
+      case 'toBeAttached':
+      case 'toBeEnabled':
+      case 'toBeChecked':
+        return {
+          action: 'verify',
+          description: `${locator.label} 표시 확인`,
+          selector: locator.selector,
+          waitCondition: 'visible',
+          expectedResult: `${locator.label}이(가) 표시됨`,
+        };
+
+      case 'toHaveText':
+      case 'toContainText':
+      case 'toHaveValue': {
+        const expected = stringArgs(matcher.args ?? [])[0];
+        if (!expected) {
+          return null;
+        }
+        return {
+          action: 'verify',
+          description: `${locator.label}에 "${expected}" 포함 확인`,
+          selector: locator.selector,
+          value: expected,
+          expectedResult: `"${expected}" 텍스트가 표시됨`,
+        };
+      }
+
+      default:
+        return null;
+    }
+  }
+}
+
+function toInteraction(method: string, locator: ImportedLocator, value?: string): DraftStep | null {
+  switch (method) {
+    case 'click':
+    case 'dblclick':
+    case 'check':
+    case 'uncheck':
+    case 'tap':
+      return { action: 'click', description: `${locator.label} 클릭`, selector: locator.selector, expectedResult: '클릭 동작이 반영됨' };
+
+    case 'fill':
+    case 'type':
+    case 'pressSequentially':
+      return value === undefined
+        ? null
+        : {
+            action: 'type',
+            description: `${locator.label}에 "${value}" 입력`,
+            selector: locator.selector,
+            value,
+            expectedResult: '입력값이 필드에 표시됨',
+          };
+
+    case 'hover':
+      return { action: 'hover', description: `${locator.label}에 마우스 오버`, selector: locator.selector, expectedResult: '마우스 오버 상태가 표시됨' };
+
+    case 'selectOption':
+      return value === undefined
+        ? null
+        : {
+            action: 'select',
+            description: `${locator.label}에서 "${value}" 선택`,
+            selector: locator.selector,
+            value,
+            expectedResult: '옵션이 선택됨',
+          };
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * getBy* / locator 체인을 워커의 locate()가 해석하는 CSS 선택자로 변환.
+ * 체인은 하위 요소 선택자로 이어 붙이며, :has-text()는 선택자 끝에만 올 수
+ * 있으므로 중간 구간에 텍스트 조건이 있거나 구간이 쉼표 대안 목록이면
+ * 변환하지 않음. first()/nth() 등은 무시함
+ */
+function buildLocator(calls: ChainCall[]): ImportedLocator | null {
+  const parts: ImportedLocator[] = [];
+
+  for (const call of calls) {
+    if (LOCATOR_MODIFIERS.has(call.name)) {
+      continue;
+    }
+    if (!LOCATOR_METHODS.has(call.name) || call.args === null) {
+      return null;
+    }
+
+    const [value] = stringArgs(call.args);
+    if (!value) {
+      return null;
+    }
+
+    switch (call.name) {
+      case 'locator':
+        parts.push(fromSelector(value));
+        break;
+      case 'getByRole': {
+        const name = optionName(call.args);
+        const tag = ROLE_TAGS[value] ?? `[role=${cssString(value)}]`;
+        const roleLabel = ROLE_LABELS[value] ?? value;
+        parts.push({
+          selector: name ? `${tag}${roleNameSelector(value, name)}` : tag,
+          label: name ? `'${name}' ${roleLabel}` : roleLabel,
+        });
+        break;
+      }
+      case 'getByText':
+        parts.push({ selector: `*${hasText(value)}`, label: `'${value}' 텍스트` });
+        break;
+      case 'getByLabel':
+        parts.push({ selector: `[aria-label=${cssString(value)}]`, label: `'${value}' 입력 필드` });
+        break;
+      case 'getByPlaceholder':
+        parts.push({ selector: `[placeholder=${cssString(value)}]`, label: `'${value}' 입력 필드` });
+        break;
+      case 'getByTestId':
+        parts.push({ selector: `[data-testid=${cssString(value)}]`, label: `${value} 요소` });
+        break;
+      case 'getByAltText':
+        parts.push({ selector: `[alt=${cssString(value)}]`, label: `'${value}' 이미지` });
+        break;
+      case 'getByTitle':
+        parts.push({ selector: `[title=${cssString(value)}]`, label: `'${value}' 요소` });
+        break;
+    }
+  }
+
+  if (parts.length === 0) {
+    return null;
+  }
+
+  const chained = parts.length > 1;
+  if (chained && parts.some((part, index) =>
+    hasTopLevelComma(part.selector) || (index < parts.length - 1 && part.selector.includes(':has-text(')))) {
+    return null;
+  }
+
+  return {
+    selector: parts.map((part) => part.selector).join(' '),
+    label: parts[parts.length - 1].label,
+  };
+}
+
+/**
+ * Playwright 선택자 문자열 변환 (`text=`, `data-testid=` 엔진 포함)
+ */
+function fromSelector(selector: string): ImportedLocator {
+  const text = selector.match(/^text=["']?(.*?)["']?$/);
+  if (text) {
+    return { selector: `*${hasText(text[1])}`, label: `'${text[1]}' 텍스트` };
+  }
+  const testId = selector.match(/^data-testid=["']?(.*?)["']?$/);
+  if (testId) {
+    return { selector: `[data-testid=${cssString(testId[1])}]`, label: `${testId[1]} 요소` };
+  }
+  return { selector: selector.replace(/^css=/, ''), label: `${selector} 요소` };
+}
+
+function buildScenario(url: string, steps: TestStep[]): string {
+  return [
+    `${url} 에서 다음 순서로 테스트합니다.`,
+    ...steps.map((step, index) => `${index + 1}. ${step.description}`),
+  ].join('\n');
+}
+
+/**
+ * `a.b(...).c` 형태의 호출 체인 분해
+ */
+function parseChain(node: ts.Expression): ChainCall[] {
+  if (ts.isParenthesizedExpression(node) || ts.isNonNullExpression(node)) {
+    return parseChain(node.expression);
+  }
+  if (ts.isIdentifier(node)) {
+    return [{ name: node.text, args: null }];
+  }
+  if (ts.isPropertyAccessExpression(node)) {
+    return [...parseChain(node.expression), { name: node.name.text, args: null }];
+  }
+  if (ts.isCallExpression(node)) {
+    const calls = parseChain(node.expression);
+    calls[calls.length - 1] = { ...calls[calls.length - 1], args: node.arguments };
+    return calls;
+  }
+
+  throw new Error(`Unexpected ${ts.SyntaxKind[node.kind]}`);
+}
+
+/**
+ * 인자 중 문자열 리터럴의 값
+ */
+function stringArgs(args: readonly ts.Expression[]): string[] {
+  return args
+    .map(stringValue)
+    .filter((value): value is string => value !== undefined);
+}
+
+function stringValue(node: ts.Node | undefined): string | undefined {
+  return node && (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) ? node.text : undefined;
+}
+
+function numberArg(node: ts.Expression | undefined): number {
+  if (node && ts.isPrefixUnaryExpression(node) && node.operator === ts.SyntaxKind.MinusToken) {
+    return -numberArg(node.operand);
+  }
+  return node && ts.isNumericLiteral(node) ? Number(node.text) : NaN;
+}
+
+/**
+ * 객체 리터럴 인자의 속성 값 (`{ name: 'Save' }`)
+ */
+function optionValue(args: readonly ts.Expression[], keys: string[]): ts.Expression | undefined {
+  for (const arg of args) {
+    if (!ts.isObjectLiteralExpression(arg)) {
+      continue;
+    }
+    const property = arg.properties.find((candidate): candidate is ts.PropertyAssignment =>
+      ts.isPropertyAssignment(candidate) && keys.includes(candidate.name.getText()));
+    if (property) {
+      return property.initializer;
+    }
+  }
+  return undefined;
+}
+
+// getByRole('button', { name: 'Save' }) 또는 { name: /Save/i }
+function optionName(args: readonly ts.Expression[]): string | undefined {
+  const name = optionValue(args, ['name']);
+  if (name && ts.isRegularExpressionLiteral(name)) {
+    return unescape(name.text.slice(1, name.text.lastIndexOf('/')));
+  }
+  return stringValue(name);
+}
+
+// selectOption({ label: 'x' }) 또는 selectOption(['x'])
+function selectOptionValue(args: readonly ts.Expression[]): string | undefined {
+  const list = args.find(ts.isArrayLiteralExpression);
+  return stringValue(optionValue(args, ['label', 'value'])) ?? stringValue(list?.elements[0]);
+}
+
+function calleeName(node: ts.Expression): string | undefined {
+  if (ts.isIdentifier(node)) {
+    return node.text;
+  }
+  if (ts.isPropertyAccessExpression(node)) {
+    const object = calleeName(node.expression);
+    return object && `${object}.${node.name.text}`;
+  }
+  return undefined;
+}
+
+/**
+ * 조건에 맞는 호출. 찾은 호출의 안쪽은 더 찾지 않음
+ */
+function findCalls(root: ts.Node, matches: (callee: string, call: ts.CallExpression) => boolean): ts.CallExpression[] {
+  const calls: ts.CallExpression[] = [];
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isCallExpression(node)) {
+      const callee = calleeName(node.expression);
+      if (callee && matches(callee, node)) {
+        calls.push(node);
+        return;
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(root);
+
+  return calls;
+}
+
+function findTestBlocks(file: ts.SourceFile): Array<{ name: string; call: ts.CallExpression }> {
+  return findCalls(file, (callee, call) =>
+    (callee === 'test' || callee === 'test.only') && stringValue(call.arguments[0]) !== undefined
+  ).map((call) => ({ name: stringValue(call.arguments[0]) ?? '', call }));
+}
+
+/**
+ * 노드 안의 `await ...` 구문을 소스 순서대로. await 안쪽의 await는 포함하지 않음
+ */
+function findAwaitedExpressions(root: ts.Node): ts.Expression[] {
+  const expressions: ts.Expression[] = [];
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isAwaitExpression(node)) {
+      expressions.push(node.expression);
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(root);
+
+  return expressions;
+}
+
+function skipString(text: string, start: number): number {
+  const quote = text[start];
+  for (let index = start + 1; index < text.length; index++) {
+    if (text[index] === '\\') {
+      index++;
+    } else if (text[index] === quote) {
+      return index;
+    }
+  }
+  return text.length - 1;
+}
+
+function unescape(value: string): string {
+  return value.replace(/\\(.)/g, '$1');
+}
+
+/**
+ * 역할 요소의 이름 조건. 입력 필드 등은 텍스트 내용이 없으므로 속성으로 찾음
+ */
+function roleNameSelector(role: string, name: string): string {
+  const attributes = ROLE_NAME_ATTRIBUTES[role];
+  if (!attributes) {
+    return hasText(name);
+  }
+  return `:is(${attributes.map((attribute) => `[${attribute}=${cssString(name)}]`).join(', ')})`;
+}
+
+/**
+ * 워커는 :has-text() 안의 텍스트를 이스케이프 해제 없이 그대로 비교하므로,
+ * 텍스트에 없는 따옴표로 감쌈 (둘 다 있어도 마지막 따옴표까지 읽으므로 무방)
+ */
+function hasText(text: string): string {
+  const quote = text.includes('"') && !text.includes("'") ? "'" : '"';
+  return `:has-text(${quote}${text}${quote})`;
+}
+
+/**
+ * CSS 속성 값 문자열
+ */
+function cssString(value: string): string {
+  if (!value.includes('"')) {
+    return `"${value.replace(/\\/g, '\\\\')}"`;
+  }
+  if (!value.includes("'")) {
+    return `'${value.replace(/\\/g, '\\\\')}'`;
+  }
+  return `"${value.replace(/[\\"]/g, '\\$&')}"`;
+}
+
+/**
+ * 따옴표나 괄호 밖의 쉼표(선택자 대안 목록) 포함 여부
+ */
+function hasTopLevelComma(selector: string): boolean {
+  let depth = 0;
+
+  for (let index = 0; index < selector.length; index++) {
+    const char = selector[index];
+    if (char === '"' || char === "'") {
+      index = skipString(selector, index);
+    } else if (char === '(' || char === '[') {
+      depth++;
+    } else if (char === ')' || char === ']') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+function singleLine(value: string): string {
+  const line = value.replace(/\s+/g, ' ').trim();
+  return line.length > 120 ? `${line.slice(0, 117)}...` : line;
+}
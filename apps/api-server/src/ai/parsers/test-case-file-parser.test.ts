@@ -0,0 +1,169 @@
+import type { TestCase } from '@cinnamon-qa/database';
+import { createLogger } from '@cinnamon-qa/logger';
+import { TestCaseFileError, TestCaseFileParser } from './test-case-file-parser';
+
+const logger = createLogger({ context: 'TestCaseFileParserTest' });
+
+const CHECKOUT_YAML = `key: checkout/happy-path
+name: Checkout with a saved card
+url: https://shop.example.com
+original_scenario: Pay with the saved card
+tags: [smoke, checkout]
+test_config:
+  timeout: 60000
+steps:
+  - id: step-1
+    action: navigate
+    description: Open the shop
+    selector: ""
+    value: https://shop.example.com
+    expectedResult: The product list is shown
+`;
+
+const LIST_YAML = `cases:
+  - key: search/empty
+    name: Empty search
+    url: https://shop.example.com
+    original_scenario: Search for nothing
+---
+- key: search/typo
+  name: Search with a typo
+  url: https://shop.example.com
+  original_scenario: Search for "shirtt"
+`;
+
+const ACCOUNT_JSON = JSON.stringify([
+  { key: 'account/login', name: 'Login', url: 'https://shop.example.com/login', original_scenario: 'Log in' },
+]);
+
+function assert(condition: unknown, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function issuesOf(fn: () => unknown): string[] {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof TestCaseFileError) {
+      return error.issues;
+    }
+    throw error;
+  }
+  return [];
+}
+
+function storedCase(fields: Partial<TestCase> = {}): TestCase {
+  return {
+    id: 'case-1',
+    name: 'Checkout with a saved card',
+    url: 'https://shop.example.com',
+    original_scenario: 'Pay with the saved card',
+    refined_scenario: null,
+    adaptation_patterns: [],
+    reliability_score: 1,
+    test_config: {
+      viewport: { width: 1920, height: 1080 },
+      timeout: 60000,
+      headless: true,
+      adaptiveMode: true,
+      maxAdaptations: 3,
+      recoveryStrategies: [],
+      aiValidation: { enabled: false, confidence_threshold: 0.8, validation_points: [] },
+    },
+    created_at: '2026-10-01T00:00:00.000Z',
+    updated_at: '2026-10-01T00:00:00.000Z',
+    created_by: null,
+    is_active: true,
+    tags: ['checkout', 'smoke'],
+    file_key: 'checkout/happy-path',
+    ...fields,
+  };
+}
+
+/**
+ * Test the test case file loader and the drift between files and the database
+ * Run with: npx tsx src/ai/parsers/test-case-file-parser.test.ts
+ */
+function testTestCaseFileParser() {
+  logger.info('Starting test case file parser test...');
+
+  try {
+    // Test 1: a single case, a `cases:` list, several YAML documents and JSON lists
+    const definitions = TestCaseFileParser.parseFiles([
+      { path: 'qa/checkout.yaml', content: CHECKOUT_YAML },
+      { path: 'qa/search.yml', content: LIST_YAML },
+      { path: 'qa/account.json', content: ACCOUNT_JSON },
+    ]);
+    assert(
+      definitions.map(({ key }) => key).join() === 'checkout/happy-path,search/empty,search/typo,account/login',
+      'all cases in file order'
+    );
+    assert(definitions[0].source === 'qa/checkout.yaml#1', 'source of a single case');
+    assert(definitions[2].source === 'qa/search.yml#2', 'source numbered across documents');
+    assert(definitions[0].steps?.[0].action === 'navigate', 'pinned steps');
+    logger.info('✅ File layouts');
+
+    // Test 2: every issue of every file is reported at once, with its location
+    const issues = issuesOf(() => TestCaseFileParser.parseFiles([
+      { path: 'bad.yaml', content: 'key: bad key\nname: Bad\nurl: not-a-url\noriginal_scenario: x\n' },
+      { path: 'broken.json', content: '{' },
+      { path: 'extra.yaml', content: `${CHECKOUT_YAML}owner: qa\n` },
+    ]));
+    assert(issues.some((issue) => issue.startsWith('bad.yaml: key: ')), 'invalid key');
+    assert(issues.some((issue) => issue.startsWith('bad.yaml: url: ')), 'invalid URL');
+    assert(issues.some((issue) => issue.startsWith('broken.json: ')), 'invalid JSON');
+    assert(issues.some((issue) => issue.startsWith('extra.yaml: ') && issue.includes('owner')), 'unknown field');
+    logger.info('✅ Validation issues');
+
+    // Test 3: keys must be unique across files; empty files and misused `cases:` are rejected
+    const duplicates = issuesOf(() => TestCaseFileParser.parseFiles([
+      { path: 'a.yaml', content: CHECKOUT_YAML },
+      { path: 'b.yaml', content: CHECKOUT_YAML },
+    ]));
+    assert(duplicates[0] === 'b.yaml#1: key "checkout/happy-path" is already used by a.yaml#1', 'duplicate key');
+    assert(issuesOf(() => TestCaseFileParser.parse('', 'empty.yaml'))[0] === 'empty.yaml: no test cases found', 'empty file');
+    assert(
+      issuesOf(() => TestCaseFileParser.parse('cases: []\nname: x\n', 'mixed.yaml'))[0]
+        === 'mixed.yaml: "cases" must be the only top-level field and hold a list',
+      'cases next to other fields'
+    );
+    logger.info('✅ Keys and file structure');
+
+    // Test 4: no drift when only unmanaged values differ (tag order, test_config values the file omits)
+    const [checkout] = definitions;
+    const pinned = checkout.steps ?? null;
+    assert(TestCaseFileParser.diff(checkout, storedCase(), pinned).length === 0, 'in sync');
+    logger.info('✅ No drift');
+
+    // Test 5: drift on changed fields, managed test_config values and pinned steps
+    const drift = TestCaseFileParser.diff(
+      checkout,
+      storedCase({ name: 'Old name', tags: ['checkout'], test_config: { ...storedCase().test_config, timeout: 30000 } }),
+      null
+    );
+    assert(drift.map(({ field }) => field).join() === 'name,tags,test_config,steps', 'drifted fields');
+    assert(drift[0].file === 'Checkout with a saved card' && drift[0].database === 'Old name', 'file and database values');
+    const testConfigDrift = drift[2].database as Record<string, unknown>;
+    assert(testConfigDrift.timeout === 30000 && !('viewport' in testConfigDrift), 'only managed test_config values');
+    logger.info('✅ Drift');
+
+    // Test 6: optional fields the file leaves out are not compared
+    const [search] = TestCaseFileParser.parse(LIST_YAML, 'qa/search.yml');
+    const unmanaged = TestCaseFileParser.diff(
+      search,
+      storedCase({ name: 'Empty search', original_scenario: 'Search for nothing', tags: ['anything'] }),
+      null
+    );
+    assert(unmanaged.length === 0, 'tags, test_config and steps left alone');
+    logger.info('✅ Unmanaged fields');
+
+    logger.info('All test case file parser tests passed!');
+  } catch (error) {
+    logger.error('❌ Test failed:', error);
+    process.exitCode = 1;
+  }
+}
+
+testTestCaseFileParser();
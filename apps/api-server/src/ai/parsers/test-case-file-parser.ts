@@ -0,0 +1,215 @@
+import { z } from 'zod';
+import { parseAllDocuments } from 'yaml';
+import type { TestCase } from '@cinnamon-qa/database';
+import { TestConfigOverridesSchema } from '../../types';
+import { TestStepSchema, type TestStep } from './scenario-parser';
+
+const MAX_STEPS = 50;
+
+/**
+ * 테스트 케이스 파일의 케이스 하나. `key`는 저장소와 DB의 케이스를 잇는
+ * 고정 키이며, tags/test_config/steps는 지정한 경우에만 동기화함.
+ * test_config는 지정한 항목만 DB 설정 위에 덮어씀
+ */
+export const TestCaseFileEntrySchema = z.object({
+  key: z.string()
+    .max(100)
+    .regex(/^[A-Za-z0-9][A-Za-z0-9._/-]*$/, 'Use letters, digits, ".", "_", "/" and "-"'),
+  name: z.string().min(1).max(255),
+  url: z.string().url(),
+  original_scenario: z.string().min(1),
+  tags: z.array(z.string().min(1)).optional(),
+  test_config: TestConfigOverridesSchema.optional(),
+  // 고정 스텝: 시나리오 분석 대신 그대로 실행됨
+  steps: z.array(TestStepSchema).min(1).max(MAX_STEPS).optional(),
+}).strict().superRefine((entry, ctx) => {
+  const seen = new Set<string>();
+  entry.steps?.forEach((step, index) => {
+    if (seen.has(step.id)) {
+      ctx.addIssue({ code: 'custom', path: ['steps', index, 'id'], message: `Duplicate step id "${step.id}"` });
+    }
+    seen.add(step.id);
+  });
+});
+
+export type TestCaseFileEntry = z.infer<typeof TestCaseFileEntrySchema>;
+
+/**
+ * 파일에서 읽은 케이스와 그 위치 (`cases/login.yaml#2`)
+ */
+export interface TestCaseDefinition extends TestCaseFileEntry {
+  source: string;
+}
+
+export type SyncedField = 'name' | 'url' | 'original_scenario' | 'tags' | 'test_config' | 'steps';
+
+/**
+ * 파일과 DB의 값이 다른 필드
+ */
+export interface TestCaseFieldDrift {
+  field: SyncedField;
+  file: unknown;
+  database: unknown;
+}
+
+/**
+ * 검증 오류 목록 (`파일 위치: 필드: 메시지`)
+ */
+export class TestCaseFileError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(issues.join('\n'));
+    this.name = 'TestCaseFileError';
+  }
+}
+
+/**
+ * git에 보관하는 YAML/JSON 테스트 케이스 파일 로더
+ */
+export class TestCaseFileParser {
+  /**
+   * 파일들을 읽어 검증. 파일 하나에 케이스 하나, 케이스 목록, 또는
+   * `cases:` 아래 목록을 둘 수 있고 YAML은 여러 문서(---)도 허용함.
+   * 모든 파일의 오류를 모아 한 번에 던짐
+   */
+  static parseFiles(files: Array<{ path: string; content: string }>): TestCaseDefinition[] {
+    const definitions: TestCaseDefinition[] = [];
+    const issues: string[] = [];
+
+    for (const file of files) {
+      try {
+        definitions.push(...this.parse(file.content, file.path));
+      } catch (error) {
+        issues.push(...(error instanceof TestCaseFileError ? error.issues : [`${file.path}: ${String(error)}`]));
+      }
+    }
+
+    const sources = new Map<string, string>();
+    for (const definition of definitions) {
+      const previous = sources.get(definition.key);
+      if (previous) {
+        issues.push(`${definition.source}: key "${definition.key}" is already used by ${previous}`);
+      }
+      sources.set(definition.key, definition.source);
+    }
+
+    if (issues.length > 0) {
+      throw new TestCaseFileError(issues);
+    }
+    return definitions;
+  }
+
+  /**
+   * 파일 하나를 읽어 검증. `.json` 파일은 JSON, 그 외는 YAML로 해석
+   */
+  static parse(content: string, path: string): TestCaseDefinition[] {
+    const entries: Array<{ value: unknown; location: string }> = [];
+    const issues: string[] = [];
+
+    for (const [documentIndex, document] of this.readDocuments(content, path).entries()) {
+      const prefix = documentIndex > 0 ? `[document ${documentIndex + 1}]` : '';
+
+      if (Array.isArray(document)) {
+        document.forEach((value, index) => entries.push({ value, location: `${prefix}[${index}]` }));
+      } else if (isObject(document) && 'cases' in document) {
+        if (!Array.isArray(document.cases) || Object.keys(document).length > 1) {
+          issues.push(`${path}${prefix ? ` ${prefix}` : ''}: "cases" must be the only top-level field and hold a list`);
+          continue;
+        }
+        document.cases.forEach((value, index) => entries.push({ value, location: `${prefix}${prefix ? ' ' : ''}cases[${index}]` }));
+      } else if (document !== null && document !== undefined) {
+        entries.push({ value: document, location: prefix });
+      }
+    }
+
+    const definitions: TestCaseDefinition[] = [];
+    for (const { value, location } of entries) {
+      const result = TestCaseFileEntrySchema.safeParse(value);
+      if (!result.success) {
+        issues.push(...result.error.issues.map((issue) => {
+          const field = formatIssuePath(issue.path);
+          return `${path}${location ? ` ${location}` : ''}: ${field ? `${field}: ` : ''}${issue.message}`;
+        }));
+        continue;
+      }
+      definitions.push({ ...result.data, source: `${path}#${definitions.length + 1}` });
+    }
+
+    if (issues.length === 0 && definitions.length === 0) {
+      issues.push(`${path}: no test cases found`);
+    }
+    if (issues.length > 0) {
+      throw new TestCaseFileError(issues);
+    }
+    return definitions;
+  }
+
+  /**
+   * 파일 정의와 DB 케이스의 차이. 파일에서 생략한 선택 필드와 test_config
+   * 항목은 비교하지 않으며, `pinnedSteps`는 DB에 기록된 최신 시나리오 분석 스텝
+   */
+  static diff(definition: TestCaseDefinition, testCase: TestCase, pinnedSteps: TestStep[] | null): TestCaseFieldDrift[] {
+    const drift: TestCaseFieldDrift[] = [];
+    const compare = (field: SyncedField, file: unknown, database: unknown) => {
+      if (canonicalJson(file) !== canonicalJson(database)) {
+        drift.push({ field, file, database });
+      }
+    };
+
+    compare('name', definition.name, testCase.name);
+    compare('url', definition.url, testCase.url);
+    compare('original_scenario', definition.original_scenario, testCase.original_scenario);
+    if (definition.tags) {
+      compare('tags', [...definition.tags].sort(), [...(testCase.tags ?? [])].sort());
+    }
+    if (definition.test_config) {
+      const stored: Record<string, unknown> = { ...testCase.test_config };
+      const managed = Object.keys(definition.test_config);
+      compare('test_config', definition.test_config, Object.fromEntries(managed.map((key) => [key, stored[key]])));
+    }
+    if (definition.steps) {
+      compare('steps', definition.steps, pinnedSteps);
+    }
+
+    return drift;
+  }
+
+  private static readDocuments(content: string, path: string): unknown[] {
+    if (path.toLowerCase().endsWith('.json')) {
+      try {
+        return [JSON.parse(content)];
+      } catch (error) {
+        throw new TestCaseFileError([`${path}: ${error instanceof Error ? error.message : 'Invalid JSON'}`]);
+      }
+    }
+
+    return parseAllDocuments(content).map((document, index) => {
+      const error = document.errors[0];
+      if (error) {
+        throw new TestCaseFileError([`${path}${index > 0 ? ` [document ${index + 1}]` : ''}: ${error.message}`]);
+      }
+      return document.toJS();
+    });
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function formatIssuePath(path: PropertyKey[]): string {
+  return path
+    .map((segment) => (typeof segment === 'number' ? `[${segment}]` : `.${String(segment)}`))
+    .join('')
+    .replace(/^\./, '');
+}
+
+/**
+ * 키 순서와 undefined 값에 관계없이 같은 값이면 같은 문자열
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item) =>
+    isObject(item)
+      ? Object.fromEntries(Object.keys(item).sort().filter((key) => item[key] !== undefined).map((key) => [key, item[key]]))
+      : item
+  ) ?? 'null';
+}
@@ -10,7 +10,7 @@ const apiRoutes: FastifyPluginAsync = async (fastify) => {
       name,
       url,
       scenario,
-      reliabilityScore: 100,
+      reliabilityScore: 0,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -34,7 +34,7 @@ const apiRoutes: FastifyPluginAsync = async (fastify) => {
       name: 'Sample Test Case',
       url: 'https://example.com',
       scenario: 'Sample scenario',
-      reliabilityScore: 100,
+      reliabilityScore: 0,
       createdAt: new Date(),
       updatedAt: new Date(),
     });
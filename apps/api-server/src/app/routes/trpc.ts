@@ -0,0 +1,26 @@
+import { FastifyPluginAsync } from 'fastify';
+import { fastifyTRPCPlugin, type FastifyTRPCPluginOptions } from '@trpc/server/adapters/fastify';
+import { createLogger } from '@cinnamon-qa/logger';
+import { appRouter, type AppRouter } from '../../trpc/routers';
+import { createContext } from '../../trpc/context';
+
+const logger = createLogger({ context: 'TrpcRoutes' });
+
+/**
+ * Mounts the tRPC router under /trpc. Queries and mutations are served over
+ * HTTP and subscriptions as server-sent events (httpSubscriptionLink).
+ */
+const trpcRoutes: FastifyPluginAsync = async (fastify) => {
+  await fastify.register(fastifyTRPCPlugin, {
+    prefix: '/trpc',
+    trpcOptions: {
+      router: appRouter,
+      createContext,
+      onError({ path, error }) {
+        logger.error('tRPC request failed', { path, code: error.code, error: error.message });
+      },
+    } satisfies FastifyTRPCPluginOptions<AppRouter>['trpcOptions'],
+  });
+};
+
+export default trpcRoutes;
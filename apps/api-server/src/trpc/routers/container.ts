@@ -1,10 +1,103 @@
 import { z } from 'zod';
 import { router, publicProcedure } from '../trpc';
-import { ContainerStatusSchema } from '../../types';
+import { ContainerStatusSchema, type Container, type ContainerStatus } from '../../types';
 import { TRPCError } from '@trpc/server';
+import { getRedisClient } from '@cinnamon-qa/queue';
+import {
+  ContainerPoolManager,
+  ContainerStatus as PoolContainerStatus,
+  type ContainerHealthStatus,
+  type PlaywrightMcpContainer,
+} from '@cinnamon-qa/containers';
 
-// Mock data
-const containers = new Map<string, any>();
+// The worker owns the pool lifecycle and health monitoring; the API server
+// attaches read-only to the same containers and reads their allocation and
+// health state through Redis.
+let containerPool: Promise<ContainerPoolManager> | null = null;
+
+function getContainerPool(): Promise<ContainerPoolManager> {
+  if (!containerPool) {
+    containerPool = (async () => {
+      const redisClient = getRedisClient();
+      await redisClient.connect();
+
+      const poolManager = new ContainerPoolManager(redisClient);
+      await poolManager.attach();
+      return poolManager;
+    })();
+    containerPool.catch(() => {
+      containerPool = null;
+    });
+  }
+  return containerPool;
+}
+
+async function getPoolContainer(id: string): Promise<{ poolManager: ContainerPoolManager; container: PlaywrightMcpContainer }> {
+  const poolManager = await getContainerPool();
+  const container = poolManager.getContainer(id);
+
+  if (!container) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Container not found',
+    });
+  }
+
+  return { poolManager, container };
+}
+
+/**
+ * Combine Docker state, Redis allocation state and health monitoring into
+ * the container view exposed by the API
+ */
+async function describeContainer(
+  poolManager: ContainerPoolManager,
+  container: PlaywrightMcpContainer
+): Promise<Container & { uptime: number; health: ContainerHealthStatus | null }> {
+  const [details, allocation, health] = await Promise.all([
+    container.inspect(),
+    poolManager.getContainerAllocation(container.id),
+    poolManager.getContainerHealth(container.id),
+  ]);
+
+  let status: ContainerStatus;
+  if (!details?.running) {
+    status = 'stopped';
+  } else if (container.status === PoolContainerStatus.STARTING || container.status === PoolContainerStatus.RESTARTING) {
+    status = 'creating';
+  } else if (allocation?.allocated) {
+    status = 'busy';
+  } else if (health && (health.status === 'unhealthy' || health.status === 'critical')) {
+    status = 'unhealthy';
+  } else {
+    status = 'ready';
+  }
+
+  return {
+    id: container.id,
+    dockerId: details?.dockerId ?? container.name,
+    status,
+    createdAt: details?.createdAt ?? new Date(),
+    lastHealthCheck: health?.lastChecked ?? allocation?.lastCheckedAt ?? new Date(),
+    allocatedTo: allocation?.allocated ? allocation.allocatedTo : undefined,
+    metrics: health
+      ? {
+          cpu: health.resourceUsage.cpuPercentage,
+          memory: health.resourceUsage.memoryUsageMB,
+        }
+      : undefined,
+    uptime: details?.startedAt ? Date.now() - details.startedAt.getTime() : 0,
+    health,
+  };
+}
+
+function dockerError(action: string, error: unknown): TRPCError {
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: `Failed to ${action}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    cause: error,
+  });
+}
 
 export const containerRouter = router({
   list: publicProcedure
@@ -12,14 +105,15 @@ export const containerRouter = router({
       status: ContainerStatusSchema.optional(),
     }).optional())
     .query(async ({ input }) => {
-      let allContainers = Array.from(containers.values());
-      
+      const poolManager = await getContainerPool();
+      let allContainers = await Promise.all(
+        poolManager.getContainers().map((container) => describeContainer(poolManager, container))
+      );
+
       if (input?.status) {
         allContainers = allContainers.filter(c => c.status === input.status);
       }
-      
-      // TODO: Fetch from database/Docker
-      
+
       return {
         containers: allContainers,
         total: allContainers.length,
@@ -34,16 +128,8 @@ export const containerRouter = router({
       id: z.string(),
     }))
     .query(async ({ input }) => {
-      const container = containers.get(input.id);
-      
-      if (!container) {
-        throw new TRPCError({
-          code: 'NOT_FOUND',
-          message: 'Container not found',
-        });
-      }
-      
-      return container;
+      const { poolManager, container } = await getPoolContainer(input.id);
+      return describeContainer(poolManager, container);
     }),
 
   start: publicProcedure
@@ -51,28 +137,25 @@ export const containerRouter = router({
       id: z.string(),
     }))
     .mutation(async ({ input }) => {
-      const container = containers.get(input.id);
-      
-      if (!container) {
-        throw new TRPCError({
-          code: 'NOT_FOUND',
-          message: 'Container not found',
-        });
-      }
-      
-      if (container.status !== 'stopped') {
+      const { poolManager, container } = await getPoolContainer(input.id);
+      const current = await describeContainer(poolManager, container);
+
+      if (current.status !== 'stopped') {
         throw new TRPCError({
           code: 'BAD_REQUEST',
           message: 'Container is not in stopped state',
         });
       }
-      
-      // TODO: Actually start Docker container
-      container.status = 'ready';
-      
+
+      try {
+        await poolManager.startContainer(input.id);
+      } catch (error) {
+        throw dockerError('start container', error);
+      }
+
       return {
         success: true,
-        container,
+        container: await describeContainer(poolManager, container),
       };
     }),
 
@@ -81,35 +164,32 @@ export const containerRouter = router({
       id: z.string(),
     }))
     .mutation(async ({ input }) => {
-      const container = containers.get(input.id);
-      
-      if (!container) {
-        throw new TRPCError({
-          code: 'NOT_FOUND',
-          message: 'Container not found',
-        });
-      }
-      
-      if (container.status === 'stopped') {
+      const { poolManager, container } = await getPoolContainer(input.id);
+      const current = await describeContainer(poolManager, container);
+
+      if (current.status === 'stopped') {
         throw new TRPCError({
           code: 'BAD_REQUEST',
           message: 'Container is already stopped',
         });
       }
-      
-      if (container.status === 'busy') {
+
+      if (current.status === 'busy') {
         throw new TRPCError({
           code: 'BAD_REQUEST',
           message: 'Cannot stop container while test is running',
         });
       }
-      
-      // TODO: Actually stop Docker container
-      container.status = 'stopped';
-      
+
+      try {
+        await poolManager.stopContainer(input.id);
+      } catch (error) {
+        throw dockerError('stop container', error);
+      }
+
       return {
         success: true,
-        container,
+        container: await describeContainer(poolManager, container),
       };
     }),
 
@@ -118,29 +198,29 @@ export const containerRouter = router({
       id: z.string(),
     }))
     .mutation(async ({ input }) => {
-      const container = containers.get(input.id);
-      
-      if (!container) {
+      const { poolManager, container } = await getPoolContainer(input.id);
+      const current = await describeContainer(poolManager, container);
+
+      if (current.status === 'busy') {
         throw new TRPCError({
-          code: 'NOT_FOUND',
-          message: 'Container not found',
+          code: 'BAD_REQUEST',
+          message: 'Cannot restart container while test is running',
         });
       }
-      
-      if (container.status === 'busy') {
+
+      // The reset manager escalates from cleanup to restart to recreate
+      const reset = await poolManager.resetContainer(input.id);
+      if (!reset.success) {
         throw new TRPCError({
-          code: 'BAD_REQUEST',
-          message: 'Cannot restart container while test is running',
+          code: 'INTERNAL_SERVER_ERROR',
+          message: `Failed to restart container: ${reset.errors.join('; ') || 'Unknown error'}`,
         });
       }
-      
-      // TODO: Actually restart Docker container
-      container.status = 'ready';
-      container.lastHealthCheck = new Date();
-      
+
       return {
         success: true,
-        container,
+        reset,
+        container: await describeContainer(poolManager, container),
       };
     }),
 
@@ -150,32 +230,30 @@ export const containerRouter = router({
       tail: z.number().min(1).max(1000).default(100),
     }))
     .query(async ({ input }) => {
-      const container = containers.get(input.id);
-      
-      if (!container) {
+      const { container } = await getPoolContainer(input.id);
+      const details = await container.inspect();
+
+      if (!details) {
         throw new TRPCError({
           code: 'NOT_FOUND',
-          message: 'Container not found',
+          message: 'Docker container does not exist',
         });
       }
-      
-      // TODO: Fetch actual Docker logs
-      
-      return {
-        logs: [
-          {
-            timestamp: new Date(),
-            level: 'info',
-            message: 'Container started successfully',
-          },
-          {
-            timestamp: new Date(),
-            level: 'info',
-            message: 'Playwright browser initialized',
-          },
-        ],
-        containerId: container.dockerId,
-      };
+
+      try {
+        const entries = await container.getLogs(input.tail);
+
+        return {
+          logs: entries.map((entry) => ({
+            timestamp: entry.timestamp,
+            level: entry.stream === 'stderr' ? 'error' : 'info',
+            message: entry.message,
+          })),
+          containerId: details.dockerId,
+        };
+      } catch (error) {
+        throw dockerError('read container logs', error);
+      }
     }),
 
   status: publicProcedure
@@ -183,26 +261,23 @@ export const containerRouter = router({
       id: z.string(),
     }))
     .query(async ({ input }) => {
-      const container = containers.get(input.id);
-      
-      if (!container) {
-        throw new TRPCError({
-          code: 'NOT_FOUND',
-          message: 'Container not found',
-        });
-      }
-      
-      // TODO: Get actual metrics from Docker
-      
+      const { poolManager, container } = await getPoolContainer(input.id);
+      const current = await describeContainer(poolManager, container);
+
       return {
-        status: container.status,
-        metrics: container.metrics || {
-          cpu: 10.5,
-          memory: 256,
-        },
-        uptime: Date.now() - container.createdAt.getTime(),
-        lastHealthCheck: container.lastHealthCheck,
-        allocatedTo: container.allocatedTo || null,
+        status: current.status,
+        metrics: current.metrics ?? null,
+        health: current.health
+          ? {
+              status: current.health.status,
+              isHealthy: current.health.isHealthy,
+              consecutiveFailures: current.health.consecutiveFailures,
+              resourceUsage: current.health.resourceUsage,
+            }
+          : null,
+        uptime: current.uptime,
+        lastHealthCheck: current.lastHealthCheck,
+        allocatedTo: current.allocatedTo || null,
       };
     }),
-});
\ No newline at end of file
+});
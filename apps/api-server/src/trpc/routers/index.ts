@@ -4,6 +4,9 @@ import { testRunRouter } from './testRun';
 import { testStepRouter } from './testStep';
 import { containerRouter } from './container';
 import { aiRouter } from './ai';
+import { scheduleRouter } from './schedule';
+import { suiteRouter } from './suite';
+import { matrixRouter } from './matrix';
 
 export const appRouter = router({
   testCase: testCaseRouter,
@@ -11,6 +14,9 @@ export const appRouter = router({
   testStep: testStepRouter,
   container: containerRouter,
   ai: aiRouter,
+  schedule: scheduleRouter,
+  suite: suiteRouter,
+  matrix: matrixRouter,
 });
 
 export type AppRouter = typeof appRouter;
\ No newline at end of file
@@ -0,0 +1,101 @@
+import { z } from 'zod';
+import { router, publicProcedure } from '../trpc';
+import { TRPCError } from '@trpc/server';
+import { createRepositories, TestMatrixRunRepository, type DeviceProfile } from '@cinnamon-qa/database';
+import { DEVICE_PROFILES, TestMatrixRunner } from '@cinnamon-qa/queue';
+import { TestConfigOverridesSchema } from '../../types';
+import { toRunStartError } from '../runControl';
+
+const testMatrixRunRepository = new TestMatrixRunRepository();
+
+let matrixRunner: TestMatrixRunner | null = null;
+
+function getMatrixRunner(): TestMatrixRunner {
+  if (!matrixRunner) {
+    matrixRunner = new TestMatrixRunner(createRepositories());
+  }
+  return matrixRunner;
+}
+
+// A built-in profile by name, or a custom profile
+const DeviceProfileInputSchema = z.union([
+  z.string().min(1),
+  z.object({
+    name: z.string().min(1),
+    viewport: z.object({
+      width: z.number().int().min(1),
+      height: z.number().int().min(1),
+    }),
+    userAgent: z.string().min(1).max(512).optional(),
+  }).strict(),
+]);
+
+function resolveProfile(input: z.infer<typeof DeviceProfileInputSchema>): DeviceProfile {
+  if (typeof input !== 'string') {
+    return input;
+  }
+
+  const profile = DEVICE_PROFILES[input];
+  if (!profile) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `Unknown device profile: ${input} (available: ${Object.keys(DEVICE_PROFILES).join(', ')})`,
+    });
+  }
+  return profile;
+}
+
+export const matrixRouter = router({
+  profiles: publicProcedure
+    .query(() => {
+      return { profiles: Object.values(DEVICE_PROFILES) };
+    }),
+
+  create: publicProcedure
+    .input(z.object({
+      testCaseId: z.string(),
+      profiles: z.array(DeviceProfileInputSchema).min(1).max(10),
+      configOverrides: TestConfigOverridesSchema.optional(),
+    }))
+    .mutation(async ({ input }) => {
+      const profiles = input.profiles.map(resolveProfile);
+
+      try {
+        const matrixRun = await getMatrixRunner().start(input.testCaseId, profiles, input.configOverrides);
+        return getMatrixRunner().compare(matrixRun.id);
+      } catch (error) {
+        throw toRunStartError(error, 'matrix run');
+      }
+    }),
+
+  // Sibling runs side by side, with the devices each step adapted on
+  compare: publicProcedure
+    .input(z.object({
+      id: z.string(),
+    }))
+    .query(async ({ input }) => {
+      const matrixRun = await testMatrixRunRepository.findById(input.id);
+      if (!matrixRun) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Matrix run not found',
+        });
+      }
+
+      return getMatrixRunner().compare(matrixRun.id);
+    }),
+
+  list: publicProcedure
+    .input(z.object({
+      testCaseId: z.string(),
+      limit: z.number().min(1).max(100).default(20),
+    }))
+    .query(async ({ input }) => {
+      const runs = await testMatrixRunRepository.findByTestCaseId(input.testCaseId, input.limit);
+
+      return {
+        runs,
+        total: runs.length,
+      };
+    }),
+});
@@ -0,0 +1,202 @@
+import { z } from 'zod';
+import { router, publicProcedure } from '../trpc';
+import { TRPCError } from '@trpc/server';
+import { TestCaseRepository, TestScheduleRepository, type TestSchedule } from '@cinnamon-qa/database';
+import { getQueueManager, JobUtils } from '@cinnamon-qa/queue';
+import { TestConfigOverridesSchema } from '../../types';
+
+const testCaseRepository = new TestCaseRepository();
+const testScheduleRepository = new TestScheduleRepository();
+
+const DEFAULT_NEXT_RUN_COUNT = 3;
+
+async function findScheduleOrThrow(id: string): Promise<TestSchedule> {
+  const schedule = await testScheduleRepository.findById(id);
+
+  if (!schedule) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Schedule not found',
+    });
+  }
+
+  return schedule;
+}
+
+/**
+ * Next fire times of a schedule; a paused schedule has none
+ */
+function nextRunTimes(schedule: TestSchedule, count = DEFAULT_NEXT_RUN_COUNT): Date[] {
+  if (!schedule.enabled) {
+    return [];
+  }
+  return JobUtils.getNextRunTimes(schedule.cron_expression, schedule.timezone, count);
+}
+
+function describeSchedule(schedule: TestSchedule, count?: number) {
+  return {
+    ...schedule,
+    nextRunTimes: nextRunTimes(schedule, count),
+  };
+}
+
+function registerSchedule(schedule: TestSchedule): Promise<void> {
+  return getQueueManager().upsertTestSchedule({
+    id: schedule.id,
+    testCaseId: schedule.test_case_id,
+    cronExpression: schedule.cron_expression,
+    timezone: schedule.timezone,
+  });
+}
+
+function queueError(action: string, error: unknown): TRPCError {
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: `Failed to ${action}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    cause: error,
+  });
+}
+
+export const scheduleRouter = router({
+  create: publicProcedure
+    .input(z.object({
+      testCaseId: z.string(),
+      name: z.string().min(1).optional(),
+      cronExpression: z.string().min(1),
+      timezone: z.string().min(1).default('UTC'),
+      enabled: z.boolean().default(true),
+      configOverrides: TestConfigOverridesSchema.optional(),
+    }))
+    .mutation(async ({ input }) => {
+      const testCase = await testCaseRepository.findById(input.testCaseId);
+      if (!testCase) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Test case not found',
+        });
+      }
+
+      try {
+        JobUtils.getNextRunTimes(input.cronExpression, input.timezone, 1);
+      } catch (error) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Invalid schedule: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        });
+      }
+
+      const schedule = await testScheduleRepository.create({
+        test_case_id: testCase.id,
+        name: input.name ?? null,
+        cron_expression: input.cronExpression,
+        timezone: input.timezone,
+        enabled: input.enabled,
+        config_overrides: input.configOverrides ?? {},
+      });
+
+      if (schedule.enabled) {
+        try {
+          await registerSchedule(schedule);
+        } catch (error) {
+          await testScheduleRepository.deleteById(schedule.id);
+          throw queueError('register schedule', error);
+        }
+      }
+
+      return describeSchedule(schedule);
+    }),
+
+  list: publicProcedure
+    .input(z.object({
+      testCaseId: z.string().optional(),
+    }).optional())
+    .query(async ({ input }) => {
+      const schedules = await testScheduleRepository.findByTestCaseId(input?.testCaseId);
+
+      return {
+        schedules: schedules.map((schedule) => describeSchedule(schedule)),
+        total: schedules.length,
+      };
+    }),
+
+  nextRuns: publicProcedure
+    .input(z.object({
+      id: z.string(),
+      count: z.number().int().min(1).max(50).default(5),
+    }))
+    .query(async ({ input }) => {
+      const schedule = await findScheduleOrThrow(input.id);
+
+      return {
+        scheduleId: schedule.id,
+        enabled: schedule.enabled,
+        cronExpression: schedule.cron_expression,
+        timezone: schedule.timezone,
+        nextRunTimes: nextRunTimes(schedule, input.count),
+      };
+    }),
+
+  pause: publicProcedure
+    .input(z.object({
+      id: z.string(),
+    }))
+    .mutation(async ({ input }) => {
+      const schedule = await findScheduleOrThrow(input.id);
+
+      if (!schedule.enabled) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Schedule is already paused',
+        });
+      }
+
+      try {
+        await getQueueManager().removeTestSchedule(schedule.id);
+      } catch (error) {
+        throw queueError('pause schedule', error);
+      }
+
+      return describeSchedule(await testScheduleRepository.setEnabled(schedule.id, false));
+    }),
+
+  resume: publicProcedure
+    .input(z.object({
+      id: z.string(),
+    }))
+    .mutation(async ({ input }) => {
+      const schedule = await findScheduleOrThrow(input.id);
+
+      if (schedule.enabled) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Schedule is not paused',
+        });
+      }
+
+      try {
+        await registerSchedule(schedule);
+      } catch (error) {
+        throw queueError('resume schedule', error);
+      }
+
+      return describeSchedule(await testScheduleRepository.setEnabled(schedule.id, true));
+    }),
+
+  delete: publicProcedure
+    .input(z.object({
+      id: z.string(),
+    }))
+    .mutation(async ({ input }) => {
+      const schedule = await findScheduleOrThrow(input.id);
+
+      try {
+        await getQueueManager().removeTestSchedule(schedule.id);
+      } catch (error) {
+        throw queueError('delete schedule', error);
+      }
+
+      await testScheduleRepository.deleteById(schedule.id);
+
+      return { success: true };
+    }),
+});
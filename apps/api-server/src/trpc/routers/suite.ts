@@ -0,0 +1,255 @@
+import { z } from 'zod';
+import { router, publicProcedure } from '../trpc';
+import { TRPCError } from '@trpc/server';
+import {
+  TestCaseRepository,
+  TestReportService,
+  TestSuiteRepository,
+  TestSuiteRunRepository,
+  type TestSuite,
+} from '@cinnamon-qa/database';
+import { ReportFormatsSchema, TestConfigOverridesSchema } from '../../types';
+import { cancelTestRun, getSuiteRunner, toRunStartError } from '../runControl';
+
+const testCaseRepository = new TestCaseRepository();
+const testSuiteRepository = new TestSuiteRepository();
+const testSuiteRunRepository = new TestSuiteRunRepository();
+const testReportService = new TestReportService();
+
+async function findSuiteOrThrow(id: string): Promise<TestSuite> {
+  const suite = await testSuiteRepository.findById(id);
+
+  if (!suite) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Test suite not found',
+    });
+  }
+
+  return suite;
+}
+
+/**
+ * Reject suites referring to test cases that do not exist
+ */
+async function assertTestCasesExist(testCaseIds: string[]): Promise<void> {
+  const missing: string[] = [];
+  for (const id of new Set(testCaseIds)) {
+    if (!(await testCaseRepository.findById(id))) {
+      missing.push(id);
+    }
+  }
+
+  if (missing.length > 0) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `Test cases not found: ${missing.join(', ')}`,
+    });
+  }
+}
+
+const SuiteFieldsSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  testCaseIds: z.array(z.string()).min(1),
+  configOverrides: TestConfigOverridesSchema.optional(),
+  concurrency: z.number().int().min(1).max(20).default(1),
+  tags: z.array(z.string().min(1)).default([]),
+});
+
+export const suiteRouter = router({
+  create: publicProcedure
+    .input(SuiteFieldsSchema)
+    .mutation(async ({ input }) => {
+      await assertTestCasesExist(input.testCaseIds);
+
+      return testSuiteRepository.create({
+        name: input.name,
+        description: input.description ?? null,
+        test_case_ids: input.testCaseIds,
+        config_overrides: input.configOverrides ?? {},
+        concurrency: input.concurrency,
+        tags: input.tags,
+      });
+    }),
+
+  list: publicProcedure
+    .input(z.object({
+      tags: z.array(z.string()).optional(),
+      limit: z.number().min(1).max(100).default(20),
+      offset: z.number().min(0).default(0),
+    }).optional())
+    .query(async ({ input }) => {
+      const { items, total } = await testSuiteRepository.findByTags({
+        tags: input?.tags,
+        limit: input?.limit ?? 20,
+        offset: input?.offset ?? 0,
+      });
+
+      return {
+        items,
+        total,
+        limit: input?.limit ?? 20,
+        offset: input?.offset ?? 0,
+      };
+    }),
+
+  get: publicProcedure
+    .input(z.object({
+      id: z.string(),
+    }))
+    .query(async ({ input }) => {
+      return findSuiteOrThrow(input.id);
+    }),
+
+  update: publicProcedure
+    .input(z.object({
+      id: z.string(),
+      data: SuiteFieldsSchema.partial(),
+    }))
+    .mutation(async ({ input }) => {
+      await findSuiteOrThrow(input.id);
+
+      if (input.data.testCaseIds) {
+        await assertTestCasesExist(input.data.testCaseIds);
+      }
+
+      // Runs already started keep the cases and settings they were started with
+      return testSuiteRepository.updateById(input.id, {
+        name: input.data.name,
+        description: input.data.description,
+        test_case_ids: input.data.testCaseIds,
+        config_overrides: input.data.configOverrides,
+        concurrency: input.data.concurrency,
+        tags: input.data.tags,
+      });
+    }),
+
+  delete: publicProcedure
+    .input(z.object({
+      id: z.string(),
+    }))
+    .mutation(async ({ input }) => {
+      await findSuiteOrThrow(input.id);
+      await testSuiteRepository.deleteById(input.id);
+
+      return { success: true };
+    }),
+
+  run: publicProcedure
+    .input(z.object({
+      id: z.string(),
+    }))
+    .mutation(async ({ input }) => {
+      await findSuiteOrThrow(input.id);
+
+      try {
+        const suiteRun = await getSuiteRunner().start(input.id);
+        return {
+          suiteRun,
+          progress: await getSuiteRunner().getProgress(suiteRun.id),
+        };
+      } catch (error) {
+        throw toRunStartError(error, 'suite run');
+      }
+    }),
+
+  getRun: publicProcedure
+    .input(z.object({
+      id: z.string(),
+    }))
+    .query(async ({ input }) => {
+      const suiteRun = await testSuiteRunRepository.findById(input.id);
+      if (!suiteRun) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Suite run not found',
+        });
+      }
+
+      return {
+        suiteRun,
+        progress: await getSuiteRunner().getProgress(suiteRun.id),
+      };
+    }),
+
+  // Stops dispatching cases and cancels the pending and running test runs
+  cancelRun: publicProcedure
+    .input(z.object({
+      id: z.string(),
+    }))
+    .mutation(async ({ input }) => {
+      const suiteRun = await testSuiteRunRepository.findById(input.id);
+      if (!suiteRun) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Suite run not found',
+        });
+      }
+
+      const progress = await getSuiteRunner().cancel(suiteRun.id, async (testRun) => {
+        await cancelTestRun(testRun);
+      });
+
+      return {
+        suiteRun: await testSuiteRunRepository.findByIdOrThrow(suiteRun.id),
+        progress,
+      };
+    }),
+
+  listRuns: publicProcedure
+    .input(z.object({
+      suiteId: z.string(),
+      limit: z.number().min(1).max(100).default(20),
+    }))
+    .query(async ({ input }) => {
+      await findSuiteOrThrow(input.suiteId);
+      const runs = await testSuiteRunRepository.findBySuiteId(input.suiteId, input.limit);
+
+      return {
+        runs,
+        total: runs.length,
+      };
+    }),
+
+  // One report covering every test run of the suite run
+  generateReport: publicProcedure
+    .input(z.object({
+      runId: z.string(),
+      formats: ReportFormatsSchema,
+    }))
+    .mutation(async ({ input }) => {
+      const suiteRun = await testSuiteRunRepository.findById(input.runId);
+      if (!suiteRun) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Suite run not found',
+        });
+      }
+
+      if (!suiteRun.completed_at) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Reports can only be generated for finished suite runs',
+        });
+      }
+
+      const generated = await testReportService.generate({ suiteRunId: suiteRun.id }, input.formats);
+
+      return {
+        reports: await Promise.all(generated.map(({ reference }) => testReportService.toDownload(reference))),
+      };
+    }),
+
+  listReports: publicProcedure
+    .input(z.object({
+      runId: z.string(),
+    }))
+    .query(async ({ input }) => {
+      const references = await testReportService.listReports({ suiteRunId: input.runId });
+
+      return {
+        reports: await Promise.all(references.map((reference) => testReportService.toDownload(reference))),
+      };
+    }),
+});
@@ -1,9 +1,138 @@
 import { z } from 'zod';
 import { router, publicProcedure } from '../trpc';
 import { TRPCError } from '@trpc/server';
+import {
+  AIAnalysisRepository,
+  ReliabilityScoreService,
+  TestCaseRepository,
+  type TestCase,
+  type TestConfig,
+} from '@cinnamon-qa/database';
+import { createLogger } from '@cinnamon-qa/logger';
+import { selectApplicablePatterns } from '@cinnamon-qa/queue';
+import {
+  getScenarioAnalyzer,
+  loadGeminiConfig,
+  PlaywrightSpecExporter,
+  PlaywrightSpecParser,
+  TestCaseFileError,
+  TestCaseFileParser,
+  TestStepSchema,
+  type ImportedTestCase,
+  type TestCaseDefinition,
+  type TestCaseFieldDrift,
+  type TestStep,
+} from '../../ai';
 
-// Mock data for development
-const testCases = new Map<string, any>();
+const logger = createLogger({ context: 'TestCaseRouter' });
+const testCaseRepository = new TestCaseRepository();
+const aiAnalysisRepository = new AIAnalysisRepository();
+const reliabilityScoreService = new ReliabilityScoreService();
+
+async function findTestCaseOrThrow(id: string, message = 'Test case not found'): Promise<TestCase> {
+  const testCase = await testCaseRepository.findById(id);
+
+  if (!testCase) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message,
+    });
+  }
+
+  return testCase;
+}
+
+interface FileSyncResult {
+  key: string;
+  source: string;
+  status: 'created' | 'updated' | 'unchanged';
+  // Null for a case a dry run would create
+  testCaseId: string | null;
+  drift: TestCaseFieldDrift[];
+  // Scenario analysis of a case without pinned steps that is new, changed its
+  // scenario or URL, or has no analyzed steps yet. Pending in a dry run; a
+  // failed analysis is retried by the next sync.
+  analysis: 'pending' | 'analyzed' | 'failed' | null;
+  analysisError?: string;
+}
+
+/**
+ * Analyze a test case scenario into steps and store them as its scenario
+ * analysis, which runs execute
+ */
+async function analyzeTestCase(testCaseId: string, scenario: string, url: string): Promise<TestStep[]> {
+  const result = await getScenarioAnalyzer().analyzeScenario({ scenario, url, retryOnFailure: true, fallbackOnError: true });
+
+  await aiAnalysisRepository.recordScenarioAnalysis(testCaseId, scenario, scenario, result.steps, {
+    modelUsed: loadGeminiConfig().modelName,
+    processingTimeMs: result.processingTime,
+    confidenceScore: result.confidence,
+  });
+
+  return result.steps;
+}
+
+/**
+ * Analysis of a synced case. Failures are reported rather than thrown, so the
+ * remaining files still sync.
+ */
+async function analyzeSyncedCase(
+  testCaseId: string,
+  definition: TestCaseDefinition
+): Promise<Pick<FileSyncResult, 'analysis' | 'analysisError'>> {
+  try {
+    await analyzeTestCase(testCaseId, definition.original_scenario, definition.url);
+    return { analysis: 'analyzed' };
+  } catch (error) {
+    logger.warn('Failed to analyze a synced test case', { testCaseId, key: definition.key, error });
+    return { analysis: 'failed', analysisError: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Steps of the latest scenario analysis, null when there are none
+ */
+async function findPinnedSteps(testCaseId: string): Promise<TestStep[] | null> {
+  const analysis = await aiAnalysisRepository.getLatestByType(testCaseId, 'scenario_analysis');
+  const steps = z.array(TestStepSchema).safeParse(analysis?.output_data?.generated_steps);
+  return steps.success ? steps.data : null;
+}
+
+/**
+ * Write the drifted fields of a file definition to its test case. Pinned
+ * steps are recorded as a new scenario analysis, like imported specs.
+ */
+async function applyTestCaseDefinition(
+  testCase: TestCase,
+  definition: TestCaseDefinition,
+  drift: TestCaseFieldDrift[]
+): Promise<void> {
+  const fields = new Set(drift.map(({ field }) => field));
+
+  if ([...fields].some((field) => field !== 'steps')) {
+    await testCaseRepository.update(testCase.id, {
+      name: definition.name,
+      url: definition.url,
+      original_scenario: definition.original_scenario,
+      tags: definition.tags,
+      // Values the file leaves out keep their stored value
+      test_config: definition.test_config
+        ? { ...testCase.test_config, ...definition.test_config } as TestConfig
+        : undefined,
+      updated_at: new Date().toISOString(),
+    });
+  }
+
+  if (definition.steps && fields.has('steps')) {
+    await aiAnalysisRepository.recordScenarioAnalysis(
+      testCase.id,
+      definition.original_scenario,
+      definition.original_scenario,
+      definition.steps,
+      { modelUsed: 'test-case-file', confidenceScore: 1 }
+    );
+  }
+}
 
 export const testCaseRouter = router({
   create: publicProcedure
@@ -11,22 +140,23 @@ export const testCaseRouter = router({
       name: z.string().min(1),
       url: z.string().url(),
       scenario: z.string().min(1),
+      tags: z.array(z.string().min(1)).optional(),
     }))
-    .mutation(async ({ input, ctx }) => {
-      const id = Date.now().toString();
-      const testCase = {
-        id,
-        ...input,
-        reliabilityScore: 100,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-      
-      testCases.set(id, testCase);
-      
-      // TODO: Save to database
-      // TODO: Trigger AI analysis for scenario parsing
-      
+    .mutation(async ({ input }): Promise<TestCase> => {
+      const testCase = await testCaseRepository.create({
+        name: input.name,
+        url: input.url,
+        original_scenario: input.scenario,
+        tags: input.tags,
+      });
+
+      // Runs need analyzed steps; a failed analysis leaves the case without them
+      try {
+        await analyzeTestCase(testCase.id, testCase.original_scenario, testCase.url);
+      } catch (error) {
+        logger.warn('Failed to analyze a new test case', { testCaseId: testCase.id, error });
+      }
+
       return testCase;
     }),
 
@@ -34,36 +164,69 @@ export const testCaseRouter = router({
     .input(z.object({
       limit: z.number().min(1).max(100).default(20),
       offset: z.number().min(0).default(0),
+      tags: z.array(z.string().min(1)).optional(),
     }).optional())
-    .query(async ({ input }) => {
+    .query(async ({ input }): Promise<{ items: TestCase[]; total: number; hasMore: boolean }> => {
       const limit = input?.limit ?? 20;
       const offset = input?.offset ?? 0;
-      
-      // TODO: Fetch from database with pagination
-      const allTestCases = Array.from(testCases.values());
-      
+      const tags = input?.tags;
+
+      const [items, total] = await Promise.all([
+        testCaseRepository.findAll({
+          limit,
+          offset,
+          tags,
+          orderBy: 'created_at',
+          ascending: false,
+        }),
+        testCaseRepository.count({ tags }),
+      ]);
+
       return {
-        items: allTestCases.slice(offset, offset + limit),
-        total: allTestCases.length,
-        hasMore: offset + limit < allTestCases.length,
+        items,
+        total,
+        hasMore: offset + limit < total,
       };
     }),
 
+  search: publicProcedure
+    .input(z.object({
+      term: z.string()
+        .min(1)
+        .regex(/^[^,(){}"\\]+$/, 'Search terms cannot contain , ( ) { } " or \\'),
+    }))
+    .query(async ({ input }): Promise<TestCase[]> => {
+      return await testCaseRepository.search(input.term);
+    }),
+
   get: publicProcedure
     .input(z.object({
       id: z.string(),
     }))
-    .query(async ({ input }) => {
-      const testCase = testCases.get(input.id);
-      
-      if (!testCase) {
-        throw new TRPCError({
-          code: 'NOT_FOUND',
-          message: 'Test case not found',
-        });
-      }
-      
-      return testCase;
+    .query(async ({ input }): Promise<TestCase> => {
+      return await findTestCaseOrThrow(input.id);
+    }),
+
+  update: publicProcedure
+    .input(z.object({
+      id: z.string(),
+      name: z.string().min(1).optional(),
+      url: z.string().url().optional(),
+      scenario: z.string().min(1).optional(),
+      tags: z.array(z.string().min(1)).optional(),
+      isActive: z.boolean().optional(),
+    }))
+    .mutation(async ({ input }): Promise<TestCase> => {
+      await findTestCaseOrThrow(input.id);
+
+      return await testCaseRepository.update(input.id, {
+        name: input.name,
+        url: input.url,
+        original_scenario: input.scenario,
+        tags: input.tags,
+        is_active: input.isActive,
+        updated_at: new Date().toISOString(),
+      });
     }),
 
   duplicate: publicProcedure
@@ -71,28 +234,20 @@ export const testCaseRouter = router({
       id: z.string(),
       name: z.string().min(1),
     }))
-    .mutation(async ({ input }) => {
-      const original = testCases.get(input.id);
-      
-      if (!original) {
-        throw new TRPCError({
-          code: 'NOT_FOUND',
-          message: 'Original test case not found',
-        });
-      }
-      
-      const newId = Date.now().toString();
-      const duplicated = {
-        ...original,
-        id: newId,
+    .mutation(async ({ input }): Promise<TestCase> => {
+      const original = await findTestCaseOrThrow(input.id, 'Original test case not found');
+
+      return await testCaseRepository.create({
         name: input.name,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-      
-      testCases.set(newId, duplicated);
-      
-      return duplicated;
+        url: original.url,
+        original_scenario: original.original_scenario,
+        refined_scenario: original.refined_scenario,
+        adaptation_patterns: original.adaptation_patterns,
+        test_config: original.test_config,
+        created_by: original.created_by,
+        is_active: original.is_active,
+        tags: original.tags,
+      });
     }),
 
   getAdaptationPatterns: publicProcedure
@@ -100,43 +255,277 @@ export const testCaseRouter = router({
       id: z.string(),
     }))
     .query(async ({ input }) => {
-      // TODO: Fetch adaptation patterns from database
-      // This would analyze historical adaptations for this test case
-      
+      const testCase = await findTestCaseOrThrow(input.id);
+      const patterns = testCase.adaptation_patterns ?? [];
+
+      return {
+        patterns,
+        totalPatterns: patterns.length,
+        reliabilityScore: testCase.reliability_score,
+      };
+    }),
+
+  getReliabilityHistory: publicProcedure
+    .input(z.object({
+      id: z.string(),
+      limit: z.number().min(1).max(500).default(50),
+      since: z.string().datetime().optional(),
+    }))
+    .query(async ({ input }) => {
+      const testCase = await findTestCaseOrThrow(input.id);
+      const [history, summary] = await Promise.all([
+        reliabilityScoreService.getHistory(input.id, { limit: input.limit, since: input.since }),
+        testCaseRepository.getExecutionSummary(input.id),
+      ]);
+
       return {
-        patterns: [
-          {
-            selector: '.submit-button',
-            adaptations: 5,
-            successRate: 0.8,
-            commonReplacements: ['button[type="submit"]', '#submit-btn'],
-          },
-        ],
-        totalAdaptations: 5,
-        learningInsights: [
-          'Button selectors frequently change between deployments',
-          'Form structure remains stable',
-        ],
+        testCaseId: testCase.id,
+        reliabilityScore: testCase.reliability_score,
+        summary: summary
+          ? {
+              totalRuns: Number(summary.total_runs),
+              successfulRuns: Number(summary.successful_runs),
+              failedRuns: Number(summary.failed_runs),
+              runsWithAdaptations: Number(summary.runs_with_adaptations),
+              lastRunAt: summary.last_run_at,
+            }
+          : null,
+        history: history.map((entry) => ({
+          score: entry.score,
+          testRunId: entry.test_run_id,
+          runsConsidered: entry.runs_considered,
+          components: entry.components,
+          createdAt: entry.created_at,
+        })),
       };
     }),
 
-  delete: publicProcedure
+  recomputeReliability: publicProcedure
     .input(z.object({
       id: z.string(),
     }))
     .mutation(async ({ input }) => {
-      if (!testCases.has(input.id)) {
+      await findTestCaseOrThrow(input.id);
+      const entry = await reliabilityScoreService.recompute(input.id);
+
+      return {
+        testCaseId: input.id,
+        reliabilityScore: entry.score,
+        components: entry.components,
+        runsConsidered: entry.runs_considered,
+      };
+    }),
+
+  // Standalone @playwright/test spec of the latest analyzed steps, using
+  // learned selectors where they are reliable enough to apply
+  exportPlaywrightSpec: publicProcedure
+    .input(z.object({
+      id: z.string(),
+    }))
+    .query(async ({ input }) => {
+      const testCase = await findTestCaseOrThrow(input.id);
+      const analysis = await aiAnalysisRepository.getLatestByType(testCase.id, 'scenario_analysis');
+      const steps = z.array(TestStepSchema).safeParse(analysis?.output_data?.generated_steps ?? []);
+
+      if (!steps.success) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Analyzed steps of the test case are invalid',
+        });
+      }
+
+      if (steps.data.length === 0) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Test case has no analyzed steps',
+        });
+      }
+
+      return PlaywrightSpecExporter.export(
+        testCase,
+        steps.data,
+        selectApplicablePatterns(testCase.adaptation_patterns ?? [])
+      );
+    }),
+
+  // Create test cases from a @playwright/test spec or a codegen recording.
+  // The converted steps are stored as the scenario analysis so the cases
+  // can run without being analyzed first.
+  importPlaywrightSpec: publicProcedure
+    .input(z.object({
+      source: z.string().min(1).max(500_000),
+      name: z.string().min(1).optional(),
+      url: z.string().url().optional(),
+      tags: z.array(z.string().min(1)).optional(),
+    }))
+    .mutation(async ({ input }) => {
+      let imported: ImportedTestCase[];
+      try {
+        imported = PlaywrightSpecParser.parse(input.source, { name: input.name, url: input.url });
+      } catch (error) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Failed to import Playwright spec: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          cause: error,
+        });
+      }
+
+      // Remove the cases created so far when the import fails partway
+      const testCases = [];
+      try {
+        for (const entry of imported) {
+          const testCase = await testCaseRepository.create({
+            name: entry.name,
+            url: entry.url,
+            original_scenario: entry.originalScenario,
+            tags: input.tags,
+          });
+          testCases.push({ testCase, stepCount: entry.steps.length, warnings: entry.warnings });
+
+          await aiAnalysisRepository.recordScenarioAnalysis(
+            testCase.id,
+            entry.originalScenario,
+            entry.originalScenario,
+            entry.steps,
+            { modelUsed: 'playwright-import', confidenceScore: 1 }
+          );
+        }
+      } catch (error) {
+        await Promise.allSettled(testCases.map(({ testCase }) => testCaseRepository.delete(testCase.id)));
         throw new TRPCError({
-          code: 'NOT_FOUND',
-          message: 'Test case not found',
+          code: 'INTERNAL_SERVER_ERROR',
+          message: `Failed to import Playwright spec: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          cause: error,
+        });
+      }
+
+      return {
+        testCases,
+        total: testCases.length,
+      };
+    }),
+
+  // Upsert test cases kept in YAML/JSON files by their stable key and report
+  // how the files and the database differ. A dry run only reports the drift.
+  syncFiles: publicProcedure
+    .input(z.object({
+      files: z.array(z.object({
+        path: z.string().min(1),
+        content: z.string().max(500_000),
+      })).min(1).max(500),
+      dryRun: z.boolean().default(false),
+      // Key prefixes under which cases missing from the files are reported
+      // as untracked; none are reported without them
+      untrackedPrefixes: z.array(z.string().min(1)).max(50).default([]),
+    }))
+    .mutation(async ({ input }) => {
+      let definitions: TestCaseDefinition[];
+      try {
+        definitions = TestCaseFileParser.parseFiles(input.files);
+      } catch (error) {
+        if (error instanceof TestCaseFileError) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `Invalid test case files:\n${error.message}`,
+            cause: error,
+          });
+        }
+        throw error;
+      }
+
+      const existing = await testCaseRepository.findByFileKeys(definitions.map(({ key }) => key));
+      const byKey = new Map(existing.map((testCase) => [testCase.file_key, testCase]));
+      const results: FileSyncResult[] = [];
+
+      for (const definition of definitions) {
+        const testCase = byKey.get(definition.key);
+
+        if (!testCase) {
+          let testCaseId: string | null = null;
+          let analysis: Pick<FileSyncResult, 'analysis' | 'analysisError'> = { analysis: definition.steps ? null : 'pending' };
+          if (!input.dryRun) {
+            const created = await testCaseRepository.create({
+              name: definition.name,
+              url: definition.url,
+              original_scenario: definition.original_scenario,
+              tags: definition.tags,
+              file_key: definition.key,
+            });
+            // Only the scenario is new, so test_config and steps are applied as drift
+            await applyTestCaseDefinition(
+              created,
+              definition,
+              TestCaseFileParser.diff(definition, created, null).filter(({ field }) => field === 'test_config' || field === 'steps')
+            );
+            testCaseId = created.id;
+            if (!definition.steps) {
+              analysis = await analyzeSyncedCase(created.id, definition);
+            }
+          }
+
+          results.push({ key: definition.key, source: definition.source, status: 'created', testCaseId, drift: [], ...analysis });
+          continue;
+        }
+
+        const storedSteps = await findPinnedSteps(testCase.id);
+        const drift = TestCaseFileParser.diff(definition, testCase, definition.steps ? storedSteps : null);
+        if (drift.length > 0 && !input.dryRun) {
+          await applyTestCaseDefinition(testCase, definition, drift);
+        }
+
+        let analysis: Pick<FileSyncResult, 'analysis' | 'analysisError'> = { analysis: null };
+        const needsAnalysis = !definition.steps
+          && (!storedSteps || drift.some(({ field }) => field === 'original_scenario' || field === 'url'));
+        if (needsAnalysis) {
+          analysis = input.dryRun ? { analysis: 'pending' } : await analyzeSyncedCase(testCase.id, definition);
+        }
+
+        results.push({
+          key: definition.key,
+          source: definition.source,
+          status: drift.length > 0 ? 'updated' : 'unchanged',
+          testCaseId: testCase.id,
+          drift,
+          ...analysis,
         });
       }
-      
-      testCases.delete(input.id);
-      
-      // TODO: Delete from database
-      // TODO: Clean up related test runs
-      
+
+      // Cases synced earlier under the given prefixes whose key is in none of the files
+      const keys = new Set(definitions.map(({ key }) => key));
+      const untracked = input.untrackedPrefixes.length === 0
+        ? []
+        : (await testCaseRepository.findWithFileKey())
+            .filter(({ file_key: key }) =>
+              !!key && !keys.has(key) && input.untrackedPrefixes.some((prefix) => key.startsWith(prefix)))
+            .map((testCase) => ({ key: testCase.file_key, testCaseId: testCase.id, name: testCase.name }));
+
+      const count = (status: FileSyncResult['status']) => results.filter((result) => result.status === status).length;
+
+      return {
+        dryRun: input.dryRun,
+        results,
+        untracked,
+        summary: {
+          created: count('created'),
+          updated: count('updated'),
+          unchanged: count('unchanged'),
+          untracked: untracked.length,
+          analysisPending: results.filter((result) => result.analysis === 'pending').length,
+          analysisFailed: results.filter((result) => result.analysis === 'failed').length,
+        },
+      };
+    }),
+
+  delete: publicProcedure
+    .input(z.object({
+      id: z.string(),
+    }))
+    .mutation(async ({ input }) => {
+      await findTestCaseOrThrow(input.id);
+
+      // Related test runs, steps and events are removed by ON DELETE CASCADE
+      await testCaseRepository.delete(input.id);
+
       return { success: true };
     }),
-});
\ No newline at end of file
+});
@@ -1,35 +1,179 @@
 import { z } from 'zod';
 import { router, publicProcedure } from '../trpc';
-import { TRPCError } from '@trpc/server';
-import { EventEmitter } from 'events';
-import { FastifyReply } from 'fastify';
+import { TRPCError, tracked } from '@trpc/server';
+import { EventEmitter, on } from 'events';
+import {
+  TestCaseRepository,
+  TestExecutionEventsRepository,
+  TestRunRepository,
+  TestReportService,
+  TestStepRepository,
+  type StepAdaptation,
+  type TestExecutionEvent,
+  type TestRun,
+  type TestStatus,
+  type TestStep,
+} from '@cinnamon-qa/database';
+import {
+  getQueueManager,
+  getTestRunEventSubscriber,
+  JobUtils,
+  toStreamEvent,
+  type TestRunStreamEvent,
+} from '@cinnamon-qa/queue';
+import { EnvironmentOverridesSchema, ReportFormatsSchema, TestConfigOverridesSchema } from '../../types';
+import { cancelTestRun, getSuiteRunner } from '../runControl';
 
-// Event emitter for SSE
-export const testRunEvents = new EventEmitter();
+const testCaseRepository = new TestCaseRepository();
+const testRunRepository = new TestRunRepository();
+const testStepRepository = new TestStepRepository();
+const testExecutionEventsRepository = new TestExecutionEventsRepository();
+const testReportService = new TestReportService();
 
-// Mock data
-const testRuns = new Map<string, any>();
+// Resume cursor used before any persisted event has been streamed
+const START_CURSOR = 'start';
+const FINISHED_STATUSES: TestStatus[] = ['completed', 'failed', 'adapted', 'cancelled'];
+
+async function findTestRunOrThrow(id: string): Promise<TestRun> {
+  const testRun = await testRunRepository.findById(id);
+
+  if (!testRun) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Test run not found',
+    });
+  }
+
+  return testRun;
+}
+
+/**
+ * Persisted events of a test run that come after the given event id.
+ * An unknown id (or the start cursor) replays the whole history.
+ */
+async function findEventsAfter(testRunId: string, lastEventId: string): Promise<TestRunStreamEvent[]> {
+  const events = await testExecutionEventsRepository.getByTestRunId(testRunId);
+  const lastIndex = events.findIndex((event) => event.id === lastEventId);
+
+  return events.slice(lastIndex + 1).map(toStreamEvent);
+}
+
+export interface AdaptationHistoryEntry {
+  stepId: string;
+  stepNumber: number;
+  timestamp: string;
+  original: StepAdaptation['originalAction'];
+  adapted: StepAdaptation['adaptedAction'];
+  reason: string;
+  confidence: number;
+  // Whether the step passed with the adapted action
+  succeeded: boolean;
+}
+
+/**
+ * Adaptations are recorded on test_steps.adaptations; step_adapted events
+ * carry the same data and fill in steps whose rows no longer have it
+ */
+function buildAdaptationHistory(steps: TestStep[], events: TestExecutionEvent[]): AdaptationHistoryEntry[] {
+  const stepsById = new Map(steps.map((step) => [step.id, step]));
+  const entries: AdaptationHistoryEntry[] = [];
+  const covered = new Set<string>();
+
+  const toEntry = (step: TestStep, adaptation: StepAdaptation): AdaptationHistoryEntry => ({
+    stepId: step.id,
+    stepNumber: step.step_number,
+    timestamp: adaptation.timestamp ?? step.completed_at ?? step.created_at,
+    original: adaptation.originalAction,
+    adapted: adaptation.adaptedAction,
+    reason: adaptation.reason,
+    confidence: adaptation.confidence,
+    succeeded: step.status === 'adapted' || step.status === 'success',
+  });
+
+  for (const step of steps) {
+    for (const adaptation of step.adaptations ?? []) {
+      entries.push(toEntry(step, adaptation));
+      covered.add(step.id);
+    }
+  }
+
+  for (const event of events) {
+    const step = event.test_step_id ? stepsById.get(event.test_step_id) : undefined;
+    if (!step || covered.has(step.id) || !event.adaptation) {
+      continue;
+    }
+
+    const eventAdaptations: StepAdaptation[] = Array.isArray(event.adaptation) ? event.adaptation : [event.adaptation];
+    for (const adaptation of eventAdaptations) {
+      entries.push(toEntry(step, { ...adaptation, timestamp: adaptation.timestamp ?? event.created_at }));
+    }
+    covered.add(step.id);
+  }
+
+  return entries.sort((a, b) => a.stepNumber - b.stepNumber || a.timestamp.localeCompare(b.timestamp));
+}
 
 export const testRunRouter = router({
   create: publicProcedure
     .input(z.object({
       testCaseId: z.string(),
+      // Merged over the test case config; the effective values are recorded on the run
+      config: TestConfigOverridesSchema.optional(),
+      environment: EnvironmentOverridesSchema.optional(),
     }))
-    .mutation(async ({ input }) => {
-      const id = Date.now().toString();
-      const testRun = {
-        id,
-        testCaseId: input.testCaseId,
+    .mutation(async ({ input }): Promise<TestRun> => {
+      const testCase = await testCaseRepository.findById(input.testCaseId);
+
+      if (!testCase) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Test case not found',
+        });
+      }
+
+      if (!testCase.is_active) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Cannot run an inactive test case',
+        });
+      }
+
+      const { config, environment } = JobUtils.resolveRunConfig(testCase.test_config, {
+        config: input.config,
+        environment: input.environment,
+      });
+      const testRun = await testRunRepository.create({
+        test_case_id: testCase.id,
         status: 'pending',
-        progress: 0,
-        createdAt: new Date(),
-      };
-      
-      testRuns.set(id, testRun);
-      
-      // TODO: Save to database
-      // TODO: Queue job for test execution
-      
+        environment,
+      });
+
+      try {
+        // The run id doubles as the job id so the job can be looked up from the run
+        await getQueueManager().addTestJob(
+          {
+            testCaseId: testCase.id,
+            testRunId: testRun.id,
+            config: JobUtils.buildJobConfig(config),
+            environment: JobUtils.buildJobEnvironment(environment),
+          },
+          { jobId: testRun.id }
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+
+        await testRunRepository.update(testRun.id, {
+          status: 'failed',
+          error_summary: `Failed to queue test execution: ${message}`,
+          completed_at: new Date().toISOString(),
+        });
+
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: `Failed to queue test execution: ${message}`,
+        });
+      }
+
       return testRun;
     }),
 
@@ -37,120 +181,166 @@ export const testRunRouter = router({
     .input(z.object({
       id: z.string(),
     }))
-    .query(async ({ input }) => {
-      const testRun = testRuns.get(input.id);
-      
-      if (!testRun) {
-        throw new TRPCError({
-          code: 'NOT_FOUND',
-          message: 'Test run not found',
-        });
+    .query(async ({ input }): Promise<TestRun> => {
+      return await findTestRunOrThrow(input.id);
+    }),
+
+  // Real-time execution events, streamed over SSE. Each event is tracked
+  // with a resume cursor; the persisted events after lastEventId (or all of
+  // them for a new subscriber) are replayed from test_execution_events first.
+  onProgress: publicProcedure
+    .input(z.object({
+      id: z.string(),
+      lastEventId: z.string().nullish(),
+    }))
+    .subscription(async function* ({ input, signal }) {
+      // Start listening before reading the run and its history so that
+      // nothing published in between is lost; live events queue up until
+      // the replay is sent
+      const emitter = new EventEmitter();
+      const live = on(emitter, 'event', { signal });
+      const unsubscribe = await getTestRunEventSubscriber().subscribe(input.id, (event) => {
+        emitter.emit('event', event);
+      });
+
+      try {
+        const testRun = await findTestRunOrThrow(input.id);
+        const sentEventIds = new Set<string>();
+        let cursor = input.lastEventId ?? START_CURSOR;
+
+        for (const event of await findEventsAfter(input.id, cursor)) {
+          if (event.id) {
+            sentEventIds.add(event.id);
+            cursor = event.id;
+          }
+
+          yield tracked(cursor, event);
+
+          if (event.type === 'test_complete') {
+            return;
+          }
+        }
+
+        if (FINISHED_STATUSES.includes(testRun.status)) {
+          return;
+        }
+
+        for await (const [event] of live as AsyncIterable<[TestRunStreamEvent]>) {
+          if (event.id) {
+            if (sentEventIds.has(event.id)) {
+              continue;
+            }
+            sentEventIds.add(event.id);
+            cursor = event.id;
+          }
+
+          yield tracked(cursor, event);
+
+          if (event.type === 'test_complete') {
+            return;
+          }
+        }
+      } finally {
+        await unsubscribe();
       }
-      
-      return testRun;
     }),
 
-  // SSE endpoint for real-time updates
-  subscribe: publicProcedure
+  getAdaptationHistory: publicProcedure
     .input(z.object({
       id: z.string(),
     }))
-    .mutation(async ({ input, ctx }) => {
-      const reply = ctx.res as FastifyReply;
-      
-      // Verify test run exists
-      if (!testRuns.has(input.id)) {
+    .query(async ({ input }) => {
+      await findTestRunOrThrow(input.id);
+
+      const [steps, events] = await Promise.all([
+        testStepRepository.findByTestRunId(input.id),
+        testExecutionEventsRepository.getAdaptationEvents({ testRunId: input.id }),
+      ]);
+
+      const adaptations = buildAdaptationHistory(steps, events);
+      const successfulAdaptations = adaptations.filter((adaptation) => adaptation.succeeded).length;
+
+      return {
+        adaptations,
+        totalAdaptations: adaptations.length,
+        successfulAdaptations,
+        successRate: adaptations.length > 0 ? successfulAdaptations / adaptations.length : 0,
+      };
+    }),
+
+  // Renders the run as JUnit XML, JSON and/or HTML and stores the files
+  generateReport: publicProcedure
+    .input(z.object({
+      id: z.string(),
+      formats: ReportFormatsSchema,
+    }))
+    .mutation(async ({ input }) => {
+      const testRun = await findTestRunOrThrow(input.id);
+
+      if (!FINISHED_STATUSES.includes(testRun.status)) {
         throw new TRPCError({
-          code: 'NOT_FOUND',
-          message: 'Test run not found',
+          code: 'BAD_REQUEST',
+          message: 'Reports can only be generated for finished test runs',
         });
       }
-      
-      // Set up SSE headers
-      reply.raw.writeHead(200, {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-        'X-Accel-Buffering': 'no',
-      });
-      
-      // Send initial connection message
-      reply.raw.write('event: connected\ndata: {"connected": true}\n\n');
-      
-      // Set up event listener for this test run
-      const eventHandler = (event: any) => {
-        if (event.testRunId === input.id) {
-          reply.raw.write(`event: progress\ndata: ${JSON.stringify(event)}\n\n`);
-        }
+
+      const generated = await testReportService.generate({ testRunId: testRun.id }, input.formats);
+
+      return {
+        reports: await Promise.all(generated.map(({ reference }) => testReportService.toDownload(reference))),
       };
-      
-      testRunEvents.on('progress', eventHandler);
-      
-      // Clean up on disconnect
-      ctx.req.raw.on('close', () => {
-        testRunEvents.off('progress', eventHandler);
-        reply.raw.end();
-      });
-      
-      // Keep connection alive
-      const keepAlive = setInterval(() => {
-        reply.raw.write(':keep-alive\n\n');
-      }, 30000);
-      
-      ctx.req.raw.on('close', () => {
-        clearInterval(keepAlive);
-      });
-      
-      return { subscribed: true };
     }),
 
-  getAdaptationHistory: publicProcedure
+  listReports: publicProcedure
     .input(z.object({
       id: z.string(),
     }))
     .query(async ({ input }) => {
-      // TODO: Fetch from database
-      
+      await findTestRunOrThrow(input.id);
+      const references = await testReportService.listReports({ testRunId: input.id });
+
       return {
-        adaptations: [
-          {
-            stepIndex: 2,
-            timestamp: new Date(),
-            original: {
-              selector: '.submit-btn',
-              action: 'click',
-            },
-            adapted: {
-              selector: 'button[type="submit"]',
-              action: 'click',
-            },
-            reason: 'Original selector not found, found similar button element',
-            confidence: 0.85,
-          },
-        ],
-        totalAdaptations: 1,
-        successRate: 1.0,
+        reports: await Promise.all(references.map((reference) => testReportService.toDownload(reference))),
       };
     }),
 
-  getContainerStatus: publicProcedure
+  // Renders one report over several finished runs, such as the runs a CI job
+  // started together, and returns it without storing it
+  renderReport: publicProcedure
     .input(z.object({
-      id: z.string(),
+      ids: z.array(z.string()).min(1).max(100),
+      format: z.enum(['junit', 'json', 'html']).default('junit'),
+      name: z.string().min(1).max(200).default('Cinnamon-QA'),
     }))
     .query(async ({ input }) => {
-      const testRun = testRuns.get(input.id);
-      
-      if (!testRun) {
+      const testRuns = await Promise.all(input.ids.map(findTestRunOrThrow));
+
+      if (testRuns.some((testRun) => !FINISHED_STATUSES.includes(testRun.status))) {
         throw new TRPCError({
-          code: 'NOT_FOUND',
-          message: 'Test run not found',
+          code: 'BAD_REQUEST',
+          message: 'Reports can only be generated for finished test runs',
         });
       }
+
+      const report = await testReportService.buildRunsReport(testRuns, input.name);
+
+      return {
+        format: input.format,
+        content: await testReportService.render(report, input.format),
+      };
+    }),
+
+  getContainerStatus: publicProcedure
+    .input(z.object({
+      id: z.string(),
+    }))
+    .query(async ({ input }) => {
+      const testRun = await findTestRunOrThrow(input.id);
       
       // TODO: Get actual container status
       
       return {
-        containerId: testRun.containerId || null,
+        containerId: testRun.container_id,
         status: 'ready',
         metrics: {
           cpu: 15.5,
@@ -160,33 +350,35 @@ export const testRunRouter = router({
       };
     }),
 
+  // Cancelling is idempotent. A job that has not started is removed from the
+  // queue; a running job is signalled and the worker stops before its next
+  // step, releasing (and resetting) its container and recording test_complete.
   cancel: publicProcedure
     .input(z.object({
       id: z.string(),
     }))
-    .mutation(async ({ input }) => {
-      const testRun = testRuns.get(input.id);
-      
-      if (!testRun) {
-        throw new TRPCError({
-          code: 'NOT_FOUND',
-          message: 'Test run not found',
-        });
+    .mutation(async ({ input }): Promise<TestRun> => {
+      const testRun = await findTestRunOrThrow(input.id);
+
+      if (testRun.status === 'cancelled') {
+        return testRun;
       }
       
-      if (testRun.status === 'completed' || testRun.status === 'failed') {
+      if (testRun.status === 'completed' || testRun.status === 'failed' || testRun.status === 'adapted') {
         throw new TRPCError({
           code: 'BAD_REQUEST',
           message: 'Cannot cancel completed test run',
         });
       }
-      
-      testRun.status = 'cancelled';
-      testRun.completedAt = new Date();
-      
-      // TODO: Update database
-      // TODO: Stop container and clean up resources
-      
-      return testRun;
+
+      const cancelled = await cancelTestRun(testRun);
+
+      // A job removed from the queue never reaches the worker that would
+      // advance the suite run; advancing again after a running job is harmless
+      if (testRun.suite_run_id) {
+        await getSuiteRunner().advance(testRun.suite_run_id);
+      }
+
+      return cancelled;
     }),
-});
\ No newline at end of file
+});
@@ -1,6 +1,14 @@
 import { z } from 'zod';
 import { router, publicProcedure } from '../trpc';
 import { TRPCError } from '@trpc/server';
+import { createArtifactStorage, StorageReferenceRepository, TestStepRepository } from '@cinnamon-qa/database';
+
+const testStepRepository = new TestStepRepository();
+const storageReferenceRepository = new StorageReferenceRepository();
+const artifactStorage = createArtifactStorage();
+
+// Lifetime of the screenshot URLs handed to clients
+const SCREENSHOT_URL_TTL_SECONDS = 60 * 60;
 
 // Mock data
 const testSteps = new Map<string, any[]>();
@@ -30,7 +38,7 @@ export const testStepRouter = router({
       stepIndex: z.number(),
     }))
     .query(async ({ input }) => {
-      const steps = testSteps.get(input.testRunId) || [];
+      const steps = await testStepRepository.findByTestRunId(input.testRunId);
       const step = steps[input.stepIndex];
       
       if (!step) {
@@ -40,16 +48,35 @@ export const testStepRouter = router({
         });
       }
       
-      // TODO: Fetch actual page state from database
+      const references = await storageReferenceRepository.findByTestStepId(step.id);
+      const screenshots = await Promise.all(
+        references
+          .filter((reference) => reference.file_type === 'screenshot' && !reference.is_archived)
+          .map(async (reference) => ({
+            id: reference.id,
+            url: await artifactStorage.createSignedUrl(reference, SCREENSHOT_URL_TTL_SECONDS),
+            mimeType: reference.mime_type,
+            metadata: reference.metadata,
+            createdAt: reference.created_at,
+          }))
+      );
       
       return {
-        pageState: step.pageState || {
-          url: 'https://example.com',
-          title: 'Example Page',
-          html: '<html>...</html>',
-        },
-        screenshot: step.screenshot || null,
-        capturedAt: step.executedAt || new Date(),
+        stepId: step.id,
+        stepNumber: step.step_number,
+        action: step.action,
+        status: step.status,
+        error: step.error_message
+          ? { type: step.error_type, message: step.error_message, details: step.error_details }
+          : null,
+        pageStateBefore: step.page_state_before,
+        pageStateAfter: step.page_state_after,
+        domSnapshot: step.dom_snapshot,
+        consoleLogs: step.console_logs,
+        networkLogs: step.network_logs,
+        screenshots,
+        screenshotUrlExpiresIn: SCREENSHOT_URL_TTL_SECONDS,
+        capturedAt: step.completed_at ?? step.started_at ?? step.created_at,
       };
     }),
 
@@ -0,0 +1,93 @@
+/**
+ * Run Control
+ *
+ * Cancelling test runs and advancing suite runs, shared by the test run and
+ * suite routers.
+ */
+
+import { TRPCError } from '@trpc/server';
+import {
+  createRepositories,
+  NotFoundError,
+  TestExecutionEventsRepository,
+  TestRunRepository,
+  ValidationError,
+  type TestRun,
+} from '@cinnamon-qa/database';
+import {
+  getQueueManager,
+  TestRunCancellation,
+  TestRunEventPublisher,
+  TestSuiteRunner,
+  toStreamEvent,
+} from '@cinnamon-qa/queue';
+import { getFeedbackLoopEngine } from '../ai';
+
+const testRunRepository = new TestRunRepository();
+const testExecutionEventsRepository = new TestExecutionEventsRepository();
+const testRunCancellation = new TestRunCancellation();
+const testRunEventPublisher = new TestRunEventPublisher();
+
+let suiteRunner: TestSuiteRunner | null = null;
+
+export function getSuiteRunner(): TestSuiteRunner {
+  if (!suiteRunner) {
+    suiteRunner = new TestSuiteRunner(createRepositories());
+  }
+  return suiteRunner;
+}
+
+/**
+ * Map a failure to start a suite or matrix run to a tRPC error. Only invalid
+ * requests are the caller's fault; queue, Redis and database failures are not.
+ */
+export function toRunStartError(error: unknown, action: string): TRPCError {
+  const message = `Failed to start ${action}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+
+  if (error instanceof NotFoundError) {
+    return new TRPCError({ code: 'NOT_FOUND', message, cause: error });
+  }
+  if (error instanceof ValidationError) {
+    return new TRPCError({ code: 'BAD_REQUEST', message, cause: error });
+  }
+  return new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message, cause: error });
+}
+
+/**
+ * Cancel an unfinished test run. Its suite run, if any, is not advanced.
+ * A run the worker finished in the meantime keeps its result and is
+ * returned as stored.
+ */
+export async function cancelTestRun(testRun: TestRun): Promise<TestRun> {
+  // Flag first so a worker picking the job up right now still sees it
+  await testRunCancellation.request(testRun.id);
+  const removedFromQueue = await getQueueManager().removePendingTestJob(testRun.id);
+
+  await getFeedbackLoopEngine().terminateFeedbackLoopsForTestRun(testRun.id);
+
+  const cancelled = await testRunRepository.updateUnfinished(testRun.id, {
+    status: 'cancelled',
+    completed_at: new Date().toISOString(),
+    error_summary: 'Cancelled by user',
+  });
+
+  if (!cancelled) {
+    return (await testRunRepository.findById(testRun.id)) ?? testRun;
+  }
+
+  // A removed job never reaches a worker, so record the completion here
+  if (removedFromQueue) {
+    const completeEvent = await testExecutionEventsRepository.createTestCompleteEvent(testRun.id, {
+      status: 'cancelled',
+      totalSteps: testRun.total_steps,
+      completedSteps: testRun.completed_steps,
+      failedSteps: testRun.failed_steps,
+      adaptedSteps: testRun.adapted_steps,
+      duration: 0,
+      adaptationCount: 0,
+    });
+    await testRunEventPublisher.publish(toStreamEvent(completeEvent));
+  }
+
+  return cancelled;
+}
@@ -15,13 +15,60 @@ export const TestCaseSchema = z.object({
     })),
     patterns: z.array(z.string()),
   }).optional(),
-  reliabilityScore: z.number().min(0).max(100),
+  reliabilityScore: z.number().min(0).max(1),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
 
 export type TestCase = z.infer<typeof TestCaseSchema>;
 
+// Test config values overriding the config stored on a test case
+export const TestConfigOverridesSchema = z.object({
+  viewport: z.object({
+    width: z.number().int().min(1),
+    height: z.number().int().min(1),
+  }),
+  timeout: z.number().int().min(1000),
+  headless: z.boolean(),
+  adaptiveMode: z.boolean(),
+  maxAdaptations: z.number().int().min(0),
+  recoveryStrategies: z.array(z.string()),
+  aiValidation: z.object({
+    enabled: z.boolean(),
+    confidence_threshold: z.number().min(0).max(1),
+    validation_points: z.array(z.string()),
+  }),
+}).partial().strict();
+
+export type TestConfigOverrides = z.infer<typeof TestConfigOverridesSchema>;
+
+// Browser environment values a test run overrides. The worker relaunches its
+// Playwright MCP container with the browser, user agent and timezone of the run.
+export const EnvironmentOverridesSchema = z.object({
+  browser: z.enum(['chrome', 'chromium', 'firefox', 'webkit', 'msedge']),
+  viewport: z.object({
+    width: z.number().int().min(1),
+    height: z.number().int().min(1),
+  }),
+  userAgent: z.string().min(1).max(512),
+  timezone: z.string().min(1).refine((timezone) => {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }, 'Invalid timezone'),
+}).partial().strict();
+
+export type EnvironmentOverrides = z.infer<typeof EnvironmentOverridesSchema>;
+
+// Report formats to generate, all of them by default
+export const ReportFormatsSchema = z
+  .array(z.enum(['junit', 'json', 'html']))
+  .min(1)
+  .default(['junit', 'json', 'html']);
+
 // Test Run Types
 export const TestRunStatusSchema = z.enum(['pending', 'running', 'completed', 'failed', 'cancelled']);
 
@@ -0,0 +1,189 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import superjson from 'superjson';
+import { EXIT_CODES } from '../lib/outcome';
+import { TrpcClient, TrpcClientError } from '../lib/trpcClient';
+import { runTestCases } from './run';
+
+// The combined report testRun.renderReport renders for the given runs
+const JUNIT = (ids: string[]) => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  `<testsuites name="Cinnamon-QA" tests="${ids.length * 2}" failures="0" errors="0" skipped="0" time="1.500">`,
+  ...ids.map((id) => `<testsuite name="${id}" tests="2" failures="0" errors="0" skipped="0" time="1.500"></testsuite>`),
+  '</testsuites>',
+  '',
+].join('\n');
+
+// Input fields the fake procedures read
+interface ProcedureInput {
+  id: string;
+  testCaseId: string;
+  lastEventId?: string;
+  ids: string[];
+  format: string;
+}
+
+/**
+ * Fake api-server speaking the tRPC HTTP and SSE protocol. Each case id maps
+ * to the final status of its run; the first stream of run-1 drops after one
+ * event to exercise resuming from lastEventId.
+ */
+function startFakeApiServer(runs: Record<string, { status: string; adaptedSteps: number }>) {
+  const calls: Array<{ path: string; input: ProcedureInput }> = [];
+  const streamed = new Set<string>();
+  let dropped = false;
+
+  const send = (res: ServerResponse, data: unknown) => {
+    res.writeHead(200, { 'content-type': 'application/json' });
+    res.end(JSON.stringify({ result: { data: superjson.serialize(data) } }));
+  };
+
+  const testRun = (id: string) => {
+    const caseId = id.replace('run-', 'case-');
+    return {
+      id,
+      test_case_id: caseId,
+      status: streamed.has(id) ? runs[caseId].status : 'running',
+      total_steps: 2,
+      completed_steps: 2,
+      failed_steps: runs[caseId].status === 'failed' ? 1 : 0,
+      adapted_steps: runs[caseId].adaptedSteps,
+      duration_ms: 1500,
+      error_summary: null,
+    };
+  };
+
+  const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const path = url.pathname.replace('/trpc/', '');
+    let body = '';
+    for await (const chunk of req) {
+      body += chunk;
+    }
+    const raw = body || url.searchParams.get('input');
+    const input = (raw ? superjson.deserialize(JSON.parse(raw)) : {}) as ProcedureInput;
+    calls.push({ path, input });
+
+    switch (path) {
+      case 'testRun.create':
+        if (!runs[input.testCaseId]) {
+          break;
+        }
+        return send(res, { id: input.testCaseId.replace('case-', 'run-'), test_case_id: input.testCaseId, status: 'pending' });
+
+      case 'testRun.cancel':
+        return send(res, { id: input.id, status: 'cancelled' });
+
+      case 'testRun.get':
+        return send(res, testRun(input.id));
+
+      case 'testRun.renderReport':
+        return send(res, { format: input.format, content: JUNIT(input.ids) });
+
+      case 'testRun.onProgress': {
+        res.writeHead(200, { 'content-type': 'text/event-stream' });
+        res.write('event: connected\ndata: {}\n\n');
+        const event = (id: string, type: string, message: string) =>
+          `id: ${id}\ndata: ${JSON.stringify(superjson.serialize({ id, testRunId: input.id, type, data: {}, message, timestamp: new Date().toISOString() }))}\n\n`;
+
+        if (!input.lastEventId) {
+          res.write(event('e1', 'step_start', 'Starting step 1: click'));
+          if (input.id === 'run-1' && !dropped) {
+            dropped = true;
+            return setTimeout(() => res.destroy(), 50);
+          }
+        }
+        res.write(event('e2', 'step_complete', 'Completed step 1 in 500ms'));
+        res.write('event: return\ndata: \n\n');
+        streamed.add(input.id);
+        return res.end();
+      }
+
+      default:
+        res.writeHead(404, { 'content-type': 'application/json' });
+        return res.end(JSON.stringify({
+          error: superjson.serialize({ message: `No procedure ${path}`, code: -32004, data: { code: 'NOT_FOUND', httpStatus: 404 } }),
+        }));
+    }
+
+    res.writeHead(404, { 'content-type': 'application/json' });
+    res.end(JSON.stringify({
+      error: superjson.serialize({ message: `Test case not found: ${input.testCaseId}`, code: -32004, data: { code: 'NOT_FOUND', httpStatus: 404 } }),
+    }));
+  });
+
+  return new Promise<{ url: string; calls: typeof calls; close: () => void }>((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ url: `http://127.0.0.1:${port}`, calls, close: () => server.close() });
+    });
+  });
+}
+
+function assert(condition: unknown, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function testRunCommand() {
+  console.log('🧪 Testing cinnamon-qa run...');
+
+  const reportDir = await mkdtemp(join(tmpdir(), 'cinnamon-qa-cli-'));
+  const server = await startFakeApiServer({
+    'case-1': { status: 'completed', adaptedSteps: 1 },
+    'case-2': { status: 'adapted', adaptedSteps: 1 },
+    'case-3': { status: 'failed', adaptedSteps: 0 },
+  });
+  const client = new TrpcClient(server.url);
+  const options = { failOnAdaptation: false, timeoutMs: 10_000 };
+
+  try {
+    // Test 1: passing runs exit 0, the dropped stream is resumed
+    const passed = await runTestCases(client, ['case-1', 'case-2'], options);
+    assert(passed === EXIT_CODES.passed, 'adapted runs pass without --fail-on-adaptation');
+    const resumed = server.calls.filter((call) => call.path === 'testRun.onProgress' && call.input.id === 'run-1');
+    assert(resumed.length === 2 && resumed[1].input.lastEventId === 'e1', 'stream resumes from the last event id');
+    console.log('✅ passing runs and stream resume');
+
+    // Test 2: --fail-on-adaptation gates on adapted steps
+    const adapted = await runTestCases(client, ['case-1'], { ...options, failOnAdaptation: true });
+    assert(adapted === EXIT_CODES.adapted, 'adapted steps fail with --fail-on-adaptation');
+    console.log('✅ --fail-on-adaptation');
+
+    // Test 3: a failed run exits 1 and the API renders one JUnit report over the runs
+    const junitPath = join(reportDir, 'out', 'junit.xml');
+    const failed = await runTestCases(client, ['case-2', 'case-3'], { ...options, junitPath });
+    assert(failed === EXIT_CODES.failed, 'failed run exits with the failure code');
+    const rendered = server.calls.find((call) => call.path === 'testRun.renderReport');
+    assert(rendered?.input.ids.join() === 'run-2,run-3' && rendered.input.format === 'junit', 'report over both runs');
+    const junit = await readFile(junitPath, 'utf8');
+    assert(junit === JUNIT(['run-2', 'run-3']), 'rendered report written as is');
+    console.log('✅ failed run and JUnit report');
+
+    // Test 4: when a run cannot be created, the runs queued before it are cancelled
+    const createError = await runTestCases(client, ['case-1', 'case-missing'], options).catch((caught) => caught);
+    assert(createError instanceof TrpcClientError && createError.code === 'NOT_FOUND', 'create error surfaces');
+    const cancelled = server.calls.filter((call) => call.path === 'testRun.cancel');
+    assert(cancelled.length === 1 && cancelled[0].input.id === 'run-1', 'queued run cancelled');
+    console.log('✅ failed run creation');
+
+    // Test 5: procedure errors surface with their tRPC code
+    const error = await client.query('testCase.missing', { id: 'x' }).catch((caught) => caught);
+    assert(error instanceof TrpcClientError && error.code === 'NOT_FOUND' && error.httpStatus === 404, 'tRPC error code and status');
+    console.log('✅ procedure errors');
+
+    console.log('All cinnamon-qa run tests passed!');
+  } catch (error) {
+    console.error('❌ Test failed:', error);
+    process.exitCode = 1;
+  } finally {
+    server.close();
+    await rm(reportDir, { recursive: true, force: true });
+  }
+}
+
+testRunCommand();
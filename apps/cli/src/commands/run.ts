@@ -0,0 +1,214 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { setTimeout as sleep } from 'node:timers/promises';
+import type { TestRun, TestStatus, TestSuiteRun } from '@cinnamon-qa/database';
+import type { SuiteRunProgress, TestRunStreamEvent } from '@cinnamon-qa/queue';
+import { exitCodeFor } from '../lib/outcome';
+import { formatDuration, formatEvent, print, printError } from '../lib/output';
+import { TrpcClient, TrpcClientError } from '../lib/trpcClient';
+
+export interface RunOptions {
+  failOnAdaptation: boolean;
+  // Where to write the JUnit report
+  junitPath?: string;
+  timeoutMs: number;
+  // Environment overrides passed to testRun.create
+  environment?: Record<string, unknown>;
+}
+
+interface ReportDownload {
+  id: string;
+  format: string | null;
+  url: string;
+}
+
+const FINISHED_STATUSES: TestStatus[] = ['completed', 'failed', 'adapted', 'cancelled'];
+const SUITE_POLL_INTERVAL_MS = 2000;
+const MAX_RECONNECTS = 5;
+const RECONNECT_DELAY_MS = 1000;
+
+/**
+ * Queue a run per test case and stream them one after another. The runs
+ * execute in parallel; subscribing without a lastEventId replays the events
+ * a run already recorded, so a run that progressed (or finished) while
+ * another one was streamed is printed in full.
+ */
+export async function runTestCases(client: TrpcClient, testCaseIds: string[], options: RunOptions): Promise<number> {
+  const runs: TestRun[] = [];
+  try {
+    for (const testCaseId of testCaseIds) {
+      runs.push(await client.mutate<TestRun>('testRun.create', {
+        testCaseId,
+        environment: options.environment,
+      }));
+    }
+  } catch (error) {
+    // Do not leave the runs queued so far behind a pipeline that never watches them
+    await cancelRuns(client, runs);
+    throw error;
+  }
+
+  const timeout = AbortSignal.timeout(options.timeoutMs);
+  const finished: TestRun[] = [];
+
+  try {
+    for (const run of runs) {
+      print();
+      print(`▶ test run ${run.id} (test case ${run.test_case_id})`);
+      const testRun = await watchTestRun(client, run.id, timeout);
+      finished.push(testRun);
+      print(`■ ${testRun.status} · ${testRun.completed_steps}/${testRun.total_steps} steps, ${testRun.failed_steps} failed, `
+        + `${testRun.adapted_steps} adapted · ${formatDuration(testRun.duration_ms)}`);
+      if (testRun.error_summary) {
+        print(`  ${testRun.error_summary}`);
+      }
+    }
+  } catch (error) {
+    if (!timeout.aborted) {
+      throw error;
+    }
+
+    // Leave nothing running behind a timed out pipeline
+    const unfinished = runs.filter((run) => !finished.some((testRun) => testRun.id === run.id));
+    await cancelRuns(client, unfinished);
+    throw new Error(`Timed out after ${formatDuration(options.timeoutMs)}; cancelled ${unfinished.length} unfinished run(s)`);
+  }
+
+  if (options.junitPath) {
+    // One report over all runs, with a <testsuite> per run
+    const { content } = await client.query<{ content: string }>('testRun.renderReport', {
+      ids: finished.map((testRun) => testRun.id),
+      format: 'junit',
+    });
+    await writeReport(options.junitPath, content);
+  }
+
+  printSummary(finished.map((testRun) => testRun.status));
+
+  return exitCodeFor(
+    finished.map((testRun) => ({ status: testRun.status, adaptedSteps: testRun.adapted_steps })),
+    options.failOnAdaptation
+  );
+}
+
+/**
+ * Start a suite run and poll its progress until every case has finished
+ */
+export async function runSuite(client: TrpcClient, suiteId: string, options: RunOptions): Promise<number> {
+  const started = await client.mutate<{ suiteRun: TestSuiteRun; progress: SuiteRunProgress }>('suite.run', { id: suiteId });
+  const deadline = Date.now() + options.timeoutMs;
+
+  print(`▶ suite run ${started.suiteRun.id} (${started.progress.totalCases} test cases)`);
+
+  let progress = started.progress;
+  let lastLine = '';
+  while (!FINISHED_STATUSES.includes(progress.status)) {
+    if (Date.now() >= deadline) {
+      // Leave nothing running behind a timed out pipeline
+      await client.mutate('suite.cancelRun', { id: started.suiteRun.id });
+      throw new Error(`Timed out after ${formatDuration(options.timeoutMs)}; cancelled suite run ${started.suiteRun.id}`);
+    }
+
+    await sleep(SUITE_POLL_INTERVAL_MS);
+    ({ progress } = await client.query<{ progress: SuiteRunProgress }>('suite.getRun', { id: started.suiteRun.id }));
+
+    const line = `  ${progress.percentage}% · ${progress.completed} passed, ${progress.adapted} adapted, `
+      + `${progress.failed} failed, ${progress.running} running, ${progress.pending} pending`;
+    if (line !== lastLine) {
+      print(line);
+      lastLine = line;
+    }
+  }
+
+  print(`■ ${progress.status} · ${formatDuration(progress.summary?.durationMs)}`);
+  for (const failure of progress.summary?.failures ?? []) {
+    print(`  ✗ test case ${failure.testCaseId} (run ${failure.testRunId}): ${failure.status}${failure.error ? ` - ${failure.error}` : ''}`);
+  }
+
+  if (options.junitPath) {
+    await writeReport(
+      options.junitPath,
+      await generateJUnitReport(client, 'suite.generateReport', { runId: started.suiteRun.id })
+    );
+  }
+
+  return exitCodeFor([{ status: progress.status, adaptedSteps: progress.adapted }], options.failOnAdaptation);
+}
+
+/**
+ * Stream the events of a run until it finishes, resuming from the last
+ * received event when the connection drops
+ */
+async function watchTestRun(client: TrpcClient, testRunId: string, signal: AbortSignal): Promise<TestRun> {
+  let lastEventId: string | null = null;
+  let reconnects = 0;
+
+  for (;;) {
+    try {
+      await client.subscribe<TestRunStreamEvent>('testRun.onProgress', { id: testRunId, lastEventId }, {
+        signal,
+        onData: (event, id) => {
+          lastEventId = id ?? lastEventId;
+          const line = formatEvent(event);
+          if (line) {
+            print(line);
+          }
+        },
+      });
+
+      const testRun = await client.query<TestRun>('testRun.get', { id: testRunId });
+      if (FINISHED_STATUSES.includes(testRun.status)) {
+        return testRun;
+      }
+    } catch (error) {
+      if (signal.aborted || error instanceof TrpcClientError) {
+        throw error;
+      }
+      printError(`  connection lost (${error instanceof Error ? error.message : error}), reconnecting`);
+    }
+
+    if (++reconnects > MAX_RECONNECTS) {
+      throw new Error(`Lost the progress stream of test run ${testRunId}`);
+    }
+    await sleep(RECONNECT_DELAY_MS * reconnects, undefined, { signal });
+  }
+}
+
+async function cancelRuns(client: TrpcClient, runs: TestRun[]): Promise<void> {
+  await Promise.allSettled(runs.map((run) => client.mutate('testRun.cancel', { id: run.id })));
+}
+
+async function generateJUnitReport(client: TrpcClient, path: string, input: Record<string, string>): Promise<string> {
+  const { reports } = await client.mutate<{ reports: ReportDownload[] }>(path, { ...input, formats: ['junit'] });
+  if (!reports[0]) {
+    throw new Error(`${path}: no report was generated`);
+  }
+  return downloadReport(reports[0].url);
+}
+
+// The file system storage backend hands out file:// URLs
+async function downloadReport(url: string): Promise<string> {
+  if (url.startsWith('file:')) {
+    return readFile(fileURLToPath(url), 'utf8');
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download report (HTTP ${response.status})`);
+  }
+  return response.text();
+}
+
+async function writeReport(filePath: string, content: string): Promise<void> {
+  await mkdir(dirname(filePath), { recursive: true });
+  await writeFile(filePath, content, 'utf8');
+  print(`JUnit report written to ${filePath}`);
+}
+
+function printSummary(statuses: TestStatus[]): void {
+  const count = (status: TestStatus) => statuses.filter((value) => value === status).length;
+  print();
+  print(`${statuses.length} run(s): ${count('completed')} passed, ${count('adapted')} adapted, `
+    + `${count('failed')} failed, ${count('cancelled')} cancelled`);
+}
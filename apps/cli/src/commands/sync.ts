@@ -0,0 +1,131 @@
+import { readdir, readFile, stat } from 'node:fs/promises';
+import { extname, join, relative } from 'node:path';
+import { print } from '../lib/output';
+import type { TrpcClient } from '../lib/trpcClient';
+
+// Files picked up when a directory is given
+const CASE_FILE_EXTENSIONS = new Set(['.yaml', '.yml', '.json']);
+
+export interface FieldDrift {
+  field: string;
+  file: unknown;
+  database: unknown;
+}
+
+export interface SyncResult {
+  key: string;
+  source: string;
+  status: 'created' | 'updated' | 'unchanged';
+  testCaseId: string | null;
+  drift: FieldDrift[];
+  // Scenario analysis of a case without pinned steps
+  analysis: 'pending' | 'analyzed' | 'failed' | null;
+  analysisError?: string;
+}
+
+export interface SyncResponse {
+  dryRun: boolean;
+  results: SyncResult[];
+  untracked: Array<{ key: string; testCaseId: string; name: string }>;
+  summary: {
+    created: number;
+    updated: number;
+    unchanged: number;
+    untracked: number;
+    analysisPending: number;
+    analysisFailed: number;
+  };
+}
+
+/**
+ * Upsert the test cases of the given files and directories by their key
+ * and print the drift between the files and the database. Cases under the
+ * untracked prefixes that none of the files define are listed as untracked.
+ */
+export async function syncCaseFiles(
+  client: TrpcClient,
+  paths: string[],
+  dryRun: boolean,
+  untrackedPrefixes: string[] = []
+): Promise<SyncResponse> {
+  const filePaths = (await Promise.all(paths.map(findCaseFiles))).flat();
+  if (filePaths.length === 0) {
+    throw new Error(`No test case files (${[...CASE_FILE_EXTENSIONS].join(', ')}) found in ${paths.join(', ')}`);
+  }
+
+  const files = await Promise.all(filePaths.map(async (filePath) => ({
+    path: relative(process.cwd(), filePath) || filePath,
+    content: await readFile(filePath, 'utf8'),
+  })));
+
+  const response = await client.mutate<SyncResponse>('testCase.syncFiles', { files, dryRun, untrackedPrefixes });
+  printSyncResponse(response);
+  return response;
+}
+
+export function hasDrift({ summary }: SyncResponse): boolean {
+  return summary.created > 0 || summary.updated > 0 || summary.untracked > 0 || summary.analysisPending > 0;
+}
+
+function printSyncResponse(response: SyncResponse): void {
+  const verb = (done: string, planned: string) => (response.dryRun ? planned : done);
+
+  for (const result of response.results) {
+    if (result.status === 'created') {
+      print(`+ ${result.key} ${verb('created', 'would be created')}${result.testCaseId ? ` (${result.testCaseId})` : ''} · ${result.source}`);
+    } else if (result.status === 'updated') {
+      print(`~ ${result.key} ${verb('updated', 'differs')} · ${result.source}`);
+      for (const drift of result.drift) {
+        print(`    ${drift.field}: ${formatValue(drift.database)} → ${formatValue(drift.file)}`);
+      }
+    }
+
+    if (result.analysis === 'pending') {
+      print(`    scenario ${result.status === 'created' ? 'would be analyzed' : 'needs analysis'}`);
+    } else if (result.analysis === 'failed') {
+      print(`! ${result.key} scenario analysis failed: ${result.analysisError ?? 'unknown error'} · ${result.source}`);
+    }
+  }
+
+  for (const testCase of response.untracked) {
+    print(`? ${testCase.key} (${testCase.testCaseId}) is in the database but in none of the files`);
+  }
+
+  const { summary } = response;
+  print(`${response.dryRun ? 'Dry run: ' : ''}${summary.created} created, ${summary.updated} updated, `
+    + `${summary.unchanged} unchanged, ${summary.untracked} untracked`
+    + `${summary.analysisPending > 0 ? `, ${summary.analysisPending} to analyze` : ''}`
+    + `${summary.analysisFailed > 0 ? `, ${summary.analysisFailed} failed analysis` : ''}`);
+}
+
+/**
+ * Short single-line rendering; lists and objects are summarized
+ */
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '(none)';
+  }
+  if (Array.isArray(value) && value.some((item) => typeof item === 'object')) {
+    return `${value.length} items`;
+  }
+
+  const text = JSON.stringify(value) ?? String(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+async function findCaseFiles(path: string): Promise<string[]> {
+  if (!(await stat(path)).isDirectory()) {
+    return [path];
+  }
+
+  const files: string[] = [];
+  for (const entry of (await readdir(path, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name))) {
+    const entryPath = join(path, entry.name);
+    if (entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== 'node_modules') {
+      files.push(...(await findCaseFiles(entryPath)));
+    } else if (entry.isFile() && CASE_FILE_EXTENSIONS.has(extname(entry.name).toLowerCase())) {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
@@ -0,0 +1,31 @@
+import type { TestStatus } from '@cinnamon-qa/database';
+
+/**
+ * Process exit codes, so pipelines can tell a failing test from a broken
+ * invocation
+ */
+export const EXIT_CODES = {
+  passed: 0,
+  // A run failed or was cancelled, sync --check found drift, or a synced
+  // scenario could not be analyzed
+  failed: 1,
+  // A run adapted steps and --fail-on-adaptation was given
+  adapted: 2,
+  // Bad arguments, API errors or timeouts
+  error: 3,
+} as const;
+
+export interface RunOutcome {
+  status: TestStatus;
+  adaptedSteps: number;
+}
+
+export function exitCodeFor(outcomes: RunOutcome[], failOnAdaptation: boolean): number {
+  if (outcomes.some((outcome) => outcome.status !== 'completed' && outcome.status !== 'adapted')) {
+    return EXIT_CODES.failed;
+  }
+  if (failOnAdaptation && outcomes.some((outcome) => outcome.status === 'adapted' || outcome.adaptedSteps > 0)) {
+    return EXIT_CODES.adapted;
+  }
+  return EXIT_CODES.passed;
+}
@@ -0,0 +1,38 @@
+import type { TestRunStreamEvent } from '@cinnamon-qa/queue';
+
+const EVENT_MARKERS: Partial<Record<TestRunStreamEvent['type'], string>> = {
+  step_start: '…',
+  step_complete: '✓',
+  step_error: '✗',
+  step_adapted: '~',
+  recovery_attempted: '↻',
+};
+
+export function print(line = ''): void {
+  process.stdout.write(`${line}\n`);
+}
+
+export function printError(line: string): void {
+  process.stderr.write(`${line}\n`);
+}
+
+/**
+ * One terminal line per execution event; job progress ticks and the
+ * completion event (reported separately) are skipped
+ */
+export function formatEvent(event: TestRunStreamEvent): string | null {
+  const marker = EVENT_MARKERS[event.type];
+  if (!marker) {
+    return null;
+  }
+
+  const time = new Date(event.timestamp).toISOString().slice(11, 19);
+  return `  ${time} ${marker} ${event.message ?? event.type}`;
+}
+
+export function formatDuration(durationMs: number | null | undefined): string {
+  if (durationMs === null || durationMs === undefined) {
+    return '-';
+  }
+  return durationMs < 1000 ? `${durationMs}ms` : `${(durationMs / 1000).toFixed(1)}s`;
+}
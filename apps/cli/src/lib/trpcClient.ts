@@ -0,0 +1,166 @@
+import superjson, { type SuperJSONResult } from 'superjson';
+
+/**
+ * Error returned by a procedure (a TRPCError on the server) or by the HTTP
+ * layer. Network failures are thrown as they are.
+ */
+export class TrpcClientError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly httpStatus: number
+  ) {
+    super(message);
+    this.name = 'TrpcClientError';
+  }
+}
+
+// Fields of the tRPC error shape the client reads
+interface TrpcErrorShape {
+  message?: string;
+  code?: number;
+  data?: {
+    code?: string;
+    httpStatus?: number;
+  };
+}
+
+// Response body of a query or mutation, the payload encoded with superjson
+type TrpcResponseBody =
+  | { result: { data: SuperJSONResult } }
+  | { error: SuperJSONResult };
+
+export interface SubscriptionHandlers<T> {
+  // `id` is the tracked event id, used to resume with lastEventId
+  onData: (data: T, id: string | null) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Minimal client for the api-server tRPC endpoint (/trpc): queries and
+ * mutations over HTTP, subscriptions over server-sent events, all encoded
+ * with superjson like the server.
+ */
+export class TrpcClient {
+  private baseUrl: string;
+
+  constructor(apiUrl: string) {
+    this.baseUrl = `${apiUrl.replace(/\/+$/, '')}/trpc`;
+  }
+
+  async query<T>(path: string, input?: unknown): Promise<T> {
+    const response = await fetch(this.url(path, input), {
+      headers: { accept: 'application/json' },
+    });
+    return this.parseResponse<T>(path, response);
+  }
+
+  async mutate<T>(path: string, input?: unknown): Promise<T> {
+    const response = await fetch(this.url(path), {
+      method: 'POST',
+      headers: { accept: 'application/json', 'content-type': 'application/json' },
+      body: JSON.stringify(superjson.serialize(input)),
+    });
+    return this.parseResponse<T>(path, response);
+  }
+
+  /**
+   * Resolves when the server ends the subscription, rejects on an error
+   * event or a dropped connection
+   */
+  async subscribe<T>(path: string, input: unknown, handlers: SubscriptionHandlers<T>): Promise<void> {
+    const response = await fetch(this.url(path, input), {
+      headers: { accept: 'text/event-stream' },
+      signal: handlers.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      await this.parseResponse(path, response);
+      throw new TrpcClientError(`${path}: subscription failed`, 'INTERNAL_SERVER_ERROR', response.status);
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(chunk, { stream: true }).replace(/\r\n?/g, '\n');
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const message = parseServerSentEvent(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+
+        switch (message.event) {
+          case 'connected':
+          case 'ping':
+            break;
+          case 'return':
+            return;
+          case 'serialized-error':
+            throw toClientError(path, superjson.deserialize<TrpcErrorShape>(JSON.parse(message.data)), 500);
+          default:
+            if (message.data) {
+              handlers.onData(superjson.deserialize<T>(JSON.parse(message.data)), message.id);
+            }
+        }
+      }
+    }
+
+    throw new Error(`${path}: connection closed before the subscription ended`);
+  }
+
+  private url(path: string, input?: unknown): string {
+    const url = `${this.baseUrl}/${path}`;
+    return input === undefined
+      ? url
+      : `${url}?input=${encodeURIComponent(JSON.stringify(superjson.serialize(input)))}`;
+  }
+
+  private async parseResponse<T>(path: string, response: Response): Promise<T> {
+    let body: TrpcResponseBody;
+    try {
+      body = await response.json() as TrpcResponseBody;
+    } catch {
+      throw new TrpcClientError(`${path}: unexpected response (HTTP ${response.status})`, 'PARSE_ERROR', response.status);
+    }
+
+    if ('error' in body) {
+      throw toClientError(path, superjson.deserialize<TrpcErrorShape>(body.error), response.status);
+    }
+    return superjson.deserialize<T>(body.result.data);
+  }
+}
+
+function toClientError(path: string, shape: TrpcErrorShape | undefined, httpStatus: number): TrpcClientError {
+  return new TrpcClientError(
+    `${path}: ${shape?.message ?? 'Request failed'}`,
+    shape?.data?.code ?? 'INTERNAL_SERVER_ERROR',
+    shape?.data?.httpStatus ?? httpStatus
+  );
+}
+
+function parseServerSentEvent(block: string): { event: string | null; data: string; id: string | null } {
+  let event: string | null = null;
+  let id: string | null = null;
+  const data: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (!line || line.startsWith(':')) {
+      continue;
+    }
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+    if (field === 'event') {
+      event = value;
+    } else if (field === 'data') {
+      data.push(value);
+    } else if (field === 'id') {
+      id = value;
+    }
+  }
+
+  return { event, data: data.join('\n'), id };
+}
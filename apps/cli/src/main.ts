@@ -0,0 +1,151 @@
+#!/usr/bin/env node
+/**
+ * cinnamon-qa CLI
+ *
+ * Syncs test case files (YAML/JSON) into the database and runs test cases
+ * or suites through the api-server, streaming progress to the terminal. The
+ * exit code reflects the outcome so CI pipelines can gate on it.
+ */
+
+import { parseArgs } from 'node:util';
+import { runSuite, runTestCases, type RunOptions } from './commands/run';
+import { hasDrift, syncCaseFiles } from './commands/sync';
+import { EXIT_CODES } from './lib/outcome';
+import { printError, print } from './lib/output';
+import { TrpcClient } from './lib/trpcClient';
+
+const DEFAULT_API_URL = 'http://localhost:3000';
+const DEFAULT_TIMEOUT_MINUTES = 30;
+
+const USAGE = `Usage:
+  cinnamon-qa sync <file or directory>... [--dry-run | --check] [--untracked <key prefix>]...
+  cinnamon-qa run (--case <id>... | --suite <id> | --file <file or directory>...) [options]
+
+Sync options:
+  --dry-run               Only report how the files and the database differ
+  --check                 Like --dry-run, but exit with code ${EXIT_CODES.failed} when they differ
+  --untracked <prefix>    List cases whose key starts with the prefix but that no file defines
+
+Run options (--file syncs the files first):
+  --fail-on-adaptation    Exit with code ${EXIT_CODES.adapted} when a run had to adapt steps
+  --junit <path>          Write a JUnit XML report
+  --timeout <minutes>     Give up and cancel the runs after this long (default: ${DEFAULT_TIMEOUT_MINUTES})
+  --browser <name>        Browser override: chrome, chromium, firefox, webkit or msedge (test cases only)
+  --viewport <WxH>        Viewport override, e.g. 1280x720 (test cases only)
+
+Options:
+  --api-url <url>         api-server URL (default: $CINNAMON_QA_API_URL or ${DEFAULT_API_URL})
+  -h, --help              Show this help
+
+Exit codes: ${EXIT_CODES.passed} passed, ${EXIT_CODES.failed} failed, cancelled or drifted (--check), ${EXIT_CODES.adapted} adapted with --fail-on-adaptation, ${EXIT_CODES.error} error`;
+
+class UsageError extends Error {}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      'api-url': { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      check: { type: 'boolean', default: false },
+      untracked: { type: 'string', multiple: true },
+      case: { type: 'string', multiple: true },
+      suite: { type: 'string' },
+      file: { type: 'string', multiple: true },
+      'fail-on-adaptation': { type: 'boolean', default: false },
+      junit: { type: 'string' },
+      timeout: { type: 'string' },
+      browser: { type: 'string' },
+      viewport: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  const [command, ...paths] = positionals;
+  if (values.help || !command) {
+    print(USAGE);
+    return values.help ? EXIT_CODES.passed : EXIT_CODES.error;
+  }
+
+  const client = new TrpcClient(values['api-url'] ?? process.env.CINNAMON_QA_API_URL ?? DEFAULT_API_URL);
+
+  switch (command) {
+    case 'sync': {
+      if (paths.length === 0) {
+        throw new UsageError('sync needs at least one file or directory');
+      }
+      const response = await syncCaseFiles(client, paths, values['dry-run'] || values.check, values.untracked);
+      return (values.check && hasDrift(response)) || response.summary.analysisFailed > 0
+        ? EXIT_CODES.failed
+        : EXIT_CODES.passed;
+    }
+
+    case 'run': {
+      const targets = [values.case, values.suite, values.file].filter((target) => target !== undefined);
+      if (targets.length !== 1) {
+        throw new UsageError('run needs exactly one of --case, --suite or --file');
+      }
+
+      const options = toRunOptions(values);
+
+      if (values.suite) {
+        if (options.environment) {
+          throw new UsageError('--browser and --viewport cannot be used with --suite');
+        }
+        return runSuite(client, values.suite, options);
+      }
+
+      const testCaseIds = values.case
+        ?? (await syncCaseFiles(client, values.file ?? [], false)).results.flatMap(({ testCaseId }) => testCaseId ?? []);
+      return runTestCases(client, testCaseIds, options);
+    }
+
+    default:
+      throw new UsageError(`Unknown command: ${command}`);
+  }
+}
+
+function toRunOptions(values: {
+  'fail-on-adaptation'?: boolean;
+  junit?: string;
+  timeout?: string;
+  browser?: string;
+  viewport?: string;
+}): RunOptions {
+  const timeoutMinutes = values.timeout === undefined ? DEFAULT_TIMEOUT_MINUTES : Number(values.timeout);
+  if (!Number.isFinite(timeoutMinutes) || timeoutMinutes <= 0) {
+    throw new UsageError(`Invalid --timeout: ${values.timeout}`);
+  }
+
+  const environment: Record<string, unknown> = {};
+  if (values.browser) {
+    environment.browser = values.browser;
+  }
+  if (values.viewport) {
+    const match = values.viewport.match(/^(\d+)x(\d+)$/);
+    if (!match) {
+      throw new UsageError(`Invalid --viewport: ${values.viewport} (expected WIDTHxHEIGHT)`);
+    }
+    environment.viewport = { width: Number(match[1]), height: Number(match[2]) };
+  }
+
+  return {
+    failOnAdaptation: values['fail-on-adaptation'] ?? false,
+    junitPath: values.junit,
+    timeoutMs: timeoutMinutes * 60 * 1000,
+    environment: Object.keys(environment).length > 0 ? environment : undefined,
+  };
+}
+
+main(process.argv.slice(2))
+  .then((exitCode) => {
+    process.exitCode = exitCode;
+  })
+  .catch((error) => {
+    printError(`cinnamon-qa: ${error instanceof Error ? error.message : error}`);
+    if (error instanceof UsageError || (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+      printError(`Run "cinnamon-qa --help" for usage.`);
+    }
+    process.exitCode = EXIT_CODES.error;
+  });
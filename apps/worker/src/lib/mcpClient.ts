@@ -0,0 +1,247 @@
+/**
+ * MCP SSE Client
+ *
+ * Minimal Model Context Protocol client for the SSE transport exposed by the
+ * Playwright MCP containers. The server announces a POST endpoint through an
+ * `endpoint` event; JSON-RPC requests are posted there and their responses
+ * arrive as `message` events on the SSE stream.
+ */
+
+import { createLogger } from '@cinnamon-qa/logger';
+
+const PROTOCOL_VERSION = '2024-11-05';
+
+export type McpContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string };
+
+export interface McpToolResult {
+  content: McpContent[];
+  isError?: boolean;
+}
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+export class McpSseClient {
+  private logger = createLogger({ context: 'McpSseClient' });
+  private abortController: AbortController | null = null;
+  private endpoint: URL | null = null;
+  private nextId = 1;
+  private pending = new Map<number, PendingRequest>();
+  private endpointWaiter: { resolve: (url: URL) => void; reject: (error: Error) => void } | null = null;
+
+  constructor(
+    private sseUrl: string,
+    private requestTimeoutMs = 30000
+  ) {}
+
+  get isConnected(): boolean {
+    return this.endpoint !== null;
+  }
+
+  /**
+   * Open the SSE stream and perform the MCP initialize handshake
+   */
+  async connect(): Promise<void> {
+    this.abortController = new AbortController();
+
+    const response = await fetch(this.sseUrl, {
+      headers: { Accept: 'text/event-stream' },
+      signal: this.abortController.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Failed to open MCP SSE stream: HTTP ${response.status}`);
+    }
+
+    const endpointReady = new Promise<URL>((resolve, reject) => {
+      this.endpointWaiter = { resolve, reject };
+    });
+    void this.readStream(response.body);
+
+    this.endpoint = await this.withTimeout(endpointReady, 'MCP endpoint announcement');
+
+    await this.request('initialize', {
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name: 'cinnamon-qa-worker', version: '0.0.1' },
+    });
+    await this.post({ jsonrpc: '2.0', method: 'notifications/initialized' });
+
+    this.logger.info('MCP session initialized', { sseUrl: this.sseUrl });
+  }
+
+  async callTool(name: string, args: Record<string, unknown> = {}): Promise<McpToolResult> {
+    return this.request<McpToolResult>('tools/call', { name, arguments: args });
+  }
+
+  async close(): Promise<void> {
+    this.abortController?.abort();
+    this.endpoint = null;
+    this.rejectAll(new Error('MCP connection closed'));
+  }
+
+  private async request<T = unknown>(method: string, params?: Record<string, unknown>): Promise<T> {
+    const id = this.nextId++;
+
+    const response = new Promise<unknown>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`MCP request timed out: ${method}`));
+      }, this.requestTimeoutMs);
+      this.pending.set(id, { resolve, reject, timer });
+    });
+
+    const posted = this.post({ jsonrpc: '2.0', id, method, params }).catch((error) => {
+      const pending = this.pending.get(id);
+      if (pending) {
+        clearTimeout(pending.timer);
+        this.pending.delete(id);
+      }
+      throw error;
+    });
+
+    // Awaited together so a response rejected by the timeout or a closed
+    // stream while the POST is still in flight is never left unhandled
+    const [, result] = await Promise.all([posted, response]);
+    return result as T;
+  }
+
+  private async post(message: JsonRpcMessage): Promise<void> {
+    if (!this.endpoint) {
+      throw new Error('MCP client is not connected');
+    }
+
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(message),
+    });
+
+    if (!response.ok) {
+      throw new Error(`MCP request failed: HTTP ${response.status}`);
+    }
+  }
+
+  private async readStream(body: ReadableStream<Uint8Array>): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+
+        buffer += decoder.decode(value, { stream: true });
+        const events = buffer.split(/\r?\n\r?\n/);
+        buffer = events.pop() ?? '';
+
+        for (const rawEvent of events) {
+          this.handleEvent(rawEvent);
+        }
+      }
+    } catch (error) {
+      if (!this.abortController?.signal.aborted) {
+        this.logger.warn('MCP SSE stream errored', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    } finally {
+      this.endpoint = null;
+      this.endpointWaiter?.reject(new Error('MCP SSE stream closed before endpoint was announced'));
+      this.endpointWaiter = null;
+      this.rejectAll(new Error('MCP SSE stream closed'));
+    }
+  }
+
+  private handleEvent(rawEvent: string): void {
+    let eventName = 'message';
+    const dataLines: string[] = [];
+
+    for (const line of rawEvent.split(/\r?\n/)) {
+      if (line.startsWith('event:')) {
+        eventName = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).replace(/^ /, ''));
+      }
+    }
+
+    const data = dataLines.join('\n');
+
+    if (eventName === 'endpoint') {
+      this.endpointWaiter?.resolve(new URL(data, this.sseUrl));
+      this.endpointWaiter = null;
+      return;
+    }
+
+    if (eventName !== 'message' || !data) {
+      return;
+    }
+
+    let message: JsonRpcMessage;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      this.logger.warn('Ignoring malformed MCP message', { data: data.slice(0, 200) });
+      return;
+    }
+
+    if (message.id === undefined) {
+      return;
+    }
+
+    const pending = this.pending.get(message.id);
+    if (!pending) {
+      return;
+    }
+
+    clearTimeout(pending.timer);
+    this.pending.delete(message.id);
+
+    if (message.error) {
+      pending.reject(new Error(`MCP error ${message.error.code}: ${message.error.message}`));
+    } else {
+      pending.resolve(message.result);
+    }
+  }
+
+  private rejectAll(error: Error): void {
+    for (const pending of this.pending.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+    }
+    this.pending.clear();
+  }
+
+  private withTimeout<T>(promise: Promise<T>, what: string): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error(`Timed out waiting for ${what}`)), this.requestTimeoutMs);
+      promise.then(
+        (value) => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        (error) => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      );
+    });
+  }
+}
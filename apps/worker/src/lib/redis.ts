@@ -9,17 +9,27 @@ import {
   getQueueManager, 
   getRedisClient, 
   QueueNames, 
-  TestExecutionProcessor,
-  JobProcessorFactory,
+  type AdaptationLearningJobData,
+  type AdaptationLearningProcessor,
+  type CleanupJobData,
+  type CleanupJobProcessor,
+  type ScheduledTestJobData,
+  type ScheduledTestProcessor,
+  type TestSuiteRunner,
   type TestJobData, 
   type TestJobResult 
 } from '@cinnamon-qa/queue';
 import { createLogger } from '@cinnamon-qa/logger';
+import type { TestSchedule } from '@cinnamon-qa/database';
+import type { Job } from 'bullmq';
+import type { TestProcessor } from '../processors/testProcessor';
 
 export class WorkerRedisClient {
   private queueManager = getQueueManager();
   private redisClient = getRedisClient();
   private logger = createLogger({ context: 'WorkerRedis' });
+  // Set once the adaptation learning processor runs; finished test runs are then queued for learning
+  private learning: { refineScenario: boolean } | null = null;
 
   async connect(): Promise<void> {
     this.logger.info('Connecting Worker to Redis');
@@ -27,6 +37,14 @@ export class WorkerRedisClient {
     this.logger.info('Worker Redis connection established');
   }
 
+  /**
+   * Stop taking new jobs; resolves once in-flight jobs have finished
+   */
+  async stopProcessors(): Promise<void> {
+    this.logger.info('Stopping job processors');
+    await this.queueManager.closeWorkers();
+  }
+
   async disconnect(): Promise<void> {
     this.logger.info('Disconnecting Worker from Redis');
     await this.queueManager.close();
@@ -34,18 +52,22 @@ export class WorkerRedisClient {
   }
 
   /**
-   * Start processing test execution jobs
+   * Start processing test execution jobs. With a suite runner, the suite run
+   * of a finished test run is advanced.
    */
-  async startTestProcessor(): Promise<void> {
+  async startTestProcessor(processor: TestProcessor, suiteRunner?: TestSuiteRunner): Promise<void> {
     this.logger.info('Starting test execution processor');
     
-    const processor = new TestExecutionProcessor();
-    
-    const worker = this.queueManager.createWorker(
+    this.queueManager.createWorker(
       QueueNames.TEST_EXECUTION,
-      async (job) => {
+      async (job: Job<TestJobData, TestJobResult>) => {
         this.logger.info('Processing test job', { jobId: job.id, jobData: job.data });
-        return await processor.process(job);
+        const result = await processor.processTestJob(job);
+        await this.enqueueAdaptationLearning(job.data, result);
+        if (suiteRunner && job.data.suiteRunId) {
+          await this.advanceSuiteRun(suiteRunner, job.data.suiteRunId);
+        }
+        return result;
       },
       {
         concurrency: 1, // Process one test at a time
@@ -55,20 +77,18 @@ export class WorkerRedisClient {
     );
 
     // Setup queue events monitoring
-    const queueEvents = this.queueManager.createQueueEvents(QueueNames.TEST_EXECUTION);
+    this.queueManager.createQueueEvents(QueueNames.TEST_EXECUTION);
     
     this.logger.info('Test execution processor started');
   }
 
   /**
-   * Start processing cleanup jobs
+   * Start processing cleanup jobs and schedule the repeatable cleanup run
    */
-  async startCleanupProcessor(): Promise<void> {
+  async startCleanupProcessor(processor: CleanupJobProcessor, schedule?: string): Promise<void> {
     this.logger.info('Starting cleanup processor');
     
-    const processor = JobProcessorFactory.createProcessor('cleanup');
-    
-    const worker = this.queueManager.createWorker(
+    this.queueManager.createWorker<CleanupJobData>(
       QueueNames.CLEANUP,
       async (job) => {
         this.logger.info('Processing cleanup job', { jobId: job.id });
@@ -81,9 +101,125 @@ export class WorkerRedisClient {
       }
     );
 
+    await this.queueManager.scheduleCleanupJob(schedule);
+
     this.logger.info('Cleanup processor started');
   }
 
+  /**
+   * Start processing the jobs fired by test schedules
+   */
+  async startScheduledTestProcessor(processor: ScheduledTestProcessor): Promise<void> {
+    this.logger.info('Starting scheduled test processor');
+
+    this.queueManager.createWorker<ScheduledTestJobData>(
+      QueueNames.SCHEDULED_TESTS,
+      async (job) => {
+        this.logger.info('Processing scheduled test job', { jobId: job.id, jobData: job.data });
+        return await processor.process(job);
+      },
+      {
+        concurrency: 1,
+        maxStalledCount: 1,
+        stalledInterval: 30000,
+      }
+    );
+
+    this.logger.info('Scheduled test processor started');
+  }
+
+  /**
+   * Register the job schedulers of the enabled schedules and remove those of
+   * the disabled ones, in case Redis lost them or a removal failed. Both are
+   * idempotent.
+   */
+  async syncTestSchedules(schedules: TestSchedule[]): Promise<void> {
+    for (const schedule of schedules) {
+      try {
+        if (schedule.enabled) {
+          await this.queueManager.upsertTestSchedule({
+            id: schedule.id,
+            testCaseId: schedule.test_case_id,
+            cronExpression: schedule.cron_expression,
+            timezone: schedule.timezone,
+          });
+        } else {
+          await this.queueManager.removeTestSchedule(schedule.id);
+        }
+      } catch (error) {
+        this.logger.warn('Failed to synchronize test schedule', {
+          scheduleId: schedule.id,
+          enabled: schedule.enabled,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    this.logger.info('Test schedules synchronized', {
+      enabled: schedules.filter((schedule) => schedule.enabled).length,
+      disabled: schedules.filter((schedule) => !schedule.enabled).length,
+    });
+  }
+
+  /**
+   * Start processing adaptation learning jobs. From then on every finished
+   * (not cancelled) test run is queued for learning.
+   */
+  async startAdaptationLearningProcessor(
+    processor: AdaptationLearningProcessor,
+    options: { refineScenario?: boolean } = {}
+  ): Promise<void> {
+    this.logger.info('Starting adaptation learning processor');
+
+    this.queueManager.createWorker<AdaptationLearningJobData>(
+      QueueNames.ADAPTATION_LEARNING,
+      async (job) => {
+        this.logger.info('Processing adaptation learning job', { jobId: job.id, jobData: job.data });
+        return await processor.process(job);
+      },
+      {
+        concurrency: 1,
+        maxStalledCount: 1,
+        stalledInterval: 30000,
+      }
+    );
+
+    this.learning = { refineScenario: options.refineScenario ?? false };
+
+    this.logger.info('Adaptation learning processor started');
+  }
+
+  private async enqueueAdaptationLearning(data: TestJobData, result: TestJobResult): Promise<void> {
+    if (!this.learning || result.status === 'cancelled' || !result.testRunId) {
+      return;
+    }
+
+    try {
+      await this.queueManager.addAdaptationLearningJob({
+        testCaseId: data.testCaseId,
+        testRunId: result.testRunId,
+        refineScenario: this.learning.refineScenario,
+      });
+    } catch (error) {
+      // Learning is best effort; the test job result stands on its own
+      this.logger.warn('Failed to queue adaptation learning', {
+        testRunId: result.testRunId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  private async advanceSuiteRun(suiteRunner: TestSuiteRunner, suiteRunId: string): Promise<void> {
+    try {
+      await suiteRunner.advance(suiteRunId);
+    } catch (error) {
+      this.logger.error('Failed to advance suite run', {
+        suiteRunId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
   /**
    * Health check for Redis connection
    */
@@ -105,10 +241,14 @@ export class WorkerRedisClient {
   async getQueueStats() {
     const testStats = await this.queueManager.getQueueStats(QueueNames.TEST_EXECUTION);
     const cleanupStats = await this.queueManager.getQueueStats(QueueNames.CLEANUP);
+    const learningStats = await this.queueManager.getQueueStats(QueueNames.ADAPTATION_LEARNING);
+    const scheduledStats = await this.queueManager.getQueueStats(QueueNames.SCHEDULED_TESTS);
     
     return {
       testExecution: testStats,
       cleanup: cleanupStats,
+      adaptationLearning: learningStats,
+      scheduledTests: scheduledStats,
     };
   }
 }
\ No newline at end of file
@@ -1,29 +1,76 @@
 /**
  * Cinnamon-QA Worker Process
- * 
+ *
  * This worker process handles background test execution jobs.
  * It connects to Redis queue to receive test jobs and executes them
  * using Playwright MCP and AI integration.
  */
 
 import { createLogger } from '@cinnamon-qa/logger';
+import {
+  AdaptationLearningProcessor,
+  CleanupJobProcessor,
+  ScheduledTestProcessor,
+  TestSuiteRunner,
+  getRedisClient,
+} from '@cinnamon-qa/queue';
+import { ContainerPoolManager } from '@cinnamon-qa/containers';
+import { createArtifactStorage, createClientForApp, createRepositories } from '@cinnamon-qa/database';
+import { WorkerRedisClient } from './lib/redis';
+import { TestProcessor } from './processors/testProcessor';
+import { createAiAdaptationService } from './services/aiAdaptationService';
 
 const logger = createLogger({ context: 'WorkerMain' });
 
 async function startWorker() {
   logger.info('Cinnamon-QA Worker starting');
-  
+
   try {
-    // TODO: Initialize Redis connection
-    // TODO: Initialize Supabase client
-    // TODO: Initialize Playwright MCP connection
-    // TODO: Initialize Gemini AI client
-    
+    // Redis connection (shared by the queue and the container pool state)
+    const workerRedis = new WorkerRedisClient();
+    await workerRedis.connect();
+
+    // Playwright MCP container pool
+    const poolManager = new ContainerPoolManager(getRedisClient());
+    await poolManager.initialize();
+
+    // Gemini picks the element of a failed selector when no learned pattern applies
+    const aiAdaptation = createAiAdaptationService();
+    if (!aiAdaptation) {
+      logger.warn('GOOGLE_GEMINI_API_KEY is not set; failed selectors fall back to snapshot matching only');
+    }
+
     logger.info('Worker initialization complete');
+
+    // Supabase access with the worker credentials
+    const client = createClientForApp('worker');
+    const repositories = createRepositories(client);
+    const storage = createArtifactStorage(client);
+
+    // Learn selector fixes from finished runs; ADAPTATION_REFINE_SCENARIO=true
+    // also writes recurring fixes into the refined scenario
+    await workerRedis.startAdaptationLearningProcessor(
+      new AdaptationLearningProcessor(repositories),
+      { refineScenario: process.env.ADAPTATION_REFINE_SCENARIO === 'true' }
+    );
+
+    const processor = new TestProcessor(poolManager, repositories, storage, aiAdaptation);
+    await workerRedis.startTestProcessor(processor, new TestSuiteRunner(repositories));
+
+    // Artifact retention, daily unless CLEANUP_SCHEDULE (cron pattern) is set
+    await workerRedis.startCleanupProcessor(
+      new CleanupJobProcessor(repositories, storage),
+      process.env.CLEANUP_SCHEDULE
+    );
+
+    // Cron schedules per test case fire scheduled-test jobs that queue test runs
+    await workerRedis.startScheduledTestProcessor(new ScheduledTestProcessor(repositories));
+    await workerRedis.syncTestSchedules(await repositories.testSchedule.findByTestCaseId());
+
     logger.info('Worker is ready to process jobs');
-    
-    // TODO: Start job processing loop
-    
+
+    registerShutdownHandlers(workerRedis, poolManager);
+
   } catch (error) {
     logger.error('Worker initialization failed', {
       error: error instanceof Error ? error.message : 'Unknown error',
@@ -33,6 +80,40 @@ async function startWorker() {
   }
 }
 
+/**
+ * Stop taking new jobs on SIGTERM/SIGINT, let the in-flight job finish,
+ * then tear down the container pool.
+ */
+function registerShutdownHandlers(workerRedis: WorkerRedisClient, poolManager: ContainerPoolManager) {
+  let shuttingDown = false;
+
+  const shutdown = async (signal: NodeJS.Signals) => {
+    if (shuttingDown) {
+      return;
+    }
+    shuttingDown = true;
+
+    logger.info('Shutdown signal received, draining in-flight jobs', { signal });
+
+    try {
+      await workerRedis.stopProcessors();
+      await poolManager.shutdown();
+      await workerRedis.disconnect();
+      logger.info('Worker shut down cleanly');
+      process.exit(0);
+    } catch (error) {
+      logger.error('Worker shutdown failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        stack: error instanceof Error ? error.stack : undefined
+      });
+      process.exit(1);
+    }
+  };
+
+  process.once('SIGTERM', shutdown);
+  process.once('SIGINT', shutdown);
+}
+
 // Start the worker process
 startWorker().catch((error) => {
   logger.error('Worker crashed', {
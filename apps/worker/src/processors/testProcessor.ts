@@ -1,124 +1,113 @@
 /**
  * Test Job Processor
- * 
+ *
  * Handles the execution of test jobs received from the Redis queue.
+ * Each job gets an exclusive Playwright MCP container from the pool for
+ * the duration of the run; the steps themselves are run and persisted by
+ * the queue's TestExecutionProcessor, which also streams progress to the API
+ * server over Redis pub/sub and uploads screenshots and the run's HAR capture.
  */
 
-import { TestJob, TestCase, TestRun } from '../types';
+import type { Job } from 'bullmq';
+import type { ContainerPoolManager } from '@cinnamon-qa/containers';
+import {
+  createArtifactStorage,
+  createClientForApp,
+  createRepositories,
+  type AdaptationPattern,
+  type ArtifactStorageService,
+  type DatabaseClient,
+  type Repositories,
+} from '@cinnamon-qa/database';
+import {
+  TestExecutionProcessor,
+  TestRunCancellation,
+  TestRunEventPublisher,
+  type TestJobData,
+  type TestJobResult,
+  type TestStepExecutor,
+} from '@cinnamon-qa/queue';
 import { createLogger } from '@cinnamon-qa/logger';
+import type { AiAdaptationService } from '../services/aiAdaptationService';
+import { PlaywrightService } from '../services/playwrightService';
 
 export class TestProcessor {
   private logger = createLogger({ context: 'TestProcessor' });
+  private repositories: Repositories;
+  private executionProcessor: TestExecutionProcessor;
 
-  constructor() {
-    // TODO: Initialize dependencies
+  constructor(
+    private poolManager: ContainerPoolManager,
+    repositories?: Repositories,
+    storage?: ArtifactStorageService,
+    private aiAdaptation: AiAdaptationService | null = null
+  ) {
+    // Only connect for the dependencies that were not injected
+    let client: DatabaseClient | undefined;
+    const getClient = () => (client ??= createClientForApp('worker'));
+
+    this.repositories = repositories ?? createRepositories(getClient());
+    this.executionProcessor = new TestExecutionProcessor(
+      this.repositories,
+      (job, context) => this.createExecutor(job.data, context.adaptationPatterns),
+      {
+        publisher: new TestRunEventPublisher(),
+        cancellation: new TestRunCancellation(),
+        storage: storage ?? createArtifactStorage(getClient()),
+      }
+    );
   }
 
-  async processTestJob(jobData: TestJob): Promise<void> {
-    const { testRunId, testCaseId } = jobData;
-    
-    this.logger.info('Processing test job', { 
-      jobId: jobData.id, 
-      testRunId, 
-      testCaseId 
+  async processTestJob(job: Job<TestJobData, TestJobResult>): Promise<TestJobResult> {
+    this.logger.info('Processing test job', {
+      jobId: job.id,
+      testRunId: job.data.testRunId,
+      testCaseId: job.data.testCaseId
     });
-    
-    try {
-      // 1. Update test run status to 'running'
-      await this.updateTestRunStatus(testRunId, 'running');
-      
-      // 2. Get test case information
-      const testCase = await this.getTestCase(testCaseId);
-      
-      // 3. Analyze scenario with AI (if needed)
-      const testSteps = await this.analyzeScenario(testCase);
-      
-      // 4. Execute test steps
-      await this.executeTestSteps(testSteps, testRunId);
-      
-      // 5. Update test run status to 'completed'
-      await this.updateTestRunStatus(testRunId, 'completed');
-      
-      this.logger.info('Test job completed', { jobId: jobData.id });
-      
-    } catch (error) {
-      this.logger.error('Test job failed', {
-        jobId: jobData.id,
-        testRunId,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        stack: error instanceof Error ? error.stack : undefined
-      });
-      await this.updateTestRunStatus(testRunId, 'failed');
-      throw error;
-    }
-  }
 
-  private async updateTestRunStatus(testRunId: string, status: TestRun['status']): Promise<void> {
-    // TODO: Update test run status in database
-    this.logger.info('Updating test run status', { testRunId, status });
+    return this.executionProcessor.process(job);
   }
 
-  private async getTestCase(testCaseId: string): Promise<TestCase> {
-    // TODO: Fetch test case from database
-    this.logger.info('Fetching test case', { testCaseId });
-    
-    // Placeholder return
-    return {
-      id: testCaseId,
-      name: 'Sample Test',
-      url: 'https://example.com',
-      originalScenario: 'Navigate to the website and click the login button',
-    };
-  }
+  /**
+   * Allocate an isolated browser container, relaunched with the browser
+   * settings of the run when they differ, and connect to its MCP server.
+   * The container goes back to the pool when the executor is disposed.
+   */
+  private async createExecutor(data: TestJobData, adaptationPatterns: AdaptationPattern[]): Promise<TestStepExecutor> {
+    const { testRunId, config, environment } = data;
 
-  private async analyzeScenario(testCase: TestCase): Promise<TestCase['testSteps']> {
-    // TODO: Use AI to analyze scenario and generate test steps
-    this.logger.info('Analyzing scenario for test case', { 
-      testCaseId: testCase.id, 
-      scenario: testCase.originalScenario 
-    });
-    
-    // Placeholder return
-    return [
-      {
-        id: 'step-1',
-        stepNumber: 1,
-        action: 'navigate',
-        value: testCase.url,
-      },
-      {
-        id: 'step-2',
-        stepNumber: 2,
-        action: 'click',
-        selector: 'button[type="submit"]',
-      },
-    ];
-  }
+    const container = await this.poolManager.allocateContainer(testRunId, true, config?.timeout);
+    if (!container) {
+      throw new Error('No browser container available for test run');
+    }
 
-  private async executeTestSteps(testSteps: TestCase['testSteps'], testRunId: string): Promise<void> {
-    // TODO: Execute test steps using Playwright MCP
-    this.logger.info('Executing test steps', { 
-      testRunId, 
-      stepCount: testSteps?.length || 0 
+    const playwright = new PlaywrightService(container.sseUrl, {
+      adaptationPatterns,
+      aiAdaptation: this.aiAdaptation,
+      viewport: config?.viewport,
     });
-    
-    if (!testSteps) return;
-    
-    for (const step of testSteps) {
-      this.logger.info('Executing test step', {
-        testRunId,
-        stepNumber: step.stepNumber,
-        action: step.action,
-        selector: step.selector,
-        value: step.value
-      });
-      
-      // TODO: Execute individual step
-      // TODO: Take screenshot/snapshot
-      // TODO: Send progress update via Redis
-      
-      // Simulate step execution time
-      await new Promise(resolve => setTimeout(resolve, 1000));
+    const release = async () => {
+      try {
+        await playwright.cleanup();
+      } finally {
+        await this.poolManager.releaseContainer(container.id);
+      }
+    };
+
+    try {
+      await this.repositories.testRun.update(testRunId, { container_id: container.id });
+      // Browser, user agent and timezone are fixed when the MCP server launches
+      await this.poolManager.configureContainer(container.id, environment ?? {});
+      await playwright.initialize();
+    } catch (error) {
+      await release();
+      throw error;
     }
+
+    return {
+      executeStep: (step, options) => playwright.executeStep(step, options),
+      collectArtifacts: () => playwright.collectArtifacts(),
+      dispose: release,
+    };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,85 @@
+import { createLogger } from '@cinnamon-qa/logger';
+import { AiAdaptationService, type AiElementRequest } from './aiAdaptationService';
+
+const logger = createLogger({ context: 'AiAdaptationServiceTest' });
+
+const REQUEST: AiElementRequest = {
+  action: 'click',
+  description: 'Click the sign in button',
+  selector: '#old-submit',
+  reason: 'No element matches #old-submit',
+  candidates: [
+    { role: 'textbox', name: 'Email', ref: 'e3' },
+    { role: 'button', name: 'Sign in', ref: 'e5' },
+  ],
+};
+
+/**
+ * Fake Gemini model answering every prompt with the given text
+ */
+function fakeModel(text: string) {
+  const prompts: string[] = [];
+  return {
+    prompts,
+    async generateContent(prompt: string) {
+      prompts.push(prompt);
+      return { response: { text: () => text } };
+    },
+  };
+}
+
+function assert(condition: unknown, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function rejects(promise: Promise<unknown>): Promise<string> {
+  try {
+    await promise;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+  return '';
+}
+
+/**
+ * Test the Gemini element lookup against a fake model
+ * Run with: npx tsx src/services/aiAdaptationService.test.ts
+ */
+async function testAiAdaptationService() {
+  logger.info('Starting AiAdaptationService test...');
+
+  try {
+    // Test 1: the prompt carries the step, its failure and the snapshot elements
+    const model = fakeModel('```json\n{"ref": "e5", "confidence": 0.85, "reasoning": "Sign in submits the form"}\n```');
+    const suggestion = await new AiAdaptationService(model).suggestElement(REQUEST);
+    assert(model.prompts[0].includes('Original selector: #old-submit'), 'prompt has the selector');
+    assert(model.prompts[0].includes('Failure: No element matches #old-submit'), 'prompt has the failure');
+    assert(model.prompts[0].includes('e5: button "Sign in"'), 'prompt lists the elements');
+    assert(suggestion?.ref === 'e5' && suggestion.confidence === 0.85, 'suggestion parsed from fenced JSON');
+    assert(suggestion?.reasoning === 'Sign in submits the form', 'reasoning kept');
+    logger.info('✅ Suggestion');
+
+    // Test 2: a null ref means no element fits
+    const none = await new AiAdaptationService(fakeModel('{"ref": null, "confidence": 0}')).suggestElement(REQUEST);
+    assert(none === null, 'no suggestion');
+    logger.info('✅ No match');
+
+    // Test 3: refs outside the snapshot and answers without JSON are errors
+    const unknownRef = await rejects(
+      new AiAdaptationService(fakeModel('{"ref": "e99", "confidence": 0.9}')).suggestElement(REQUEST)
+    );
+    assert(unknownRef.includes('e99'), 'unknown ref rejected');
+    const noJson = await rejects(new AiAdaptationService(fakeModel('I cannot tell')).suggestElement(REQUEST));
+    assert(noJson === 'Gemini returned no JSON object', 'missing JSON rejected');
+    logger.info('✅ Invalid answers');
+
+    logger.info('All AiAdaptationService tests passed!');
+  } catch (error) {
+    logger.error('❌ Test failed:', error);
+    process.exitCode = 1;
+  }
+}
+
+testAiAdaptationService();
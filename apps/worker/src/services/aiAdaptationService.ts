@@ -0,0 +1,129 @@
+/**
+ * AI Adaptation Service
+ *
+ * Asks Gemini which element of the accessibility snapshot a step meant when
+ * its selector no longer matches. The executor only gets here after none of
+ * the test case's learned adaptation patterns applied.
+ */
+
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { createLogger } from '@cinnamon-qa/logger';
+
+const DEFAULT_MODEL_NAME = 'gemini-1.5-flash';
+const MAX_PROMPT_ELEMENTS = 200;
+
+export interface AiElementCandidate {
+  role: string;
+  name: string;
+  ref: string;
+}
+
+export interface AiElementRequest {
+  action: string;
+  description?: string;
+  selector?: string;
+  value?: string;
+  reason: string;
+  candidates: AiElementCandidate[];
+}
+
+export interface AiElementSuggestion {
+  ref: string;
+  confidence: number;
+  reasoning: string;
+}
+
+// The part of the Gemini model the service uses
+export interface AiAdaptationModel {
+  generateContent(prompt: string): Promise<{ response: { text(): string } }>;
+}
+
+export class AiAdaptationService {
+  private logger = createLogger({ context: 'AiAdaptationService' });
+
+  constructor(private model: AiAdaptationModel) {}
+
+  /**
+   * Pick the snapshot element the step targets. Returns null when Gemini
+   * finds no element that fits; request and parse failures are thrown.
+   */
+  async suggestElement(request: AiElementRequest): Promise<AiElementSuggestion | null> {
+    const candidates = request.candidates.slice(0, MAX_PROMPT_ELEMENTS);
+    const result = await this.model.generateContent(buildPrompt(request, candidates));
+    const suggestion = parseSuggestion(result.response.text());
+
+    if (!suggestion) {
+      this.logger.info('Gemini found no element for the step', { action: request.action, selector: request.selector });
+      return null;
+    }
+
+    if (!candidates.some((candidate) => candidate.ref === suggestion.ref)) {
+      throw new Error(`Gemini suggested ref ${suggestion.ref}, which is not in the snapshot`);
+    }
+
+    return suggestion;
+  }
+}
+
+/**
+ * Gemini adaptation from GOOGLE_GEMINI_API_KEY (and AI_MODEL_NAME), or null
+ * when no API key is configured
+ */
+export function createAiAdaptationService(): AiAdaptationService | null {
+  const apiKey = process.env.GOOGLE_GEMINI_API_KEY;
+  if (!apiKey) {
+    return null;
+  }
+
+  const model = new GoogleGenerativeAI(apiKey).getGenerativeModel({
+    model: process.env.AI_MODEL_NAME || DEFAULT_MODEL_NAME,
+    generationConfig: { temperature: 0, responseMimeType: 'application/json' },
+  });
+  return new AiAdaptationService(model);
+}
+
+function buildPrompt(request: AiElementRequest, candidates: AiElementCandidate[]): string {
+  const step = [
+    `Action: ${request.action}`,
+    request.description ? `Description: ${request.description}` : null,
+    request.selector ? `Original selector: ${request.selector}` : null,
+    request.value ? `Value: ${request.value}` : null,
+    `Failure: ${request.reason}`,
+  ].filter(Boolean).join('\n');
+
+  const elements = candidates
+    .map((candidate) => `${candidate.ref}: ${candidate.role} ${JSON.stringify(candidate.name)}`)
+    .join('\n');
+
+  return [
+    'A browser test step could not find its element. Pick the element of the current page the step meant.',
+    '',
+    'Step:',
+    step,
+    '',
+    'Elements of the page (ref: role "accessible name"):',
+    elements,
+    '',
+    'Answer with JSON only: {"ref": "<ref of the element>" or null, "confidence": <0 to 1>, "reasoning": "<one sentence>"}.',
+    'Use null when no element clearly fits the step.',
+  ].join('\n');
+}
+
+function parseSuggestion(text: string): AiElementSuggestion | null {
+  const json = text.match(/\{[\s\S]*\}/);
+  if (!json) {
+    throw new Error('Gemini returned no JSON object');
+  }
+
+  const parsed = JSON.parse(json[0]) as { ref?: unknown; confidence?: unknown; reasoning?: unknown };
+  if (typeof parsed.ref !== 'string' || !parsed.ref) {
+    return null;
+  }
+
+  const confidence = Number(parsed.confidence);
+  return {
+    ref: parsed.ref,
+    confidence: Number.isFinite(confidence) ? Math.min(Math.max(confidence, 0), 1) : 0,
+    reasoning: typeof parsed.reasoning === 'string' ? parsed.reasoning : '',
+  };
+}
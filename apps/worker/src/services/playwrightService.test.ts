@@ -0,0 +1,264 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createLogger } from '@cinnamon-qa/logger';
+import type { AiElementRequest, AiElementSuggestion } from './aiAdaptationService';
+import { PlaywrightService } from './playwrightService';
+
+const logger = createLogger({ context: 'PlaywrightServiceTest' });
+
+const SNAPSHOT = [
+  '- Page URL: http://app.test/login',
+  '- Page Snapshot:',
+  '```yaml',
+  '- generic [ref=e1]:',
+  '  - textbox "Email" [ref=e3]',
+  '  - button "Sign in" [ref=e5] [cursor=pointer]',
+  '  - link "Sign out" [ref=e7] [cursor=pointer]',
+  '```',
+].join('\n');
+
+/**
+ * Fake Playwright MCP server speaking the SSE transport. Page evaluation is
+ * answered from canned results keyed by the selector in the function source.
+ */
+function startFakeMcpServer(): Promise<{ url: string; calls: Array<{ name: string; args: any }>; close: () => void }> {
+  const calls: Array<{ name: string; args: any }> = [];
+  let stream: ServerResponse | null = null;
+
+  const evaluated = (value: unknown) => `- Result: "cqa:${encodeURIComponent(JSON.stringify(value))}:cqa"`;
+
+  const handleTool = (name: string, args: any) => {
+    calls.push({ name, args });
+    switch (name) {
+      case 'browser_evaluate':
+        if (args.function.includes('"#email"')) {
+          return { content: [{ type: 'text', text: evaluated({ selector: '#email', name: 'Email', text: '', visible: true }) }] };
+        }
+        if (args.function.includes('"#sign"')) {
+          return { content: [{ type: 'text', text: evaluated({ selector: '#sign', name: 'Sign', text: 'Sign', visible: true }) }] };
+        }
+        if (args.function.includes('".welcome"')) {
+          return { content: [{ type: 'text', text: evaluated({ selector: '.welcome', name: 'Welcome back', text: 'Welcome back', visible: true }) }] };
+        }
+        if (args.function.includes('document.readyState')) {
+          return { content: [{ type: 'text', text: evaluated({ url: 'http://app.test/login', title: 'Login', readyState: 'complete' }) }] };
+        }
+        return { content: [{ type: 'text', text: evaluated(null) }] };
+      case 'browser_console_messages':
+        return { content: [{ type: 'text', text: '- [ERROR] Failed to load resource @ http://app.test/api:1' }] };
+      case 'browser_network_requests':
+        return { content: [{ type: 'text', text: '[GET] http://app.test/api => [500] Internal Server Error' }] };
+      case 'browser_snapshot':
+        return { content: [{ type: 'text', text: SNAPSHOT }] };
+      case 'browser_take_screenshot':
+        return { content: [{ type: 'text', text: 'Took screenshot' }, { type: 'image', data: 'iVBORw0KGgo=', mimeType: 'image/png' }] };
+      case 'browser_hover':
+        return { content: [{ type: 'text', text: 'Ref e9 not found in the current page snapshot' }], isError: true };
+      default:
+        return { content: [{ type: 'text', text: `ran ${name}` }] };
+    }
+  };
+
+  const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    if (req.method === 'GET' && req.url === '/sse') {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+      res.write('event: endpoint\ndata: /message?sessionId=test\n\n');
+      stream = res;
+      return;
+    }
+
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      res.writeHead(202).end();
+      const message = JSON.parse(body);
+      if (message.id === undefined) {
+        return;
+      }
+      const result = message.method === 'tools/call'
+        ? handleTool(message.params.name, message.params.arguments)
+        : { protocolVersion: '2024-11-05', capabilities: { tools: {} }, serverInfo: { name: 'fake', version: '0' } };
+      stream?.write(`event: message\ndata: ${JSON.stringify({ jsonrpc: '2.0', id: message.id, result })}\n\n`);
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}/sse`,
+        calls,
+        close: () => {
+          stream?.end();
+          server.close();
+        },
+      });
+    });
+  });
+}
+
+/**
+ * Fake Gemini lookup answering with the configured suggestion, or failing
+ * like an unreachable API until one is set
+ */
+function createFakeAiAdaptation() {
+  const requests: AiElementRequest[] = [];
+  const ai = {
+    requests,
+    answer: undefined as AiElementSuggestion | null | undefined,
+    async suggestElement(request: AiElementRequest): Promise<AiElementSuggestion | null> {
+      requests.push(request);
+      if (ai.answer === undefined) {
+        throw new Error('Gemini unavailable');
+      }
+      return ai.answer;
+    },
+  };
+  return ai;
+}
+
+function assert(condition: unknown, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+/**
+ * Test PlaywrightService against a local fake MCP server
+ * Run with: npx tsx src/services/playwrightService.test.ts
+ */
+async function testPlaywrightService() {
+  logger.info('Starting PlaywrightService test...');
+
+  const server = await startFakeMcpServer();
+  const ai = createFakeAiAdaptation();
+  const service = new PlaywrightService(server.url, {
+    requestTimeoutMs: 2000,
+    waitTimeoutMs: 1000,
+    aiAdaptation: ai,
+    adaptationPatterns: [{
+      pattern: '#old-submit -> button "Sign in"',
+      reason: 'No element matches #old-submit',
+      success_rate: 1,
+      confidence: 0.9,
+      created_at: new Date().toISOString(),
+      action: 'click',
+      original_selector: '#old-submit',
+      adapted_selector: 'button "Sign in"',
+      occurrences: 3,
+      successes: 3,
+    }],
+  });
+
+  try {
+    await service.initialize();
+    logger.info('✅ Connected to fake MCP server');
+
+    // Test 1: navigate forwards the URL
+    const navigate = await service.executeStep({ id: 's1', stepNumber: 1, action: 'navigate', value: 'http://app.test/login' });
+    assert(navigate.success, 'navigate succeeds');
+    assert(server.calls.some((call) => call.name === 'browser_navigate' && call.args.url === 'http://app.test/login'), 'browser_navigate called with url');
+    assert(navigate.screenshot === 'data:image/png;base64,iVBORw0KGgo=', 'screenshot returned as data URL');
+    logger.info('✅ navigate');
+
+    // Test 2: page state, console and network activity are captured
+    assert(navigate.capture?.pageStateAfter?.title === 'Login', 'page state captured');
+    assert(navigate.capture?.domSnapshot?.content.includes('ref=e5'), 'snapshot captured');
+    assert(navigate.capture?.consoleLogs?.[0]?.type === 'error', 'console log captured');
+    assert(navigate.capture?.networkLogs?.[0]?.status === 500, 'network request captured');
+    const next = await service.executeStep({ id: 's1b', stepNumber: 1, action: 'wait', waitCondition: '1s' });
+    assert(next.capture?.consoleLogs?.length === 0, 'console logs are attributed to one step');
+    logger.info('✅ page capture');
+
+    // Test 3: selector is resolved to the snapshot ref
+    const type = await service.executeStep({ id: 's2', stepNumber: 2, action: 'type', selector: '#email', value: 'qa@example.com' });
+    const typeCall = server.calls.find((call) => call.name === 'browser_type');
+    assert(type.success && !type.adaptation, 'type succeeds without adaptation');
+    assert(typeCall?.args.ref === 'e3' && typeCall.args.text === 'qa@example.com', 'browser_type uses ref e3');
+    logger.info('✅ type');
+
+    // Test 4: when the AI request fails, a missing selector falls back to the snapshot
+    const click = await service.executeStep({
+      id: 's3',
+      stepNumber: 3,
+      action: 'click',
+      description: 'Click the sign in button',
+      selector: "#legacy-login, button:has-text('Sign in')",
+    });
+    assert(click.success, 'click succeeds');
+    assert(click.adaptation?.adaptationType === 'selector_fallback', 'click reports selector fallback');
+    assert(ai.requests.length === 1, 'the AI was asked first');
+    assert(click.adaptation?.source === 'snapshot', 'fallback adaptation comes from the snapshot');
+    assert(server.calls.some((call) => call.name === 'browser_click' && call.args.ref === 'e5'), 'browser_click uses ref e5');
+    logger.info('✅ click with adaptation', click.adaptation);
+
+    // Test 5: without adaptation the same step fails
+    const strictClick = await service.executeStep(
+      { id: 's4', stepNumber: 4, action: 'click', description: 'Click the sign in button', selector: '#legacy-login' },
+      { allowAdaptation: false }
+    );
+    assert(!strictClick.success && strictClick.error?.includes('#legacy-login'), 'strict click fails');
+    logger.info('✅ click without adaptation fails');
+
+    // Test 6: verify checks the element text
+    const verify = await service.executeStep({ id: 's5', stepNumber: 5, action: 'verify', selector: '.welcome', value: 'Welcome' });
+    const failedVerify = await service.executeStep({ id: 's6', stepNumber: 6, action: 'verify', selector: '.welcome', value: 'Goodbye' });
+    assert(verify.success, 'verify succeeds');
+    assert(!failedVerify.success && failedVerify.error?.includes('Goodbye'), 'verify reports mismatch');
+    logger.info('✅ verify');
+
+    // Test 7: tool errors surface as step errors
+    const hover = await service.executeStep({ id: 's7', stepNumber: 7, action: 'hover', selector: '#email' });
+    assert(!hover.success && hover.error?.includes('browser_hover failed'), 'hover error surfaces');
+    logger.info('✅ tool errors');
+
+    // Test 8: wait durations map to browser_wait_for
+    await service.executeStep({ id: 's8', stepNumber: 8, action: 'wait', waitCondition: '2s' });
+    assert(server.calls.some((call) => call.name === 'browser_wait_for' && call.args.time === 2), 'wait forwards seconds');
+    logger.info('✅ wait');
+
+    // Test 9: a learned pattern for the selector is applied before snapshot matching
+    const learnedClick = await service.executeStep({ id: 's9', stepNumber: 9, action: 'click', selector: '#old-submit' });
+    assert(learnedClick.success, 'click with learned pattern succeeds');
+    assert(learnedClick.adaptation?.source === 'pattern', 'adaptation comes from the learned pattern');
+    assert(learnedClick.adaptation?.confidence === 0.9, 'pattern confidence is reported');
+    assert(ai.requests.length === 1, 'the AI is not asked when a pattern applies');
+    assert(server.calls.filter((call) => call.name === 'browser_click' && call.args.ref === 'e5').length === 2, 'browser_click uses ref e5');
+    logger.info('✅ learned pattern');
+
+    // Test 10: a name only partially matching several snapshot elements is not acted on
+    const ambiguousClick = await service.executeStep(
+      { id: 's10', stepNumber: 10, action: 'click', selector: '#sign' },
+      { allowAdaptation: false }
+    );
+    assert(!ambiguousClick.success && ambiguousClick.error?.includes('#sign'), 'ambiguous partial match fails');
+    assert(!server.calls.some((call) => call.name === 'browser_click' && call.args.ref === 'e7'), 'Sign out is never clicked');
+    logger.info('✅ ambiguous names');
+
+    // Test 11: without an applicable pattern the AI picks the element
+    ai.answer = { ref: 'e5', confidence: 0.8, reasoning: 'The submit button is labelled Sign in' };
+    const aiClick = await service.executeStep({ id: 's11', stepNumber: 11, action: 'click', description: 'Submit the form', selector: '#submit' });
+    const aiRequest = ai.requests[ai.requests.length - 1];
+    assert(aiClick.success, 'click with AI suggestion succeeds');
+    assert(aiClick.adaptation?.source === 'ai', 'adaptation comes from the AI');
+    assert(aiClick.adaptation?.aiSuggestion === 'The submit button is labelled Sign in', 'AI reasoning is kept');
+    assert(aiRequest.selector === '#submit' && aiRequest.candidates.some((node) => node.ref === 'e5'), 'AI gets the step and the snapshot');
+    logger.info('✅ AI adaptation');
+
+    // Test 12: an element the AI cannot find is missing, without snapshot matching
+    ai.answer = null;
+    const unmatched = await service.executeStep({ id: 's12', stepNumber: 12, action: 'click', description: 'Click the sign in button', selector: '#gone' });
+    assert(!unmatched.success && unmatched.error?.includes('AI found no matching element'), 'no AI match fails the step');
+    logger.info('✅ AI without a match');
+
+    logger.info('All PlaywrightService tests passed!');
+  } catch (error) {
+    logger.error('❌ Test failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await service.cleanup();
+    server.close();
+  }
+}
+
+testPlaywrightService();
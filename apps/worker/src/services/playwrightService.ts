@@ -1,127 +1,821 @@
 /**
  * Playwright MCP Service
- * 
- * Handles browser automation using Playwright MCP container
- * 
- * NOTE: This is a placeholder implementation. In the actual implementation,
- * this service will communicate with the Playwright MCP server directly
- * and forward commands generated by the AI, rather than having separate
- * methods for each action type.
+ *
+ * Executes analyzed test steps against the Playwright MCP server of an
+ * allocated container. Every step action is forwarded as a Playwright MCP
+ * tool call; step selectors are resolved in the page and matched to the
+ * element refs of the accessibility snapshot, which the interaction tools
+ * require. When a selector no longer matches and adaptation is allowed, the
+ * test case's learned adaptation patterns are tried first; only when none of
+ * them applies is Gemini asked for the element. Without a Gemini client, or
+ * when the request fails, the element is looked up in the snapshot by the
+ * step description.
+ * The page state, accessibility snapshot and the console and network
+ * activity of each step are captured alongside its screenshot for triage;
+ * the network requests of the whole run are also kept as a HAR capture.
  */
 
-import { TestStep } from '../types';
+import type {
+  ExecutableTestStep,
+  RunArtifact,
+  StepAdaptationOutcome,
+  StepExecutionOutcome,
+  StepPageCapture,
+} from '@cinnamon-qa/queue';
+import type { AdaptationPattern, PageState } from '@cinnamon-qa/database';
 import { createLogger } from '@cinnamon-qa/logger';
+import { McpSseClient, type McpToolResult } from '../lib/mcpClient';
+import type { AiAdaptationService } from './aiAdaptationService';
+
+const DEFAULT_WAIT_TIMEOUT_MS = 10000;
+const WAIT_POLL_INTERVAL_MS = 500;
+const MIN_FALLBACK_CONFIDENCE = 0.3;
+const MAX_CAPTURED_ELEMENTS = 50;
+
+// Marker wrapped around values returned from browser_evaluate so they can be
+// recovered regardless of how the server formats the evaluation result
+const RESULT_MARKER = 'cqa';
+
+const INTERACTIVE_ROLES: Record<string, string[]> = {
+  click: ['button', 'link', 'menuitem', 'tab', 'checkbox', 'radio', 'option', 'switch'],
+  type: ['textbox', 'searchbox', 'combobox', 'spinbutton'],
+  select: ['combobox', 'listbox'],
+  hover: [],
+};
+
+interface SnapshotNode {
+  role: string;
+  name: string;
+  ref: string;
+}
+
+interface LocatedElement {
+  selector: string;
+  name: string;
+  text: string;
+  visible: boolean;
+}
+
+interface ResolvedTarget {
+  element: string;
+  ref: string;
+  adaptation?: StepAdaptationOutcome;
+}
+
+export interface PlaywrightServiceOptions {
+  requestTimeoutMs?: number;
+  waitTimeoutMs?: number;
+  // Learned selector fixes of the test case, tried before asking the AI
+  adaptationPatterns?: AdaptationPattern[];
+  // Gemini element lookup for selectors no learned pattern fixes
+  aiAdaptation?: Pick<AiAdaptationService, 'suggestElement'> | null;
+  // Browser window size of the run (e.g. the device profile of a matrix run)
+  viewport?: { width: number; height: number };
+}
 
 export class PlaywrightService {
-  private connection: any = null; // TODO: Add proper MCP connection type
+  private client: McpSseClient;
   private logger = createLogger({ context: 'PlaywrightService' });
-  
-  constructor() {
-    // TODO: Initialize Playwright MCP connection
+  private waitTimeoutMs: number;
+  private adaptationPatterns: AdaptationPattern[];
+  private aiAdaptation: Pick<AiAdaptationService, 'suggestElement'> | null;
+  private viewport?: { width: number; height: number };
+  // Console messages and network requests already attributed to a step
+  private seenConsoleLogs = 0;
+  private seenNetworkLogs = 0;
+  private runNetworkLogs: Record<string, any>[] = [];
+
+  constructor(private sseUrl: string, options: PlaywrightServiceOptions = {}) {
+    this.client = new McpSseClient(sseUrl, options.requestTimeoutMs);
+    this.waitTimeoutMs = options.waitTimeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS;
+    this.adaptationPatterns = options.adaptationPatterns ?? [];
+    this.aiAdaptation = options.aiAdaptation ?? null;
+    this.viewport = options.viewport;
   }
 
   async initialize(): Promise<void> {
-    // TODO: Connect to Playwright MCP container
-    this.logger.info('Initializing Playwright MCP connection');
+    this.logger.info('Initializing Playwright MCP connection', { sseUrl: this.sseUrl });
+    await this.client.connect();
+    if (this.viewport) {
+      await this.callTool('browser_resize', { ...this.viewport });
+    }
     this.logger.info('Playwright MCP connection established');
-    // Temporary usage to avoid TypeScript error
-    if (this.connection) this.logger.info('Connection ready');
   }
 
-  async executeStep(step: TestStep): Promise<{ success: boolean; screenshot?: string; error?: string }> {
+  async executeStep(
+    step: ExecutableTestStep,
+    options: { allowAdaptation: boolean } = { allowAdaptation: true }
+  ): Promise<StepExecutionOutcome> {
     this.logger.info('Executing step', { action: step.action, selector: step.selector, value: step.value });
-    
+
+    const pageStateBefore = await this.capture('page state', () => this.capturePageState());
+
+    let outcome: StepExecutionOutcome;
     try {
-      switch (step.action) {
-        case 'navigate':
-          return await this.navigate(step.value || '');
-        
-        case 'click':
-          return await this.click(step.selector || '');
-        
-        case 'type':
-          return await this.type(step.selector || '', step.value || '');
-        
-        case 'assert':
-          return await this.assert(step.selector || '', step.value || '');
-        
-        default:
-          throw new Error(`Unknown action: ${step.action}`);
-      }
+      outcome = await this.runAction(step, options.allowAdaptation);
     } catch (error) {
-      this.logger.error('Step execution failed', { 
-        action: step.action, 
+      this.logger.error('Step execution failed', {
+        action: step.action,
         selector: step.selector,
         error: error instanceof Error ? error.message : 'Unknown error',
         stack: error instanceof Error ? error.stack : undefined
       });
-      return {
+      outcome = {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
       };
     }
+
+    const screenshot = await this.capture('step screenshot', () => this.takeScreenshot());
+    const capture: StepPageCapture = {
+      pageStateBefore,
+      pageStateAfter: await this.capture('page state', () => this.capturePageState()),
+      domSnapshot: await this.capture('DOM snapshot', () => this.captureDomSnapshot()),
+      consoleLogs: await this.capture('console logs', () => this.captureConsoleLogs()),
+      networkLogs: await this.capture('network logs', () => this.captureNetworkLogs()),
+    };
+
+    return { ...outcome, screenshot, capture };
+  }
+
+  /**
+   * Capture the current page as a base64 data URL
+   */
+  async takeScreenshot(): Promise<string | undefined> {
+    const result = await this.callTool('browser_take_screenshot');
+    const image = result.content.find((content) => content.type === 'image');
+    return image && image.type === 'image' ? `data:${image.mimeType};base64,${image.data}` : undefined;
+  }
+
+  /**
+   * Capture URL, title and the visible interactive elements of the page
+   */
+  async capturePageState(): Promise<PageState | undefined> {
+    const state = await this.evaluate<PageState | null>(`
+      const isVisible = (el) => {
+        const rect = el.getBoundingClientRect();
+        const style = window.getComputedStyle(el);
+        return rect.width > 0 && rect.height > 0 && style.visibility !== 'hidden' && style.display !== 'none';
+      };
+      const describe = (el) => {
+        const tag = el.tagName.toLowerCase();
+        if (el.id) return '#' + CSS.escape(el.id);
+        if (el.getAttribute('name')) return tag + '[name="' + el.getAttribute('name') + '"]';
+        const text = (el.innerText || '').trim().slice(0, 50);
+        return text ? tag + ':has-text(' + JSON.stringify(text) + ')' : tag;
+      };
+      const elements = Array.from(document.querySelectorAll(
+        'a[href], button, input, select, textarea, [role="button"], [role="link"], [contenteditable="true"]'
+      )).filter(isVisible).slice(0, ${MAX_CAPTURED_ELEMENTS});
+      const navigation = performance.getEntriesByType('navigation')[0];
+      return {
+        url: location.href,
+        title: document.title,
+        readyState: document.readyState,
+        timestamp: new Date().toISOString(),
+        visibleElements: elements.map((el) => {
+          const rect = el.getBoundingClientRect();
+          return {
+            selector: describe(el),
+            type: el.getAttribute('type') || el.tagName.toLowerCase(),
+            enabled: !el.disabled,
+            visible: true,
+            boundingBox: { x: rect.x, y: rect.y, width: rect.width, height: rect.height },
+          };
+        }),
+        interactableElements: elements.filter((el) => !el.disabled).map(describe),
+        hasErrors: !!document.querySelector('[role="alert"], [aria-invalid="true"]'),
+        loadTime: navigation ? Math.round(navigation.duration) : undefined,
+      };
+    `);
+
+    return state ?? undefined;
   }
 
-  private async navigate(url: string): Promise<{ success: boolean; screenshot?: string }> {
-    // TODO: Implement navigation using Playwright MCP
-    this.logger.info('Navigating to URL', { url });
-    
-    // Simulate navigation
-    await new Promise(resolve => setTimeout(resolve, 500));
-    
+  /**
+   * Capture the accessibility snapshot the interaction tools work against
+   */
+  async captureDomSnapshot(): Promise<Record<string, any>> {
     return {
-      success: true,
-      screenshot: 'placeholder-screenshot-url',
+      format: 'playwright-mcp-snapshot',
+      content: await this.toolText('browser_snapshot'),
+      capturedAt: new Date().toISOString(),
     };
   }
 
-  private async click(selector: string): Promise<{ success: boolean; screenshot?: string }> {
-    // TODO: Implement click using Playwright MCP
-    this.logger.info('Clicking element', { selector });
-    
-    // Simulate click
-    await new Promise(resolve => setTimeout(resolve, 300));
-    
+  /**
+   * Console messages logged since the previous capture
+   */
+  async captureConsoleLogs(): Promise<Record<string, any>[]> {
+    const messages = parseToolLines(await this.toolText('browser_console_messages'))
+      .map((line) => {
+        const match = line.match(/^\[(\w+)\]\s*(.*)$/);
+        return match ? { type: match[1].toLowerCase(), text: match[2] } : { type: 'log', text: line };
+      });
+
+    // The list restarts when the page navigates
+    const fresh = messages.length >= this.seenConsoleLogs ? messages.slice(this.seenConsoleLogs) : messages;
+    this.seenConsoleLogs = messages.length;
+    return fresh;
+  }
+
+  /**
+   * Network requests made since the previous capture
+   */
+  async captureNetworkLogs(): Promise<Record<string, any>[]> {
+    const requests = parseToolLines(await this.toolText('browser_network_requests'))
+      .map((line) => {
+        const match = line.match(/^\[(\w+)\]\s+(\S+)(?:\s+=>\s+\[(\d+)\]\s*(.*))?$/);
+        return match
+          ? { method: match[1], url: match[2], status: match[3] ? Number(match[3]) : null, statusText: match[4] ?? null }
+          : { raw: line };
+      });
+
+    const fresh = requests.length >= this.seenNetworkLogs ? requests.slice(this.seenNetworkLogs) : requests;
+    this.seenNetworkLogs = requests.length;
+
+    const capturedAt = new Date().toISOString();
+    this.runNetworkLogs.push(...fresh.map((request) => ({ ...request, capturedAt })));
+    return fresh;
+  }
+
+  /**
+   * Artifacts of the whole run: a HAR built from the captured requests.
+   * Playwright MCP does not expose headers or timings, so those are empty.
+   */
+  async collectArtifacts(): Promise<RunArtifact[]> {
+    const entries = this.runNetworkLogs
+      .filter((request) => request.url)
+      .map((request) => ({
+        startedDateTime: request.capturedAt,
+        time: 0,
+        request: {
+          method: request.method,
+          url: request.url,
+          httpVersion: 'HTTP/1.1',
+          cookies: [],
+          headers: [],
+          queryString: [],
+          headersSize: -1,
+          bodySize: -1,
+        },
+        response: {
+          status: request.status ?? 0,
+          statusText: request.statusText ?? '',
+          httpVersion: 'HTTP/1.1',
+          cookies: [],
+          headers: [],
+          content: { size: 0, mimeType: '' },
+          redirectURL: '',
+          headersSize: -1,
+          bodySize: -1,
+        },
+        cache: {},
+        timings: { send: 0, wait: 0, receive: 0 },
+      }));
+
+    if (entries.length === 0) {
+      return [];
+    }
+
+    const har = { log: { version: '1.2', creator: { name: 'cinnamon-qa', version: '1.0.0' }, entries } };
+    return [{ type: 'har', data: Buffer.from(JSON.stringify(har)), mimeType: 'application/json' }];
+  }
+
+  async cleanup(): Promise<void> {
+    this.logger.info('Cleaning up Playwright resources');
+    try {
+      if (this.client.isConnected) {
+        await this.callTool('browser_close');
+      }
+    } catch (error) {
+      this.logger.warn('Failed to close browser', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      await this.client.close();
+    }
+  }
+
+  /**
+   * Run a best-effort capture; a failed capture never fails the step
+   */
+  private async capture<T>(label: string, fn: () => Promise<T | undefined>): Promise<T | undefined> {
+    try {
+      return await fn();
+    } catch (error) {
+      this.logger.warn(`Failed to capture ${label}`, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return undefined;
+    }
+  }
+
+  private async runAction(step: ExecutableTestStep, allowAdaptation: boolean): Promise<StepExecutionOutcome> {
+    switch (step.action) {
+      case 'navigate': {
+        const url = step.value || step.selector;
+        if (!url) {
+          throw new Error('navigate step requires a URL');
+        }
+        await this.callTool('browser_navigate', { url });
+        return { success: true };
+      }
+
+      case 'click': {
+        const target = await this.resolveTarget(step, allowAdaptation);
+        await this.callTool('browser_click', { element: target.element, ref: target.ref });
+        return { success: true, adaptation: target.adaptation };
+      }
+
+      case 'type': {
+        const target = await this.resolveTarget(step, allowAdaptation);
+        await this.callTool('browser_type', { element: target.element, ref: target.ref, text: step.value ?? '' });
+        return { success: true, adaptation: target.adaptation };
+      }
+
+      case 'hover': {
+        const target = await this.resolveTarget(step, allowAdaptation);
+        await this.callTool('browser_hover', { element: target.element, ref: target.ref });
+        return { success: true, adaptation: target.adaptation };
+      }
+
+      case 'select': {
+        const target = await this.resolveTarget(step, allowAdaptation);
+        await this.callTool('browser_select_option', {
+          element: target.element,
+          ref: target.ref,
+          values: [step.value ?? ''],
+        });
+        return { success: true, adaptation: target.adaptation };
+      }
+
+      case 'scroll':
+        return this.scroll(step);
+
+      case 'wait':
+        return this.wait(step);
+
+      case 'verify':
+        return this.verify(step);
+
+      default:
+        throw new Error(`Unknown action: ${step.action}`);
+    }
+  }
+
+  private async scroll(step: ExecutableTestStep): Promise<StepExecutionOutcome> {
+    if (step.selector) {
+      const located = await this.locate(step.selector, true);
+      if (!located) {
+        throw new Error(`Element not found for selector: ${step.selector}`);
+      }
+      return { success: true };
+    }
+
+    const distance = Number(step.value);
+    await this.evaluate(
+      `window.scrollBy(0, ${Number.isFinite(distance) && distance !== 0 ? distance : 'window.innerHeight'}); return true;`
+    );
+    return { success: true };
+  }
+
+  private async wait(step: ExecutableTestStep): Promise<StepExecutionOutcome> {
+    const condition = step.waitCondition?.trim() || step.value?.trim() || '';
+    const seconds = parseWaitSeconds(condition);
+
+    if (seconds !== null) {
+      await this.callTool('browser_wait_for', { time: seconds });
+      return { success: true };
+    }
+
+    const selector = step.selector || (looksLikeSelector(condition) ? condition : '');
+    if (selector) {
+      await this.waitForElement(selector);
+      return { success: true };
+    }
+
+    if (condition) {
+      await this.callTool('browser_wait_for', { text: condition });
+      return { success: true };
+    }
+
+    await this.callTool('browser_wait_for', { time: 1 });
+    return { success: true };
+  }
+
+  private async verify(step: ExecutableTestStep): Promise<StepExecutionOutcome> {
+    if (!step.selector) {
+      if (!step.value) {
+        throw new Error('verify step requires a selector or an expected text value');
+      }
+      await this.callTool('browser_wait_for', { text: step.value });
+      return { success: true };
+    }
+
+    const located = await this.waitForElement(step.selector).catch(() => null);
+    if (!located) {
+      return { success: false, error: `Verification failed: no visible element matches ${step.selector}` };
+    }
+
+    if (step.value && !located.text.includes(step.value)) {
+      return {
+        success: false,
+        error: `Verification failed: expected "${step.value}" in ${located.selector}, got "${located.text.slice(0, 200)}"`,
+      };
+    }
+
+    return { success: true };
+  }
+
+  private async waitForElement(selector: string): Promise<LocatedElement> {
+    const deadline = Date.now() + this.waitTimeoutMs;
+
+    for (;;) {
+      const located = await this.locate(selector);
+      if (located?.visible) {
+        return located;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out waiting for ${selector}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, WAIT_POLL_INTERVAL_MS));
+    }
+  }
+
+  /**
+   * Find the snapshot ref of the element a step targets
+   */
+  private async resolveTarget(step: ExecutableTestStep, allowAdaptation: boolean): Promise<ResolvedTarget> {
+    const nodes = parseSnapshot(await this.toolText('browser_snapshot'));
+    const located = step.selector ? await this.locate(step.selector) : null;
+
+    if (located?.name) {
+      const node = findNodeByName(nodes, located.name);
+      if (node) {
+        return { element: step.description || located.name, ref: node.ref };
+      }
+    }
+
+    if (!allowAdaptation) {
+      throw new Error(`Element not found for selector: ${step.selector ?? '(none)'}`);
+    }
+
+    const reason = located
+      ? `Element for ${step.selector} is not in the accessibility snapshot`
+      : `No element matches ${step.selector ?? 'the step'}`;
+
+    const learned = this.findPatternNode(nodes, step);
+    if (learned) {
+      this.logger.info('Selector did not match, applying learned adaptation pattern', {
+        selector: step.selector,
+        pattern: learned.pattern.pattern,
+        role: learned.node.role,
+        name: learned.node.name,
+        confidence: learned.pattern.confidence,
+      });
+
+      return {
+        element: step.description || learned.node.name,
+        ref: learned.node.ref,
+        adaptation: this.toAdaptation(step, learned.node, 'learned_pattern', 'pattern', reason, learned.pattern.confidence),
+      };
+    }
+
+    if (this.aiAdaptation) {
+      const suggested = await this.suggestTarget(nodes, step, reason).catch((error) => {
+        this.logger.warn('AI adaptation failed, falling back to snapshot matching', {
+          selector: step.selector,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        return undefined;
+      });
+      if (suggested) {
+        return suggested;
+      }
+      if (suggested === null) {
+        throw new Error(`Element not found for selector: ${step.selector ?? '(none)'} (AI found no matching element)`);
+      }
+    }
+
+    const match = findNodeByDescription(nodes, step);
+    if (!match) {
+      throw new Error(`Element not found for selector: ${step.selector ?? '(none)'}`);
+    }
+
+    this.logger.info('Selector did not match, using snapshot element instead', {
+      selector: step.selector,
+      role: match.node.role,
+      name: match.node.name,
+      confidence: match.confidence,
+    });
+
     return {
-      success: true,
-      screenshot: 'placeholder-screenshot-url',
+      element: step.description || match.node.name,
+      ref: match.node.ref,
+      adaptation: this.toAdaptation(step, match.node, 'selector_fallback', 'snapshot', reason, match.confidence),
     };
   }
 
-  private async type(selector: string, text: string): Promise<{ success: boolean; screenshot?: string }> {
-    // TODO: Implement typing using Playwright MCP
-    this.logger.info('Typing text into element', { selector, text });
-    
-    // Simulate typing
-    await new Promise(resolve => setTimeout(resolve, 400));
-    
+  /**
+   * Snapshot element suggested by Gemini, or null when Gemini names no
+   * element or names one with too little confidence
+   */
+  private async suggestTarget(nodes: SnapshotNode[], step: ExecutableTestStep, reason: string): Promise<ResolvedTarget | null> {
+    const suggestion = await this.aiAdaptation!.suggestElement({
+      action: step.action,
+      description: step.description,
+      selector: step.selector,
+      value: step.value,
+      reason,
+      candidates: nodes.filter((node) => node.name),
+    });
+    const node = suggestion && suggestion.confidence >= MIN_FALLBACK_CONFIDENCE
+      ? nodes.find((candidate) => candidate.ref === suggestion.ref)
+      : undefined;
+
+    if (!suggestion || !node) {
+      return null;
+    }
+
+    this.logger.info('Selector did not match, applying AI suggested element', {
+      selector: step.selector,
+      role: node.role,
+      name: node.name,
+      confidence: suggestion.confidence,
+    });
+
     return {
-      success: true,
-      screenshot: 'placeholder-screenshot-url',
+      element: step.description || node.name,
+      ref: node.ref,
+      adaptation: {
+        ...this.toAdaptation(step, node, 'ai_suggestion', 'ai', reason, suggestion.confidence),
+        aiSuggestion: suggestion.reasoning,
+      },
     };
   }
 
-  private async assert(selector: string, expectedText: string): Promise<{ success: boolean; screenshot?: string }> {
-    // TODO: Implement assertion using Playwright MCP
-    this.logger.info('Asserting text in element', { selector, expectedText });
-    
-    // Simulate assertion
-    await new Promise(resolve => setTimeout(resolve, 200));
-    
+  /**
+   * Snapshot element named by a learned pattern for the step's action and
+   * selector. Patterns store the adapted element as `role "name"`.
+   */
+  private findPatternNode(
+    nodes: SnapshotNode[],
+    step: ExecutableTestStep
+  ): { node: SnapshotNode; pattern: AdaptationPattern } | null {
+    const selector = step.selector?.trim();
+    if (!selector) {
+      return null;
+    }
+
+    const candidates = this.adaptationPatterns
+      .filter((pattern) => pattern.action === step.action && pattern.original_selector === selector)
+      .sort((a, b) => b.success_rate - a.success_rate || b.confidence - a.confidence);
+
+    for (const pattern of candidates) {
+      const target = pattern.adapted_selector?.match(/^([\w-]+)\s+"(.*)"$/);
+      const node = target && nodes.find((candidate) => candidate.role === target[1] && candidate.name === target[2]);
+      if (node) {
+        return { node, pattern };
+      }
+    }
+
+    return null;
+  }
+
+  private toAdaptation(
+    step: ExecutableTestStep,
+    node: SnapshotNode,
+    adaptationType: string,
+    source: StepAdaptationOutcome['source'],
+    reason: string,
+    confidence: number
+  ): StepAdaptationOutcome {
     return {
-      success: true,
-      screenshot: 'placeholder-screenshot-url',
+      adaptationType,
+      reason,
+      source,
+      originalAction: { type: step.action, selector: step.selector ?? '', value: step.value },
+      adaptedAction: {
+        type: step.action,
+        selector: `${node.role} "${node.name}" [ref=${node.ref}]`,
+        value: step.value,
+      },
+      confidence,
     };
   }
 
-  async takeScreenshot(): Promise<string> {
-    // TODO: Take screenshot using Playwright MCP
-    this.logger.info('Taking screenshot');
-    return 'placeholder-screenshot-url';
+  /**
+   * Resolve a step selector in the page. Selectors are comma separated
+   * alternatives and may use `:has-text("...")` and `:visible`.
+   */
+  private async locate(selector: string, scrollIntoView = false): Promise<LocatedElement | null> {
+    const alternatives = splitSelector(selector);
+
+    return this.evaluate<LocatedElement | null>(`
+      const alternatives = ${JSON.stringify(alternatives)};
+      const isVisible = (el) => {
+        const rect = el.getBoundingClientRect();
+        const style = window.getComputedStyle(el);
+        return rect.width > 0 && rect.height > 0 && style.visibility !== 'hidden' && style.display !== 'none';
+      };
+      const find = (raw) => {
+        let selector = raw;
+        const mustBeVisible = /:visible$/.test(selector);
+        if (mustBeVisible) selector = selector.replace(/:visible$/, '');
+        const hasText = selector.match(/^(.*?):has-text\\((['"])(.*)\\2\\)\\s*$/);
+        let candidates = [];
+        try {
+          if (hasText) {
+            const text = hasText[3];
+            const matches = Array.from(document.querySelectorAll(hasText[1].trim() || '*'))
+              .filter((el) => (el.textContent || '').includes(text));
+            candidates = matches.filter((el) => !matches.some((other) => other !== el && el.contains(other)));
+          } else {
+            candidates = Array.from(document.querySelectorAll(selector));
+          }
+        } catch (e) {
+          return null;
+        }
+        return candidates.find((el) => !mustBeVisible || isVisible(el)) || null;
+      };
+      for (const alternative of alternatives) {
+        const el = find(alternative);
+        if (!el) continue;
+        if (${scrollIntoView}) el.scrollIntoView({ block: 'center' });
+        const label = el.id ? document.querySelector('label[for="' + CSS.escape(el.id) + '"]') : null;
+        const name = el.getAttribute('aria-label') || (label && label.textContent) || el.getAttribute('placeholder')
+          || el.getAttribute('title') || el.getAttribute('alt') || el.innerText || el.value || '';
+        return {
+          selector: alternative,
+          name: name.trim().slice(0, 200),
+          text: (el.innerText || el.value || '').trim(),
+          visible: isVisible(el),
+        };
+      }
+      return null;
+    `);
   }
 
-  async cleanup(): Promise<void> {
-    // TODO: Clean up Playwright resources
-    this.logger.info('Cleaning up Playwright resources');
+  /**
+   * Run a function body in the page and decode its JSON-serializable result
+   */
+  private async evaluate<T>(body: string): Promise<T> {
+    const fn = `() => { const __result = (() => { ${body} })(); `
+      + `return '${RESULT_MARKER}:' + encodeURIComponent(JSON.stringify(__result === undefined ? null : __result)) + ':${RESULT_MARKER}'; }`;
+
+    const text = await this.toolText('browser_evaluate', { function: fn });
+    const match = text.match(new RegExp(`${RESULT_MARKER}:([\\w.!~*'()%-]*):${RESULT_MARKER}`));
+    if (!match) {
+      throw new Error('Unexpected browser_evaluate result');
+    }
+    return JSON.parse(decodeURIComponent(match[1])) as T;
+  }
+
+  private async toolText(name: string, args: Record<string, unknown> = {}): Promise<string> {
+    const result = await this.callTool(name, args);
+    return result.content
+      .map((content) => (content.type === 'text' ? content.text : ''))
+      .join('\n');
+  }
+
+  private async callTool(name: string, args: Record<string, unknown> = {}): Promise<McpToolResult> {
+    const result = await this.client.callTool(name, args);
+
+    if (result.isError) {
+      const message = result.content
+        .map((content) => (content.type === 'text' ? content.text : ''))
+        .join('\n')
+        .trim();
+      throw new Error(`${name} failed: ${message || 'unknown error'}`);
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Split a selector list on top-level commas (commas inside quotes or
+ * parentheses belong to the selector)
+ */
+function splitSelector(selector: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+
+  for (const char of selector) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(' || char === '[') {
+      depth++;
+    } else if (char === ')' || char === ']') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current.trim());
+
+  return parts.filter(Boolean);
+}
+
+/**
+ * Extract `role "name" [ref=..]` entries from a Playwright MCP snapshot
+ */
+function parseSnapshot(snapshot: string): SnapshotNode[] {
+  const nodes: SnapshotNode[] = [];
+  const pattern = /^\s*-\s+([\w-]+)(?:\s+"((?:[^"\\]|\\.)*)")?[^\n]*?\[ref=([^\]]+)\]/gm;
+
+  for (const match of snapshot.matchAll(pattern)) {
+    nodes.push({ role: match[1], name: (match[2] ?? '').replace(/\\"/g, '"'), ref: match[3] });
+  }
+
+  return nodes;
+}
+
+/**
+ * Non-empty lines of a tool's text output, without list bullets
+ */
+function parseToolLines(text: string): string[] {
+  return text
+    .split('\n')
+    .map((line) => line.replace(/^\s*-\s+/, '').trim())
+    .filter(Boolean);
+}
+
+/**
+ * Snapshot element with the located element's name. A partial match is only
+ * taken when it is the only one; otherwise the step goes through adaptation.
+ */
+function findNodeByName(nodes: SnapshotNode[], name: string): SnapshotNode | undefined {
+  const wanted = normalize(name);
+  const exact = nodes.find((node) => normalize(node.name) === wanted);
+  if (exact) {
+    return exact;
+  }
+
+  const partial = nodes.filter((node) => node.name && (normalize(node.name).includes(wanted) || wanted.includes(normalize(node.name))));
+  return partial.length === 1 ? partial[0] : undefined;
+}
+
+/**
+ * Score snapshot elements against the texts a step mentions
+ */
+function findNodeByDescription(
+  nodes: SnapshotNode[],
+  step: ExecutableTestStep
+): { node: SnapshotNode; confidence: number } | null {
+  const quotedTexts = Array.from((step.selector ?? '').matchAll(/:has-text\((['"])(.*?)\1\)/g), (match) => normalize(match[2]));
+  const words = normalize(step.description ?? '').split(' ').filter((word) => word.length >= 2);
+
+  const roles = INTERACTIVE_ROLES[step.action] ?? [];
+  const named = nodes.filter((node) => node.name);
+  const candidates = roles.length > 0 && named.some((node) => roles.includes(node.role))
+    ? named.filter((node) => roles.includes(node.role))
+    : named;
+
+  let best: { node: SnapshotNode; confidence: number } | null = null;
+
+  for (const node of candidates) {
+    const name = normalize(node.name);
+    let confidence = 0;
+
+    if (quotedTexts.some((text) => text && name.includes(text))) {
+      confidence = 0.9;
+    } else if (words.length > 0) {
+      confidence = words.filter((word) => name.includes(word)).length / words.length;
+    }
+
+    if (confidence > (best?.confidence ?? 0)) {
+      best = { node, confidence };
+    }
+  }
+
+  return best && best.confidence >= MIN_FALLBACK_CONFIDENCE ? best : null;
+}
+
+/**
+ * `2s`/`1.5 s` are seconds; bare numbers and `500ms` are milliseconds
+ */
+function parseWaitSeconds(condition: string): number | null {
+  const match = condition.match(/^(\d+(?:\.\d+)?)\s*(ms|s)?$/i);
+  if (!match) {
+    return null;
   }
-}
\ No newline at end of file
+  const amount = Number(match[1]);
+  return match[2]?.toLowerCase() === 's' ? amount : amount / 1000;
+}
+
+function looksLikeSelector(condition: string): boolean {
+  return /^[#.[]|:has-text|:visible|^[a-z]+[#.[:]/i.test(condition);
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
@@ -11,7 +11,6 @@ export class AllocationQueue {
   private readonly logger = createLogger({ context: 'AllocationQueue' });
   private redisClient: RedisClient;
   private queueKey = 'container:allocation:queue';
-  private processingKey = 'container:allocation:processing';
 
   constructor(redisClient: RedisClient) {
     this.redisClient = redisClient;
@@ -3,13 +3,17 @@ import { createLogger } from '@cinnamon-qa/logger';
 import { PlaywrightMcpContainer } from './container';
 import { SimpleHealthChecker } from './health-checker';
 import { DockerInspector } from './docker-inspector';
-import { AllocationQueue, QueuedRequest } from './allocation-queue';
-import { HealthMonitor, ContainerHealthStatus } from './health-monitor';
+import { AllocationQueue } from './allocation-queue';
+import { HealthMonitor, type ContainerHealthStatus } from './health-monitor';
 import { CleanupService } from './cleanup-service';
-import { ContainerResetManager } from './container-reset-manager';
-import { ResourceManager, TestPriority, ResourceRequest, AllocationResult } from './resource-manager';
-import { TimeoutManager, TimeoutSession } from './timeout-manager';
-import { Container, ContainerState, ContainerPoolConfig } from './types';
+import { ContainerResetManager, ResetResult } from './container-reset-manager';
+import { ResourceManager, TestPriority, ResourceRequest } from './resource-manager';
+import { TimeoutManager } from './timeout-manager';
+import { Container, ContainerLaunchOptions, ContainerState, ContainerPoolConfig } from './types';
+
+// Readiness checks after relaunching a container with new launch options
+const LAUNCH_READY_ATTEMPTS = 30;
+const LAUNCH_READY_INTERVAL_MS = 1000;
 
 export interface PoolMetrics {
   totalContainers: number;
@@ -34,6 +38,8 @@ export class ContainerPoolManager {
   private resetManager: ContainerResetManager;
   private resourceManager: ResourceManager;
   private timeoutManager: TimeoutManager;
+  // Set by attach(): the pool is owned and monitored by another process
+  private attached = false;
   
   // Metrics
   private metrics: PoolMetrics = {
@@ -278,6 +284,100 @@ export class ContainerPoolManager {
     this.logger.info('Container pool manager initialized with health monitoring');
   }
 
+  /**
+   * Attach to pool containers started by another process (e.g. the worker)
+   * without starting them or resetting their allocation state. An attached
+   * pool does not monitor health or reset unhealthy containers; health is
+   * read from the owning process through Redis (getContainerHealth).
+   */
+  async attach(): Promise<void> {
+    if (this.containers.size > 0) {
+      return;
+    }
+
+    this.logger.info('Attaching to container pool');
+    this.attached = true;
+
+    for (const config of this.poolConfig.containers) {
+      const container = new PlaywrightMcpContainer(config.id, config.name, config.port);
+      this.containers.set(config.id, container);
+    }
+
+    await this.updateMetrics();
+  }
+
+  /**
+   * Get the health status of a container, from the local health monitor or,
+   * for an attached pool, as published by the owning process
+   */
+  async getContainerHealth(containerId: string): Promise<ContainerHealthStatus | null> {
+    return this.attached
+      ? this.healthMonitor.getStoredHealthStatus(containerId)
+      : this.healthMonitor.getContainerHealthStatus(containerId);
+  }
+
+  /**
+   * Get a pool container by id
+   */
+  getContainer(containerId: string): PlaywrightMcpContainer | undefined {
+    return this.containers.get(containerId);
+  }
+
+  /**
+   * Get all pool containers
+   */
+  getContainers(): PlaywrightMcpContainer[] {
+    return Array.from(this.containers.values());
+  }
+
+  /**
+   * Get allocation state of a container
+   */
+  async getContainerAllocation(containerId: string): Promise<ContainerState | null> {
+    return this.getContainerState(containerId);
+  }
+
+  /**
+   * Start a stopped container and resume monitoring it
+   */
+  async startContainer(containerId: string): Promise<void> {
+    const container = this.containers.get(containerId);
+    if (!container) {
+      throw new Error(`Container ${containerId} not found`);
+    }
+
+    await container.start();
+
+    if (!(await this.getContainerState(containerId))) {
+      await this.updateContainerState(containerId, {
+        containerId,
+        port: container.port,
+        allocated: false,
+        lastCheckedAt: new Date(),
+      });
+    }
+
+    this.healthMonitor.registerContainer(containerId, container.name, container.port);
+    await this.updateMetrics();
+    this.logger.info('Container started', { containerId });
+  }
+
+  /**
+   * Stop a container and stop monitoring it
+   */
+  async stopContainer(containerId: string): Promise<void> {
+    const container = this.containers.get(containerId);
+    if (!container) {
+      throw new Error(`Container ${containerId} not found`);
+    }
+
+    // Unregister first so the stopped container is not reported as failing
+    this.healthMonitor.unregisterContainer(containerId);
+    await container.stop();
+    await this.updateMetrics();
+    this.logger.info('Container stopped', { containerId });
+  }
+
   /**
    * Allocate a container (with queue support) - Legacy method
    */
@@ -417,7 +517,7 @@ export class ContainerPoolManager {
     }
 
     // Perform reset on allocation if enabled
-    const resetResult = await this.resetManager.resetOnAllocation(containerObj);
+    const resetResult = containerObj ? await this.resetManager.resetOnAllocation(containerObj) : null;
     if (resetResult && !resetResult.success) {
       this.logger.warn('Reset on allocation failed, proceeding anyway', { containerId: availableContainer.containerId });
     }
@@ -433,44 +533,28 @@ export class ContainerPoolManager {
   }
 
   /**
-   * Wait for a container to become available
+   * Relaunch an allocated container with the browser settings of its test
+   * run. A container already launched with them is left as it is.
    */
-  private async waitForContainer(testRunId: string, timeoutMs: number): Promise<Container | null> {
-    const endTime = Date.now() + timeoutMs;
-    const pollInterval = 1000; // Check every 1 second
-    
-    while (Date.now() < endTime) {
-      // Check if this request is at the front of the queue
-      const queuedRequest = await this.allocationQueue.dequeue();
-      
-      if (!queuedRequest || queuedRequest.testRunId !== testRunId) {
-        // Not our turn yet, put it back if it's someone else's
-        if (queuedRequest) {
-          await this.allocationQueue.enqueue(
-            queuedRequest.testRunId, 
-            queuedRequest.timeout
-          );
-        }
-        
-        await new Promise(resolve => setTimeout(resolve, pollInterval));
-        continue;
-      }
-      
-      // It's our turn, try to allocate
-      const container = await this.tryImmediateAllocation(testRunId);
-      if (container) {
-        this.logger.info('Allocated queued container', { testRunId });
-        return container;
+  async configureContainer(containerId: string, options: ContainerLaunchOptions): Promise<void> {
+    const container = this.containers.get(containerId);
+    if (!container) {
+      throw new Error(`Container ${containerId} not found`);
+    }
+
+    if (!(await container.applyLaunchOptions(options))) {
+      return;
+    }
+
+    for (let attempt = 0; attempt < LAUNCH_READY_ATTEMPTS; attempt++) {
+      if (await this.healthChecker.isContainerReady(container.port, container.name)) {
+        this.logger.info('Container relaunched with new launch options', { containerId, ...options });
+        return;
       }
-      
-      // Still no container available, wait a bit
-      await new Promise(resolve => setTimeout(resolve, pollInterval));
+      await new Promise(resolve => setTimeout(resolve, LAUNCH_READY_INTERVAL_MS));
     }
-    
-    // Timeout - remove from queue
-    await this.allocationQueue.remove(testRunId);
-    this.logger.info('Allocation timeout', { testRunId });
-    return null;
+
+    throw new Error(`Container ${containerId} did not become ready after relaunching`);
   }
 
   /**
@@ -707,7 +791,7 @@ export class ContainerPoolManager {
   /**
    * Manual reset of a specific container
    */
-  async resetContainer(containerId: string): Promise<void> {
+  async resetContainer(containerId: string): Promise<ResetResult> {
     const container = this.containers.get(containerId);
     if (!container) {
       throw new Error(`Container ${containerId} not found`);
@@ -724,6 +808,8 @@ export class ContainerPoolManager {
       // Re-register with health monitor after successful reset
       this.healthMonitor.registerContainer(containerId, container.name, container.port);
     }
+
+    return resetResult;
   }
 
   /**
@@ -733,6 +819,13 @@ export class ContainerPoolManager {
     return this.cleanupService;
   }
 
+  /**
+   * Get health monitor instance
+   */
+  getHealthMonitor(): HealthMonitor {
+    return this.healthMonitor;
+  }
+
   /**
    * Get reset manager instance
    */
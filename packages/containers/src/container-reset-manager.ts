@@ -63,8 +63,6 @@ export class ContainerResetManager extends EventEmitter {
    * Reset container using the most appropriate strategy
    */
   async resetContainer(container: PlaywrightMcpContainer, reason?: string): Promise<ResetResult> {
-    const resetId = `${container.id}-${Date.now()}`;
-    
     // Check if reset is already in progress for this container
     if (this.activeResets.has(container.id)) {
       this.logger.info('Reset already in progress for container, waiting', { containerId: container.id });
@@ -158,17 +156,17 @@ export class ContainerResetManager extends EventEmitter {
       {
         name: 'Cleanup Reset',
         priority: 1,
-        execute: async (container) => this.executeCleanupReset(container),
+        execute: async (container: PlaywrightMcpContainer) => this.executeCleanupReset(container),
       },
       {
         name: 'Container Restart',
         priority: 2,
-        execute: async (container) => this.executeContainerRestart(container),
+        execute: async (container: PlaywrightMcpContainer) => this.executeContainerRestart(container),
       },
       {
         name: 'Container Recreate',
         priority: 3,
-        execute: async (container) => this.executeContainerRecreate(container),
+        execute: async (container: PlaywrightMcpContainer) => this.executeContainerRecreate(container),
       },
     ].sort((a, b) => a.priority - b.priority);
   }
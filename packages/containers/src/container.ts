@@ -1,13 +1,23 @@
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import { createLogger } from '@cinnamon-qa/logger';
-import { Container, ContainerStatus } from './types';
+import {
+  Container,
+  ContainerLaunchOptions,
+  ContainerLogEntry,
+  ContainerStatus,
+  DockerContainerDetails,
+} from './types';
 
 const execAsync = promisify(exec);
 
+// Docker label recording the launch options a container was created with
+const LAUNCH_OPTIONS_LABEL = 'cinnamon-qa.launch-options';
+
 export class PlaywrightMcpContainer {
   private readonly logger = createLogger({ context: 'PlaywrightMcpContainer' });
   private container: Container;
+  private launchOptions: ContainerLaunchOptions = {};
   
   constructor(
     id: string,
@@ -44,20 +54,24 @@ export class PlaywrightMcpContainer {
   }
 
   /**
-   * Start the container
+   * Start the container. An existing container created with other launch
+   * options is recreated.
    */
   async start(): Promise<void> {
     try {
-      // Check if container already exists
-      const { stdout: existingContainer } = await execAsync(
-        `docker ps -a --filter name=${this.container.name} --format "{{.Names}}"`
-      ).catch(() => ({ stdout: '' }));
+      const launchKey = launchOptionsKey(this.launchOptions);
+      const existingLaunchKey = await this.getExistingLaunchKey();
 
-      if (existingContainer.trim() === this.container.name) {
-        // Container exists, just start it
+      if (existingLaunchKey === launchKey) {
+        // Container exists with the same launch options, just start it
         await execAsync(`docker start ${this.container.name}`);
       } else {
+        if (existingLaunchKey !== null) {
+          await execAsync(`docker rm -f ${this.container.name}`);
+        }
+
         // Create and start new container
+        const { browser, userAgent, timezone } = this.launchOptions;
         const createCommand = [
           'docker run -d',
           `--name ${this.container.name}`,
@@ -66,11 +80,15 @@ export class PlaywrightMcpContainer {
           '--memory=512m',
           '--cpus=0.5',
           `--env CONTAINER_POOL_ID=${this.container.id}`,
+          ...(timezone ? [`--env TZ=${shellQuote(timezone)}`] : []),
+          `--label ${LAUNCH_OPTIONS_LABEL}=${shellQuote(launchKey)}`,
           'mcr.microsoft.com/playwright/mcp:latest',
           '--headless',
           '--host', '0.0.0.0',
           '--port', '3000',
-          '--isolated'
+          '--isolated',
+          ...(browser ? ['--browser', shellQuote(browser)] : []),
+          ...(userAgent ? ['--user-agent', shellQuote(userAgent)] : []),
         ].join(' ');
 
         await execAsync(createCommand);
@@ -86,6 +104,30 @@ export class PlaywrightMcpContainer {
     }
   }
 
+  /**
+   * Relaunch the container with other launch options. Returns false when it
+   * already runs with them. The allocation status is kept.
+   */
+  async applyLaunchOptions(options: ContainerLaunchOptions): Promise<boolean> {
+    const wanted: ContainerLaunchOptions = {
+      browser: options.browser || undefined,
+      userAgent: options.userAgent || undefined,
+      timezone: options.timezone || undefined,
+    };
+    if (launchOptionsKey(wanted) === launchOptionsKey(this.launchOptions)) {
+      return false;
+    }
+
+    const status = this.container.status;
+    this.logger.info('Relaunching container with new launch options', { containerName: this.container.name, ...wanted });
+
+    this.launchOptions = wanted;
+    this.container.status = ContainerStatus.RESTARTING;
+    await this.start();
+    this.container.status = status;
+    return true;
+  }
+
   /**
    * Stop the container
    */
@@ -127,6 +169,69 @@ export class PlaywrightMcpContainer {
     }
   }
 
+  /**
+   * Inspect the Docker container, or return null when it does not exist
+   */
+  async inspect(): Promise<DockerContainerDetails | null> {
+    try {
+      const { stdout } = await execAsync(
+        `docker inspect --format "{{.Id}}|{{.State.Running}}|{{.Created}}|{{.State.StartedAt}}" ${this.container.name}`
+      );
+      const [dockerId, running, createdAt, startedAt] = stdout.trim().split('|');
+
+      return {
+        dockerId,
+        running: running === 'true',
+        createdAt: new Date(createdAt),
+        startedAt: running === 'true' ? new Date(startedAt) : undefined,
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Read the last lines of the container logs (docker logs --tail)
+   */
+  async getLogs(tail = 100): Promise<ContainerLogEntry[]> {
+    const { stdout, stderr } = await execAsync(
+      `docker logs --tail ${tail} --timestamps ${this.container.name}`,
+      { maxBuffer: 10 * 1024 * 1024 }
+    );
+
+    const parse = (output: string, stream: ContainerLogEntry['stream']): ContainerLogEntry[] =>
+      output
+        .split('\n')
+        .filter(line => line.trim())
+        .map(line => {
+          // Each line is prefixed with an RFC3339 timestamp followed by a space
+          const separator = line.indexOf(' ');
+          const timestamp = new Date(line.slice(0, separator));
+          return Number.isNaN(timestamp.getTime())
+            ? { timestamp: null, stream, message: line }
+            : { timestamp, stream, message: line.slice(separator + 1) };
+        });
+
+    return [...parse(stdout, 'stdout'), ...parse(stderr, 'stderr')]
+      .sort((a, b) => (a.timestamp?.getTime() ?? 0) - (b.timestamp?.getTime() ?? 0))
+      .slice(-tail);
+  }
+
+  /**
+   * Launch options key of the existing container, or null when there is
+   * no container
+   */
+  private async getExistingLaunchKey(): Promise<string | null> {
+    try {
+      const { stdout } = await execAsync(
+        `docker inspect --format '{{index .Config.Labels "${LAUNCH_OPTIONS_LABEL}"}}' ${this.container.name}`
+      );
+      return stdout.trim();
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Wait for container to be ready
    */
@@ -171,4 +276,16 @@ export class PlaywrightMcpContainer {
   getInfo(): Container {
     return { ...this.container };
   }
-}
\ No newline at end of file
+}
+
+function launchOptionsKey(options: ContainerLaunchOptions): string {
+  return JSON.stringify({
+    browser: options.browser ?? null,
+    userAgent: options.userAgent ?? null,
+    timezone: options.timezone ?? null,
+  });
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
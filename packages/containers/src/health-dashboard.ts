@@ -1,6 +1,6 @@
 import { createLogger } from '@cinnamon-qa/logger';
 import { ContainerPoolManager } from './container-pool-manager';
-import { HealthMonitor, ContainerHealthStatus } from './health-monitor';
+import { HealthMonitor } from './health-monitor';
 
 export interface DashboardData {
   timestamp: Date;
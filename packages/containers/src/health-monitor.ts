@@ -4,7 +4,6 @@ import { EventEmitter } from 'events';
 import { RedisClient } from '@cinnamon-qa/queue';
 import { createLogger } from '@cinnamon-qa/logger';
 import { SimpleHealthChecker } from './health-checker';
-import { ContainerState } from './types';
 
 const execAsync = promisify(exec);
 
@@ -47,6 +46,9 @@ export interface MonitoringConfig {
   historyRetentionCount: number;
 }
 
+// Health state shared with processes that attach to the pool without monitoring it
+const HEALTH_KEY_PREFIX = 'container:health:';
+
 export class HealthMonitor extends EventEmitter {
   private readonly logger = createLogger({ context: 'HealthMonitor' });
   private healthChecker: SimpleHealthChecker;
@@ -177,6 +179,7 @@ export class HealthMonitor extends EventEmitter {
     );
 
     await Promise.allSettled(checkPromises);
+    await this.storeHealthStatus();
   }
 
   /**
@@ -325,6 +328,31 @@ export class HealthMonitor extends EventEmitter {
         this.logger.error('Failed to get stats for container', { containerName, error });
       }
     }
+
+    await this.storeHealthStatus();
+  }
+
+  /**
+   * Publish the current health status of all containers to Redis. Entries
+   * expire when monitoring stops, so stale state is not reported as current.
+   */
+  private async storeHealthStatus(): Promise<void> {
+    const ttlSeconds = Math.ceil((this.config.checkIntervalMs * 3) / 1000);
+
+    try {
+      for (const container of this.containers.values()) {
+        await this.redisClient.instance.set(
+          `${HEALTH_KEY_PREFIX}${container.containerId}`,
+          JSON.stringify(container),
+          'EX',
+          ttlSeconds
+        );
+      }
+    } catch (error) {
+      this.logger.warn('Failed to store container health status', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
   }
 
   /**
@@ -420,6 +448,25 @@ export class HealthMonitor extends EventEmitter {
     return container ? { ...container } : null;
   }
 
+  /**
+   * Get the health status of a container as last published to Redis by the
+   * monitoring process
+   */
+  async getStoredHealthStatus(containerId: string): Promise<ContainerHealthStatus | null> {
+    const data = await this.redisClient.instance.get(`${HEALTH_KEY_PREFIX}${containerId}`);
+    if (!data) {
+      return null;
+    }
+
+    const status = JSON.parse(data) as ContainerHealthStatus;
+    return {
+      ...status,
+      lastChecked: new Date(status.lastChecked),
+      resourceUsage: { ...status.resourceUsage, lastUpdated: new Date(status.resourceUsage.lastUpdated) },
+      healthHistory: status.healthHistory.map((result) => ({ ...result, timestamp: new Date(result.timestamp) })),
+    };
+  }
+
   /**
    * Get monitoring statistics
    */
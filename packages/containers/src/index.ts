@@ -5,6 +5,10 @@ export { PlaywrightMcpContainer } from './container';
 export { DockerInspector } from './docker-inspector';
 export { SimpleHealthChecker } from './health-checker';
 export { AllocationQueue } from './allocation-queue';
+export { HealthMonitor } from './health-monitor';
+export type { ContainerHealthStatus, ResourceUsage } from './health-monitor';
+export { ContainerResetManager } from './container-reset-manager';
+export type { ResetResult } from './container-reset-manager';
 
 // Types
 export * from './types';
@@ -1,7 +1,7 @@
 import { EventEmitter } from 'events';
 import { createLogger } from '@cinnamon-qa/logger';
 import { RedisClient } from '@cinnamon-qa/queue';
-import { Container, ContainerState } from './types';
+import { Container } from './types';
 
 export enum TestPriority {
   LOW = 'low',
@@ -93,11 +93,10 @@ export interface OptimizationRecommendation {
 
 export class ResourceManager extends EventEmitter {
   private readonly logger = createLogger({ context: 'ResourceManager' });
-  private redisClient: RedisClient;
   private config: ResourceConfig;
   private priorityQueues: Map<TestPriority, ResourceRequest[]> = new Map();
   private activeAllocations: Map<string, ResourceRequest> = new Map();
-  private metrics: ResourceMetrics;
+  private metrics!: ResourceMetrics;
   private isProcessingQueue = false;
   private queueProcessor?: NodeJS.Timeout;
   
@@ -118,7 +117,6 @@ export class ResourceManager extends EventEmitter {
 
   constructor(redisClient: RedisClient, config?: Partial<ResourceConfig>) {
     super();
-    this.redisClient = redisClient;
     this.config = {
       allocationStrategy: AllocationStrategy.PRIORITY,
       enablePriorityQueue: true,
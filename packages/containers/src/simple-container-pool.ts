@@ -87,14 +87,14 @@ export class SimpleContainerPool {
     );
     
     if (!isHealthy) {
-      this.logger.info('Container is unhealthy, attempting restart', { containerId: availableContainer.id });
+      this.logger.info('Container is unhealthy, attempting restart', { containerId: availableContainer.containerId });
       
       // Restart unhealthy container
-      const container = this.containers.get(availableContainer.id);
+      const container = this.containers.get(availableContainer.containerId);
       if (container) {
         try {
           await container.restart();
-          this.logger.info('Container restarted, checking health', { containerId: availableContainer.id });
+          this.logger.info('Container restarted, checking health', { containerId: availableContainer.containerId });
           
           // Wait a bit for container to fully start
           await new Promise(resolve => setTimeout(resolve, 2000));
@@ -106,22 +106,22 @@ export class SimpleContainerPool {
           );
           
           if (isHealthyAfterRestart) {
-            this.logger.info('Container is healthy after restart', { containerId: availableContainer.id });
-            await this.markAsAllocated(availableContainer.id, testRunId);
+            this.logger.info('Container is healthy after restart', { containerId: availableContainer.containerId });
+            await this.markAsAllocated(availableContainer.containerId, testRunId);
             container.allocate(testRunId);
             return container.getInfo();
           } else {
-            this.logger.info('Container still unhealthy after restart', { containerId: availableContainer.id });
+            this.logger.info('Container still unhealthy after restart', { containerId: availableContainer.containerId });
           }
         } catch (error) {
-          this.logger.error('Failed to restart container', { containerId: availableContainer.id, error });
+          this.logger.error('Failed to restart container', { containerId: availableContainer.containerId, error });
         }
       }
       
       // Try to find another available container (single attempt, no recursion)
       const availableContainers = [];
       for (const containerId of this.containers.keys()) {
-        if (containerId !== availableContainer.id) {
+        if (containerId !== availableContainer.containerId) {
           const state = await this.getContainerState(containerId);
           if (state && !state.allocated) {
             availableContainers.push(state);
@@ -159,9 +159,9 @@ export class SimpleContainerPool {
     }
 
     // Mark as allocated
-    await this.markAsAllocated(availableContainer.id, testRunId);
+    await this.markAsAllocated(availableContainer.containerId, testRunId);
     
-    const container = this.containers.get(availableContainer.id);
+    const container = this.containers.get(availableContainer.containerId);
     if (container) {
       container.allocate(testRunId);
       return container.getInfo();
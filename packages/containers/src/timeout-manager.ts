@@ -53,7 +53,7 @@ export class TimeoutManager extends EventEmitter {
   private activeSessions: Map<string, TimeoutSession> = new Map();
   private sessionTimers: Map<string, NodeJS.Timeout> = new Map();
   private warningTimers: Map<string, NodeJS.Timeout> = new Map();
-  private metrics: TimeoutMetrics;
+  private metrics!: TimeoutMetrics;
   private executionHistory: Array<{
     testRunId: string;
     executionTimeMs: number;
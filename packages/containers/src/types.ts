@@ -14,6 +14,14 @@ export enum ContainerStatus {
   RESTARTING = 'restarting',
 }
 
+// Browser settings the Playwright MCP server of a container is launched
+// with; unset values keep the defaults of the image
+export interface ContainerLaunchOptions {
+  browser?: string;
+  userAgent?: string;
+  timezone?: string;
+}
+
 export interface ContainerState {
   containerId: string;
   port: number;
@@ -23,6 +31,19 @@ export interface ContainerState {
   lastCheckedAt?: Date;
 }
 
+export interface DockerContainerDetails {
+  dockerId: string;
+  running: boolean;
+  createdAt: Date;
+  startedAt?: Date;
+}
+
+export interface ContainerLogEntry {
+  timestamp: Date | null;
+  stream: 'stdout' | 'stderr';
+  message: string;
+}
+
 export interface ContainerPoolConfig {
   containers: {
     id: string;
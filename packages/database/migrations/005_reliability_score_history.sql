@@ -0,0 +1,29 @@
+-- Migration: Reliability Score History
+-- Created: 2026-10-19
+-- Description: Reliability scores are computed by the application after each
+-- run (ReliabilityScoreService); every recomputation is kept per test case
+
+CREATE TABLE IF NOT EXISTS reliability_score_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+
+    -- Relations
+    test_case_id UUID NOT NULL REFERENCES test_cases(id) ON DELETE CASCADE,
+    test_run_id UUID REFERENCES test_runs(id) ON DELETE SET NULL,
+
+    -- Score and the inputs it was computed from
+    score DECIMAL(3,2) NOT NULL CHECK (score >= 0 AND score <= 1),
+    components JSONB DEFAULT '{}',
+    runs_considered INTEGER NOT NULL DEFAULT 0,
+
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    -- A run is scored once; recomputing for the same run replaces the entry
+    UNIQUE (test_case_id, test_run_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reliability_history_test_case
+    ON reliability_score_history(test_case_id, created_at DESC);
+
+-- The score is no longer maintained by a trigger on test_runs
+DROP TRIGGER IF EXISTS update_test_case_reliability_trigger ON test_runs;
+DROP FUNCTION IF EXISTS update_test_case_reliability();
@@ -0,0 +1,35 @@
+-- Migration: Test Schedules
+-- Created: 2026-10-19
+-- Description: Cron schedules per test case; each enabled schedule is
+-- materialized as a BullMQ job scheduler on the scheduled-tests queue
+
+CREATE TABLE IF NOT EXISTS test_schedules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+
+    -- Relations
+    test_case_id UUID NOT NULL REFERENCES test_cases(id) ON DELETE CASCADE,
+
+    -- Schedule
+    name VARCHAR(255),
+    cron_expression VARCHAR(255) NOT NULL,
+    timezone VARCHAR(100) NOT NULL DEFAULT 'UTC',
+    enabled BOOLEAN NOT NULL DEFAULT true,
+
+    -- TestConfig values overriding the test case config for scheduled runs
+    config_overrides JSONB DEFAULT '{}',
+
+    -- Last materialized run
+    last_run_at TIMESTAMPTZ,
+    last_run_id UUID REFERENCES test_runs(id) ON DELETE SET NULL,
+
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_test_schedules_test_case_id ON test_schedules(test_case_id);
+CREATE INDEX IF NOT EXISTS idx_test_schedules_enabled ON test_schedules(enabled) WHERE enabled = true;
+
+DROP TRIGGER IF EXISTS update_test_schedules_updated_at ON test_schedules;
+CREATE TRIGGER update_test_schedules_updated_at
+    BEFORE UPDATE ON test_schedules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
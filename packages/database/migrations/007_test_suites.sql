@@ -0,0 +1,60 @@
+-- Migration: Test Suites
+-- Created: 2026-10-19
+-- Description: Suites group test cases into one batch; a suite run fans out
+-- one test run per case, at most `concurrency` of them queued at a time
+
+CREATE TABLE IF NOT EXISTS test_suites (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+
+    -- Ordered test cases of the suite
+    test_case_ids UUID[] NOT NULL DEFAULT '{}',
+
+    -- TestConfig values overriding the config of every case in the suite
+    config_overrides JSONB DEFAULT '{}',
+    concurrency INTEGER NOT NULL DEFAULT 1 CHECK (concurrency >= 1),
+
+    tags TEXT[] DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS test_suite_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+
+    -- Relations
+    suite_id UUID NOT NULL REFERENCES test_suites(id) ON DELETE CASCADE,
+
+    -- Execution status
+    status VARCHAR(50) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'running', 'completed', 'failed', 'adapted', 'cancelled')),
+
+    -- Suite settings at the time the run started
+    test_case_ids UUID[] NOT NULL DEFAULT '{}',
+    config_overrides JSONB DEFAULT '{}',
+    concurrency INTEGER NOT NULL DEFAULT 1,
+
+    -- Position of the next test case to dispatch
+    next_case_index INTEGER NOT NULL DEFAULT 0,
+
+    -- Suite-level summary, written when the last test run finishes
+    summary JSONB,
+
+    started_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE test_runs
+    ADD COLUMN IF NOT EXISTS suite_run_id UUID REFERENCES test_suite_runs(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_test_suites_tags ON test_suites USING GIN (tags);
+CREATE INDEX IF NOT EXISTS idx_test_suite_runs_suite_id ON test_suite_runs(suite_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_test_runs_suite_run_id ON test_runs(suite_run_id) WHERE suite_run_id IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_test_suites_updated_at ON test_suites;
+CREATE TRIGGER update_test_suites_updated_at
+    BEFORE UPDATE ON test_suites
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,25 @@
+-- Migration: Device Matrix Runs
+-- Created: 2026-10-19
+-- Description: A matrix run launches one test case once per device profile;
+-- the sibling test runs point back to it through matrix_run_id
+
+CREATE TABLE IF NOT EXISTS test_matrix_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+
+    -- Relations
+    test_case_id UUID NOT NULL REFERENCES test_cases(id) ON DELETE CASCADE,
+
+    -- Device profiles the case is launched on, one test run each
+    profiles JSONB NOT NULL DEFAULT '[]',
+
+    -- TestConfig values overriding the case config on every device
+    config_overrides JSONB DEFAULT '{}',
+
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE test_runs
+    ADD COLUMN IF NOT EXISTS matrix_run_id UUID REFERENCES test_matrix_runs(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_test_matrix_runs_test_case_id ON test_matrix_runs(test_case_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_test_runs_matrix_run_id ON test_runs(matrix_run_id) WHERE matrix_run_id IS NOT NULL;
@@ -0,0 +1,9 @@
+-- Migration: Test Case File Keys
+-- Created: 2026-10-19
+-- Description: Test cases kept in YAML/JSON files are synced by a stable key
+-- chosen in the file, independent of the database id
+
+ALTER TABLE test_cases
+    ADD COLUMN IF NOT EXISTS file_key VARCHAR(100);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_test_cases_file_key ON test_cases(file_key) WHERE file_key IS NOT NULL;
@@ -0,0 +1,24 @@
+-- Migration: AI Analysis Retention
+-- Created: 2026-10-19
+-- Description: Deletes analyses older than the retention threshold in one
+-- statement while keeping the latest analysis of each preserved type per test
+-- case, which test execution reads no matter how old it is
+
+CREATE OR REPLACE FUNCTION delete_old_ai_analysis(older_than TIMESTAMPTZ, preserved_types TEXT[])
+RETURNS INTEGER AS $$
+DECLARE
+    deleted_count INTEGER;
+BEGIN
+    DELETE FROM ai_analysis
+    WHERE created_at < older_than
+    AND id NOT IN (
+        SELECT DISTINCT ON (test_case_id, analysis_type) id
+        FROM ai_analysis
+        WHERE analysis_type = ANY(preserved_types)
+        ORDER BY test_case_id, analysis_type, created_at DESC
+    );
+
+    GET DIAGNOSTICS deleted_count = ROW_COUNT;
+    RETURN deleted_count;
+END;
+$$ language 'plpgsql';
@@ -304,6 +304,77 @@ CREATE TABLE storage_references (
     UNIQUE(bucket_name, file_path)
 );
 
+-- Reliability score recomputed after each run
+CREATE TABLE reliability_score_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    test_case_id UUID NOT NULL REFERENCES test_cases(id) ON DELETE CASCADE,
+    test_run_id UUID REFERENCES test_runs(id) ON DELETE SET NULL,
+    score DECIMAL(3,2) NOT NULL CHECK (score >= 0 AND score <= 1),
+    components JSONB DEFAULT '{}',
+    runs_considered INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(test_case_id, test_run_id)
+);
+
+-- Cron schedules per test case (materialized as BullMQ job schedulers)
+CREATE TABLE test_schedules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    test_case_id UUID NOT NULL REFERENCES test_cases(id) ON DELETE CASCADE,
+    name VARCHAR(255),
+    cron_expression VARCHAR(255) NOT NULL,
+    timezone VARCHAR(100) NOT NULL DEFAULT 'UTC',
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    config_overrides JSONB DEFAULT '{}',
+    last_run_at TIMESTAMPTZ,
+    last_run_id UUID REFERENCES test_runs(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Test suites: ordered test cases run as one batch
+CREATE TABLE test_suites (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    test_case_ids UUID[] NOT NULL DEFAULT '{}',
+    config_overrides JSONB DEFAULT '{}',
+    concurrency INTEGER NOT NULL DEFAULT 1 CHECK (concurrency >= 1),
+    tags TEXT[] DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE test_suite_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    suite_id UUID NOT NULL REFERENCES test_suites(id) ON DELETE CASCADE,
+    status VARCHAR(50) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'running', 'completed', 'failed', 'adapted', 'cancelled')),
+    test_case_ids UUID[] NOT NULL DEFAULT '{}',
+    config_overrides JSONB DEFAULT '{}',
+    concurrency INTEGER NOT NULL DEFAULT 1,
+    next_case_index INTEGER NOT NULL DEFAULT 0,
+    summary JSONB,
+    started_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE test_runs ADD COLUMN suite_run_id UUID REFERENCES test_suite_runs(id) ON DELETE SET NULL;
+
+-- Device matrix runs: one test case launched once per device profile
+CREATE TABLE test_matrix_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    test_case_id UUID NOT NULL REFERENCES test_cases(id) ON DELETE CASCADE,
+    profiles JSONB NOT NULL DEFAULT '[]',
+    config_overrides JSONB DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE test_runs ADD COLUMN matrix_run_id UUID REFERENCES test_matrix_runs(id) ON DELETE SET NULL;
+
+-- Stable key of test cases synced from YAML/JSON files
+ALTER TABLE test_cases ADD COLUMN file_key VARCHAR(100);
+
 -- =====================================================
 -- Indexes for Performance
 -- =====================================================
@@ -357,6 +428,25 @@ CREATE INDEX idx_storage_refs_expires_at ON storage_references(expires_at) WHERE
 CREATE INDEX idx_storage_refs_file_type ON storage_references(file_type);
 CREATE INDEX idx_storage_refs_archived ON storage_references(is_archived, archived_at) WHERE is_archived = true;
 
+-- Reliability history indexes
+CREATE INDEX idx_reliability_history_test_case ON reliability_score_history(test_case_id, created_at DESC);
+
+-- Test schedule indexes
+CREATE INDEX idx_test_schedules_test_case_id ON test_schedules(test_case_id);
+CREATE INDEX idx_test_schedules_enabled ON test_schedules(enabled) WHERE enabled = true;
+
+-- Test suite indexes
+CREATE INDEX idx_test_suites_tags ON test_suites USING GIN (tags);
+CREATE INDEX idx_test_suite_runs_suite_id ON test_suite_runs(suite_id, created_at DESC);
+CREATE INDEX idx_test_runs_suite_run_id ON test_runs(suite_run_id) WHERE suite_run_id IS NOT NULL;
+
+-- Device matrix run indexes
+CREATE INDEX idx_test_matrix_runs_test_case_id ON test_matrix_runs(test_case_id, created_at DESC);
+CREATE INDEX idx_test_runs_matrix_run_id ON test_runs(matrix_run_id) WHERE matrix_run_id IS NOT NULL;
+
+-- Test case file key index
+CREATE UNIQUE INDEX idx_test_cases_file_key ON test_cases(file_key) WHERE file_key IS NOT NULL;
+
 -- =====================================================
 -- Migration 004: Functions and Triggers
 -- =====================================================
@@ -374,6 +464,12 @@ $$ language 'plpgsql';
 CREATE TRIGGER update_test_cases_updated_at BEFORE UPDATE ON test_cases
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_test_schedules_updated_at BEFORE UPDATE ON test_schedules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_test_suites_updated_at BEFORE UPDATE ON test_suites
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 -- Function: Calculate test run duration and update step counts
 CREATE OR REPLACE FUNCTION update_test_run_metrics()
 RETURNS TRIGGER AS $$
@@ -410,54 +506,8 @@ CREATE TRIGGER update_test_run_metrics_trigger
     BEFORE INSERT OR UPDATE ON test_runs
     FOR EACH ROW EXECUTE FUNCTION update_test_run_metrics();
 
--- Function: Update test case reliability score based on run history
-CREATE OR REPLACE FUNCTION update_test_case_reliability()
-RETURNS TRIGGER AS $$
-DECLARE
-    success_rate DECIMAL(3,2);
-    adaptation_rate DECIMAL(3,2);
-    avg_recovery_attempts DECIMAL(5,2);
-BEGIN
-    -- Only update on test run completion
-    IF NEW.status IN ('completed', 'failed', 'adapted') AND OLD.status = 'running' THEN
-        -- Calculate metrics from recent runs (last 10)
-        WITH recent_runs AS (
-            SELECT 
-                status,
-                adaptation_count,
-                recovery_attempts,
-                total_steps,
-                completed_steps
-            FROM test_runs
-            WHERE test_case_id = NEW.test_case_id
-            ORDER BY created_at DESC
-            LIMIT 10
-        )
-        SELECT 
-            COALESCE(AVG(CASE WHEN status = 'completed' THEN 1.0 ELSE 0.0 END), 0),
-            COALESCE(AVG(CASE WHEN adaptation_count > 0 THEN adaptation_count::DECIMAL / NULLIF(total_steps, 0) ELSE 0 END), 0),
-            COALESCE(AVG(recovery_attempts), 0)
-        INTO success_rate, adaptation_rate, avg_recovery_attempts
-        FROM recent_runs;
-        
-        -- Calculate reliability score (weighted formula)
-        UPDATE test_cases
-        SET reliability_score = LEAST(1.0, GREATEST(0.0, 
-            (success_rate * 0.5) + 
-            ((1.0 - LEAST(adaptation_rate, 1.0)) * 0.3) + 
-            ((1.0 - LEAST(avg_recovery_attempts / 10.0, 1.0)) * 0.2)
-        ))
-        WHERE id = NEW.test_case_id;
-    END IF;
-    
-    RETURN NEW;
-END;
-$$ language 'plpgsql';
-
--- Trigger: Update test case reliability on run completion
-CREATE TRIGGER update_test_case_reliability_trigger
-    AFTER UPDATE ON test_runs
-    FOR EACH ROW EXECUTE FUNCTION update_test_case_reliability();
+-- Test case reliability scores are computed by the application after each
+-- run (ReliabilityScoreService) and kept in reliability_score_history
 
 -- Function: Auto-generate step adaptation records
 CREATE OR REPLACE FUNCTION record_step_adaptation()
@@ -593,6 +643,26 @@ BEGIN
 END;
 $$ language 'plpgsql';
 
+-- Function: Delete old AI analyses, keeping the latest of each preserved type per test case
+CREATE OR REPLACE FUNCTION delete_old_ai_analysis(older_than TIMESTAMPTZ, preserved_types TEXT[])
+RETURNS INTEGER AS $$
+DECLARE
+    deleted_count INTEGER;
+BEGIN
+    DELETE FROM ai_analysis
+    WHERE created_at < older_than
+    AND id NOT IN (
+        SELECT DISTINCT ON (test_case_id, analysis_type) id
+        FROM ai_analysis
+        WHERE analysis_type = ANY(preserved_types)
+        ORDER BY test_case_id, analysis_type, created_at DESC
+    );
+
+    GET DIAGNOSTICS deleted_count = ROW_COUNT;
+    RETURN deleted_count;
+END;
+$$ language 'plpgsql';
+
 -- =====================================================
 -- Views for Reporting and Analytics
 -- =====================================================
@@ -682,7 +752,13 @@ INSERT INTO schema_migrations (id, name) VALUES
     ('001_initial_schema', 'Initial schema setup'),
     ('002_functions_and_triggers', 'Basic functions and triggers'),
     ('003_adaptive_schema_redesign', 'Complete adaptive testing schema'),
-    ('004_adaptive_functions_triggers', 'Advanced functions and triggers for adaptive testing')
+    ('004_adaptive_functions_triggers', 'Advanced functions and triggers for adaptive testing'),
+    ('005_reliability_score_history', 'Reliability score history computed by the application'),
+    ('006_test_schedules', 'Cron schedules per test case'),
+    ('007_test_suites', 'Test suites and suite runs'),
+    ('008_test_matrix_runs', 'Device matrix runs'),
+    ('009_test_case_file_keys', 'Stable keys of test cases synced from files'),
+    ('010_ai_analysis_retention', 'Delete old AI analyses except the latest per test case')
 ON CONFLICT (id) DO NOTHING;
 
 -- =====================================================
@@ -14,5 +14,14 @@ export * from './types';
 // Repository exports
 export * from './repositories';
 
+// Artifact storage exports
+export * from './storage';
+
+// Reliability score exports
+export * from './reliability';
+
+// Report exports
+export * from './reports';
+
 // Version info
 export const version = '1.0.0';
\ No newline at end of file
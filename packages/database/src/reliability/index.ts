@@ -0,0 +1,7 @@
+/**
+ * Reliability Index
+ */
+
+export { ReliabilityScoreService, createReliabilityScoreService } from './reliabilityScore.service';
+export { calculateReliabilityScore, DEFAULT_RELIABILITY_MODEL } from './reliabilityModel';
+export type { ReliabilityModelOptions, ReliabilityScore } from './reliabilityModel';
@@ -0,0 +1,92 @@
+import { createLogger } from '@cinnamon-qa/logger';
+import type { TestRun } from '../types/database';
+import { calculateReliabilityScore, DEFAULT_RELIABILITY_MODEL } from './reliabilityModel';
+
+const logger = createLogger({ context: 'ReliabilityScoreTest' });
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function run(overrides: Partial<TestRun> & { daysAgo?: number } = {}): TestRun {
+  const { daysAgo = 0, ...fields } = overrides;
+  const finishedAt = new Date(NOW.getTime() - daysAgo * DAY_MS).toISOString();
+
+  return {
+    id: `run-${Math.random().toString(36).slice(2)}`,
+    test_case_id: 'case-1',
+    status: 'completed',
+    total_steps: 4,
+    adaptation_count: 0,
+    recovery_attempts: 0,
+    created_at: finishedAt,
+    completed_at: finishedAt,
+    ...fields,
+  } as TestRun;
+}
+
+function assert(condition: unknown, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+/**
+ * Test the reliability score model
+ * Run with: npx tsx packages/database/src/reliability/reliabilityModel.test.ts
+ */
+function testReliabilityScore() {
+  logger.info('🧪 Testing calculateReliabilityScore...');
+
+  try {
+    // Test 1: no finished runs score 0; cancelled and unfinished runs are ignored
+    const empty = calculateReliabilityScore([run({ status: 'cancelled' }), run({ status: 'running' })], undefined, NOW);
+    assert(empty.score === 0 && empty.runsConsidered === 0, 'no finished runs');
+    logger.info('✅ unfinished runs ignored');
+
+    // Test 2: clean passing runs score 1 (pass + adaptation + recovery weights)
+    const clean = calculateReliabilityScore([run(), run({ status: 'adapted', daysAgo: 3 })], undefined, NOW);
+    assert(clean.score === 1 && clean.runsConsidered === 2, 'clean runs score 1');
+    logger.info('✅ clean runs');
+
+    // Test 3: a run one half-life old counts half as much as a run finished now
+    const decayed = calculateReliabilityScore([
+      run({ status: 'failed' }),
+      run({ daysAgo: DEFAULT_RELIABILITY_MODEL.halfLifeDays }),
+    ], undefined, NOW);
+    assert(decayed.components.passRate === 0.33, `pass rate is weighted by age (${decayed.components.passRate})`);
+    assert(decayed.score === 0.67, `0.5 * 1/3 + 0.3 + 0.2 (${decayed.score})`);
+    logger.info('✅ age decay');
+
+    // Test 4: adaptations and recovery attempts lower the score by their weights
+    const adapted = calculateReliabilityScore([run({ adaptation_count: 2 })], undefined, NOW);
+    assert(adapted.components.adaptationRate === 0.5 && adapted.score === 0.85, `adaptation weight (${adapted.score})`);
+
+    const recovered = calculateReliabilityScore([run({ recovery_attempts: 5 })], undefined, NOW);
+    assert(recovered.components.recoveryRate === 0.5 && recovered.score === 0.9, `recovery weight (${recovered.score})`);
+
+    const saturated = calculateReliabilityScore([run({ adaptation_count: 9, recovery_attempts: 50 })], undefined, NOW);
+    assert(saturated.score === 0.5, `adaptation and recovery penalties are capped (${saturated.score})`);
+    logger.info('✅ component weights');
+
+    // Test 5: a case that never passes scores 0
+    const failing = calculateReliabilityScore([run({ status: 'failed' }), run({ status: 'failed', daysAgo: 1 })], undefined, NOW);
+    assert(failing.score === 0, 'never passing case scores 0');
+    logger.info('✅ failing case');
+
+    // Test 6: only the latest windowSize runs are considered
+    const windowed = calculateReliabilityScore(
+      [run({ status: 'failed', daysAgo: 10 }), run({ daysAgo: 1 }), run()],
+      { ...DEFAULT_RELIABILITY_MODEL, windowSize: 2 },
+      NOW
+    );
+    assert(windowed.runsConsidered === 2 && windowed.score === 1, 'oldest run falls out of the window');
+    logger.info('✅ window size');
+
+    logger.info('All reliability score tests passed!');
+  } catch (error) {
+    logger.error('❌ Test failed:', error);
+    process.exitCode = 1;
+  }
+}
+
+testReliabilityScore();
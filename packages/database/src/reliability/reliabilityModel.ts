@@ -0,0 +1,108 @@
+/**
+ * Reliability Model
+ *
+ * Pure scoring of a test case's recent run history, kept apart from the
+ * service so it can be used and tested without a database client.
+ */
+
+import type { ReliabilityComponents, TestRun } from '../types/database';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ReliabilityModelOptions {
+  // Latest finished runs considered
+  windowSize: number;
+  // A run this many days old counts half as much as a run finished now
+  halfLifeDays: number;
+  // Recovery attempts at which a run's recovery penalty is at its maximum
+  maxRecoveryAttempts: number;
+  weights: {
+    pass: number;
+    adaptation: number;
+    recovery: number;
+  };
+}
+
+// Weights follow the original update_test_case_reliability trigger
+export const DEFAULT_RELIABILITY_MODEL: ReliabilityModelOptions = {
+  windowSize: 20,
+  halfLifeDays: 14,
+  maxRecoveryAttempts: 10,
+  weights: {
+    pass: 0.5,
+    adaptation: 0.3,
+    recovery: 0.2,
+  },
+};
+
+export interface ReliabilityScore {
+  score: number;
+  runsConsidered: number;
+  components: Omit<ReliabilityComponents, 'totalRuns'>;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Score the given runs. Cancelled and unfinished runs are ignored; without
+ * finished runs the score is 0.
+ */
+export function calculateReliabilityScore(
+  runs: TestRun[],
+  options: ReliabilityModelOptions = DEFAULT_RELIABILITY_MODEL,
+  now: Date = new Date()
+): ReliabilityScore {
+  const finishedAt = (run: TestRun) => new Date(run.completed_at ?? run.created_at).getTime();
+  const finished = runs
+    .filter((run) => run.status === 'completed' || run.status === 'failed' || run.status === 'adapted')
+    .sort((a, b) => finishedAt(b) - finishedAt(a))
+    .slice(0, options.windowSize);
+
+  let totalWeight = 0;
+  let passed = 0;
+  let adapted = 0;
+  let recovered = 0;
+
+  for (const run of finished) {
+    const ageDays = Math.max(0, now.getTime() - finishedAt(run)) / DAY_MS;
+    const weight = Math.pow(0.5, ageDays / options.halfLifeDays);
+    const adaptationShare = run.total_steps > 0
+      ? Math.min(1, (run.adaptation_count ?? 0) / run.total_steps)
+      : (run.adaptation_count ?? 0) > 0 ? 1 : 0;
+
+    totalWeight += weight;
+    passed += run.status === 'failed' ? 0 : weight;
+    adapted += adaptationShare * weight;
+    recovered += Math.min(1, (run.recovery_attempts ?? 0) / options.maxRecoveryAttempts) * weight;
+  }
+
+  if (totalWeight === 0) {
+    return {
+      score: 0,
+      runsConsidered: 0,
+      components: { passRate: 0, adaptationRate: 0, recoveryRate: 0, halfLifeDays: options.halfLifeDays },
+    };
+  }
+
+  const passRate = passed / totalWeight;
+  const adaptationRate = adapted / totalWeight;
+  const recoveryRate = recovered / totalWeight;
+  const { weights } = options;
+  const score = weights.pass * passRate
+    + weights.adaptation * (1 - adaptationRate)
+    + weights.recovery * (1 - recoveryRate);
+
+  return {
+    // A case that never passes scores 0 however clean its failures were
+    score: passRate === 0 ? 0 : round(Math.max(0, Math.min(1, score))),
+    runsConsidered: finished.length,
+    components: {
+      passRate: round(passRate),
+      adaptationRate: round(adaptationRate),
+      recoveryRate: round(recoveryRate),
+      halfLifeDays: options.halfLifeDays,
+    },
+  };
+}
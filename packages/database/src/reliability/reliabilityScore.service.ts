@@ -0,0 +1,60 @@
+/**
+ * Reliability Score Service
+ *
+ * Scores a test case from its recent run history: the pass rate, how much
+ * of each run needed adaptations and how many recovery attempts it took,
+ * each weighted by the age of the run. Scores range from 0 to 1 (the
+ * test_cases.reliability_score column) and every recomputation is kept in
+ * reliability_score_history.
+ */
+
+import { DatabaseClient, db } from '../client';
+import { createRepositories, type Repositories } from '../repositories';
+import type { ReliabilityScoreHistory } from '../types/database';
+import { calculateReliabilityScore, DEFAULT_RELIABILITY_MODEL, type ReliabilityModelOptions } from './reliabilityModel';
+
+type ReliabilityRepositories = Pick<Repositories, 'testCase' | 'testRun' | 'reliabilityHistory'>;
+
+export class ReliabilityScoreService {
+  constructor(
+    private repositories: ReliabilityRepositories = createRepositories(),
+    private options: ReliabilityModelOptions = DEFAULT_RELIABILITY_MODEL
+  ) {}
+
+  /**
+   * Recompute the score of a test case, store it on the test case and record
+   * it in the history (once per test run, when one is given)
+   */
+  async recompute(testCaseId: string, testRunId?: string): Promise<ReliabilityScoreHistory> {
+    const summary = await this.repositories.testCase.getExecutionSummary(testCaseId);
+    const totalRuns = Number(summary?.total_runs ?? 0);
+
+    const result = totalRuns > 0
+      ? calculateReliabilityScore(
+          await this.repositories.testRun.findRecentFinishedByTestCaseId(testCaseId, this.options.windowSize),
+          this.options
+        )
+      : calculateReliabilityScore([], this.options);
+
+    await this.repositories.testCase.updateReliabilityScore(testCaseId, result.score);
+
+    return this.repositories.reliabilityHistory.record({
+      test_case_id: testCaseId,
+      test_run_id: testRunId ?? null,
+      score: result.score,
+      runs_considered: result.runsConsidered,
+      components: { ...result.components, totalRuns },
+    });
+  }
+
+  /**
+   * Score history of a test case, most recent first
+   */
+  async getHistory(testCaseId: string, options?: { limit?: number; since?: string }): Promise<ReliabilityScoreHistory[]> {
+    return this.repositories.reliabilityHistory.findByTestCaseId(testCaseId, options);
+  }
+}
+
+export function createReliabilityScoreService(client: DatabaseClient = db): ReliabilityScoreService {
+  return new ReliabilityScoreService(createRepositories(client));
+}
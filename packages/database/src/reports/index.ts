@@ -0,0 +1,22 @@
+/**
+ * Reports Index
+ */
+
+export {
+  TestReportService,
+  createTestReportService,
+  REPORT_FORMATS,
+  REPORT_SCHEMA_VERSION,
+  REPORT_URL_TTL_SECONDS,
+} from './testReport.service';
+export type {
+  GeneratedReport,
+  ReportDownload,
+  ReportFormat,
+  ReportSummary,
+  ReportTarget,
+  RunReport,
+  StepReport,
+  TestReport,
+} from './testReport.service';
+export { renderHtmlReport, renderJUnitReport, renderJsonReport } from './reportRenderers';
@@ -0,0 +1,151 @@
+import { createLogger } from '@cinnamon-qa/logger';
+import { renderHtmlReport, renderJsonReport, renderJUnitReport } from './reportRenderers';
+import type { RunReport, StepReport, TestReport } from './testReport.service';
+
+const logger = createLogger({ context: 'ReportRenderersTest' });
+
+function assert(condition: unknown, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function step(stepNumber: number, fields: Partial<StepReport> = {}): StepReport {
+  return {
+    stepId: `step-${stepNumber}`,
+    stepNumber,
+    action: 'click',
+    target: { selector: `#button-${stepNumber}` },
+    inputData: {},
+    status: 'success',
+    startedAt: '2026-10-01T10:00:00.000Z',
+    completedAt: '2026-10-01T10:00:01.000Z',
+    durationMs: 1000,
+    error: null,
+    adaptations: [],
+    recoveryAttempts: [],
+    screenshots: [],
+    ...fields,
+  };
+}
+
+function run(fields: Partial<RunReport> = {}): RunReport {
+  return {
+    testRunId: 'run-1',
+    testCaseId: 'case-1',
+    testCaseName: 'Checkout <fast> & "safe"',
+    url: 'https://example.com/shop',
+    status: 'failed',
+    startedAt: '2026-10-01T10:00:00.000Z',
+    completedAt: '2026-10-01T10:00:05.000Z',
+    durationMs: 5000,
+    errorSummary: null,
+    environment: { browser: 'chrome', viewport: { width: 1280, height: 720 }, timezone: 'UTC' },
+    summary: { total: 3, passed: 1, failed: 1, adapted: 1, cancelled: 0, skipped: 0 },
+    steps: [
+      step(1),
+      step(2, {
+        status: 'adapted',
+        adaptations: [{
+          reason: 'Selector not found',
+          originalAction: { type: 'click', selector: '#buy' },
+          adaptedAction: { type: 'click', selector: 'button "Buy now"' },
+          confidence: 0.9,
+          timestamp: '2026-10-01T10:00:02.000Z',
+          source: 'snapshot',
+        }],
+        screenshots: [{
+          storageReferenceId: 'ref-1',
+          bucket: 'test-screenshots',
+          filePath: 'run-1/step_002.png',
+          mimeType: 'image/png',
+          dataUrl: 'data:image/png;base64,cG5n',
+        }],
+      }),
+      step(3, { status: 'failed', error: { type: 'Timeout', message: 'Waited\u0000 too long\u001b[0m\tfor #pay' } }),
+    ],
+    ...fields,
+  };
+}
+
+function report(runs: RunReport[]): TestReport {
+  return {
+    schemaVersion: 1,
+    kind: 'test_run',
+    id: 'run-1',
+    name: 'Checkout <fast> & "safe"',
+    status: 'failed',
+    generatedAt: '2026-10-01T10:01:00.000Z',
+    startedAt: '2026-10-01T10:00:00.000Z',
+    completedAt: '2026-10-01T10:00:05.000Z',
+    durationMs: 5000,
+    summary: { total: 3, passed: 1, failed: 1, adapted: 1, cancelled: 0, skipped: 0 },
+    runs,
+  };
+}
+
+/**
+ * Test the JUnit, JSON and HTML report renderers
+ * Run with: npx tsx packages/database/src/reports/reportRenderers.test.ts
+ */
+function testReportRenderers() {
+  logger.info('🧪 Testing report renderers...');
+
+  try {
+    // Test 1: JUnit has one case per step with failures and adaptations
+    const junit = renderJUnitReport(report([run()]));
+    assert(junit.startsWith('<?xml version="1.0" encoding="UTF-8"?>'), 'XML declaration');
+    assert(junit.includes('tests="3" failures="1" errors="0" skipped="0"'), 'totals');
+    assert(junit.includes('name="Checkout &lt;fast&gt; &amp; &quot;safe&quot;"'), 'attributes are escaped');
+    assert(junit.includes('<failure message="Waited too long[0m\tfor #pay" type="Timeout">'), 'failure of the step');
+    assert(junit.includes('Adapted: click #buy -&gt; click button &quot;Buy now&quot;'), 'adaptation in system-out');
+    logger.info('✅ JUnit steps');
+
+    // Test 2: control characters not allowed in XML 1.0 are dropped, tabs are kept
+    assert(!junit.includes('\u0000') && !junit.includes('\u001b'), 'no invalid XML characters');
+    assert(junit.includes('\t'), 'tab kept');
+    logger.info('✅ Invalid XML characters');
+
+    // Test 3: a run without steps is a single case
+    const cancelled = renderJUnitReport(report([run({ status: 'cancelled', steps: [] })]));
+    assert(cancelled.includes('<testcase classname="Checkout &lt;fast&gt; &amp; &quot;safe&quot;" name="Test run"'), 'run case');
+    assert(cancelled.includes('<skipped message="cancelled"/>'), 'cancelled run skipped');
+    logger.info('✅ Runs without steps');
+
+    // Test 4: JSON is the report as is
+    const parsed = JSON.parse(renderJsonReport(report([run()]))) as TestReport;
+    assert(parsed.schemaVersion === 1 && parsed.runs[0].steps.length === 3, 'JSON round trip');
+    logger.info('✅ JSON');
+
+    // Test 5: HTML is self-contained, escaped and shows adaptations and inlined screenshots
+    const html = renderHtmlReport(report([run()]));
+    assert(!html.includes('<script'), 'no scripts');
+    assert(html.includes('<h1>Checkout &lt;fast&gt; &amp; &quot;safe&quot;'), 'title escaped');
+    assert(html.includes('<del>#buy</del>') && html.includes('<ins>button &quot;Buy now&quot;</ins>'), 'adaptation diff');
+    assert(html.includes('<img src="data:image/png;base64,cG5n" alt="Step 2 screenshot"'), 'inlined screenshot');
+    assert(html.includes('chrome · 1280x720 · UTC'), 'environment');
+    logger.info('✅ HTML');
+
+    // Test 6: a report over several runs has a <testsuite> per run and counts test runs
+    const runs: TestReport = {
+      ...report([run(), run({ testRunId: 'run-2', status: 'completed', steps: [step(1)] })]),
+      kind: 'test_runs',
+      id: 'run-1,run-2',
+      name: 'Cinnamon-QA',
+      summary: { total: 2, passed: 1, failed: 1, adapted: 0, cancelled: 0, skipped: 0 },
+    };
+    const combined = renderJUnitReport(runs);
+    assert(combined.includes('<testsuites name="Cinnamon-QA" tests="4" failures="1"'), 'totals over the runs');
+    assert(combined.match(/<testsuite /g)?.length === 2, 'a suite per run');
+    assert(renderHtmlReport(runs).includes('Test runs run-1,run-2'), 'HTML names the runs');
+    assert(renderHtmlReport(runs).includes('<strong>2</strong> test runs'), 'HTML counts test runs');
+    logger.info('✅ Several runs');
+
+    logger.info('All report renderer tests passed!');
+  } catch (error) {
+    logger.error('❌ Test failed:', error);
+    process.exitCode = 1;
+  }
+}
+
+testReportRenderers();
@@ -0,0 +1,322 @@
+/**
+ * Report renderers: JUnit XML for CI, the JSON report schema as is, and a
+ * self-contained HTML page (inline styles and screenshots, no scripts).
+ */
+
+import type { StepAdaptation } from '../types/database';
+import type { RunReport, StepReport, TestReport } from './testReport.service';
+
+export function renderJsonReport(report: TestReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+/**
+ * One <testsuite> per test run and one <testcase> per step. A run that
+ * failed before running any step is reported as a single failed case.
+ */
+export function renderJUnitReport(report: TestReport): string {
+  const suites = report.runs.map(renderJUnitSuite);
+  const totals = report.runs.reduce(
+    (sum, run) => {
+      const counts = junitCounts(run);
+      return {
+        tests: sum.tests + counts.tests,
+        failures: sum.failures + counts.failures,
+        skipped: sum.skipped + counts.skipped,
+      };
+    },
+    { tests: 0, failures: 0, skipped: 0 }
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites ${attributes({
+      name: report.name,
+      tests: totals.tests,
+      failures: totals.failures,
+      errors: 0,
+      skipped: totals.skipped,
+      time: seconds(report.durationMs),
+    })}>`,
+    ...suites,
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+function renderJUnitSuite(run: RunReport): string {
+  const counts = junitCounts(run);
+  const properties = [
+    ['testRunId', run.testRunId],
+    ['testCaseId', run.testCaseId],
+    ['status', run.status],
+    ['url', run.url],
+    ['browser', run.environment?.browser],
+    ['device', run.environment?.device],
+  ].filter((entry): entry is [string, string] => !!entry[1]);
+
+  const cases = run.steps.length > 0
+    ? run.steps.map((step) => renderJUnitCase(run, step))
+    : [renderJUnitRunCase(run)];
+
+  return [
+    `  <testsuite ${attributes({
+      name: run.testCaseName,
+      id: run.testRunId,
+      tests: counts.tests,
+      failures: counts.failures,
+      errors: 0,
+      skipped: counts.skipped,
+      time: seconds(run.durationMs),
+      timestamp: run.startedAt ?? undefined,
+    })}>`,
+    '    <properties>',
+    ...properties.map(([name, value]) => `      <property ${attributes({ name, value })}/>`),
+    '    </properties>',
+    ...cases,
+    '  </testsuite>',
+  ].join('\n');
+}
+
+function renderJUnitCase(run: RunReport, step: StepReport): string {
+  const body: string[] = [];
+
+  if (step.status === 'failed') {
+    const message = step.error?.message ?? 'Step failed';
+    body.push(`      <failure ${attributes({ message, type: step.error?.type ?? 'StepFailed' })}>${escapeXml(message)}</failure>`);
+  } else if (step.status === 'skipped' || step.status === 'pending') {
+    body.push('      <skipped/>');
+  }
+
+  const notes = [
+    ...step.adaptations.map((adaptation) => `Adapted: ${describeAdaptation(adaptation)}`),
+    ...step.recoveryAttempts.map((attempt) =>
+      `Recovery (${attempt.strategy}): ${attempt.success ? 'succeeded' : 'failed'} - ${attempt.reason}`
+    ),
+  ];
+  if (notes.length > 0) {
+    body.push(`      <system-out>${escapeXml(notes.join('\n'))}</system-out>`);
+  }
+
+  const open = `    <testcase ${attributes({
+    classname: run.testCaseName,
+    name: `Step ${step.stepNumber}: ${step.action}${targetLabel(step) ? ` ${targetLabel(step)}` : ''}`,
+    time: seconds(step.durationMs),
+  })}`;
+
+  return body.length > 0 ? [`${open}>`, ...body, '    </testcase>'].join('\n') : `${open}/>`;
+}
+
+function renderJUnitRunCase(run: RunReport): string {
+  const open = `    <testcase ${attributes({ classname: run.testCaseName, name: 'Test run', time: seconds(run.durationMs) })}`;
+
+  if (run.status === 'failed') {
+    const message = run.errorSummary ?? 'Test run failed';
+    return [`${open}>`, `      <failure ${attributes({ message, type: 'RunFailed' })}>${escapeXml(message)}</failure>`, '    </testcase>'].join('\n');
+  }
+  if (run.status === 'cancelled' || run.status === 'pending' || run.status === 'running') {
+    return [`${open}>`, `      <skipped ${attributes({ message: run.status })}/>`, '    </testcase>'].join('\n');
+  }
+  return `${open}/>`;
+}
+
+function junitCounts(run: RunReport): { tests: number; failures: number; skipped: number } {
+  if (run.steps.length === 0) {
+    return {
+      tests: 1,
+      failures: run.status === 'failed' ? 1 : 0,
+      skipped: ['cancelled', 'pending', 'running'].includes(run.status) ? 1 : 0,
+    };
+  }
+
+  return {
+    tests: run.steps.length,
+    failures: run.steps.filter((step) => step.status === 'failed').length,
+    skipped: run.steps.filter((step) => step.status === 'skipped' || step.status === 'pending').length,
+  };
+}
+
+const REPORT_KIND_LABELS: Record<TestReport['kind'], string> = {
+  test_run: 'Test run',
+  suite_run: 'Suite run',
+  test_runs: 'Test runs',
+};
+
+export function renderHtmlReport(report: TestReport): string {
+  const { summary } = report;
+  const unit = report.kind === 'test_run' ? 'steps' : 'test runs';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeXml(report.name)} - Cinnamon-QA report</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<header>
+  <h1>${escapeXml(report.name)} ${statusBadge(report.status)}</h1>
+  <p class="meta">${REPORT_KIND_LABELS[report.kind]} ${escapeXml(report.id)}
+    &middot; started ${escapeXml(report.startedAt ?? '-')} &middot; duration ${escapeXml(formatDuration(report.durationMs))}
+    &middot; generated ${escapeXml(report.generatedAt)}</p>
+  <ul class="summary">
+    <li><strong>${summary.total}</strong> ${unit}</li>
+    <li class="completed"><strong>${summary.passed}</strong> passed</li>
+    <li class="adapted"><strong>${summary.adapted}</strong> adapted</li>
+    <li class="failed"><strong>${summary.failed}</strong> failed</li>
+    <li><strong>${summary.cancelled}</strong> cancelled</li>
+    <li><strong>${summary.skipped}</strong> skipped</li>
+  </ul>
+</header>
+<main>
+${report.runs.map(renderHtmlRun).join('\n')}
+</main>
+</body>
+</html>
+`;
+}
+
+function renderHtmlRun(run: RunReport): string {
+  const environment = run.environment
+    ? [
+        run.environment.device && `device ${run.environment.device}`,
+        run.environment.browser,
+        run.environment.viewport && `${run.environment.viewport.width}x${run.environment.viewport.height}`,
+        run.environment.timezone,
+      ].filter(Boolean).join(' · ')
+    : '';
+
+  return `<section class="run">
+  <h2>${escapeXml(run.testCaseName)} ${statusBadge(run.status)}</h2>
+  <p class="meta">Run ${escapeXml(run.testRunId)}${run.url ? ` &middot; ${escapeXml(run.url)}` : ''}
+    &middot; duration ${escapeXml(formatDuration(run.durationMs))}${environment ? ` &middot; ${escapeXml(environment)}` : ''}</p>
+  ${run.errorSummary ? `<p class="error">${escapeXml(run.errorSummary)}</p>` : ''}
+  ${run.steps.length > 0 ? run.steps.map(renderHtmlStep).join('\n') : '<p class="meta">No steps were executed.</p>'}
+</section>`;
+}
+
+function renderHtmlStep(step: StepReport): string {
+  const parts = [
+    `<div class="step-head"><span class="num">${step.stepNumber}</span> <code>${escapeXml(step.action)}</code>
+      ${escapeXml(targetLabel(step))} ${statusBadge(step.status)} <span class="meta">${escapeXml(formatDuration(step.durationMs))}</span></div>`,
+  ];
+
+  if (step.error) {
+    parts.push(`<p class="error">${step.error.type ? `<strong>${escapeXml(step.error.type)}</strong>: ` : ''}${escapeXml(step.error.message)}</p>`);
+  }
+
+  parts.push(...step.adaptations.map(renderAdaptationDiff));
+
+  if (step.recoveryAttempts.length > 0) {
+    parts.push(`<ul class="recovery">${step.recoveryAttempts
+      .map((attempt) => `<li>${attempt.success ? '&#10003;' : '&#10007;'} ${escapeXml(attempt.strategy)}: ${escapeXml(attempt.reason)}${attempt.errorMessage ? ` (${escapeXml(attempt.errorMessage)})` : ''}</li>`)
+      .join('')}</ul>`);
+  }
+
+  const images = step.screenshots.filter((screenshot) => screenshot.dataUrl);
+  if (images.length > 0) {
+    parts.push(`<div class="shots">${images
+      .map((screenshot) => `<img src="${escapeXml(screenshot.dataUrl ?? '')}" alt="Step ${step.stepNumber} screenshot" loading="lazy">`)
+      .join('')}</div>`);
+  }
+
+  return `<article class="step ${escapeXml(step.status)}">${parts.join('\n')}</article>`;
+}
+
+/**
+ * Original and adapted action side by side, changed fields highlighted
+ */
+function renderAdaptationDiff(adaptation: StepAdaptation): string {
+  const fields: Array<'type' | 'selector' | 'value'> = ['type', 'selector', 'value'];
+  const rows = fields
+    .filter((field) => adaptation.originalAction[field] !== undefined || adaptation.adaptedAction[field] !== undefined)
+    .map((field) => {
+      const before = adaptation.originalAction[field] ?? '';
+      const after = adaptation.adaptedAction[field] ?? '';
+      const changed = before !== after;
+      return `<tr${changed ? ' class="changed"' : ''}><th>${field}</th><td>${changed ? `<del>${escapeXml(before)}</del>` : escapeXml(before)}</td><td>${changed ? `<ins>${escapeXml(after)}</ins>` : escapeXml(after)}</td></tr>`;
+    });
+
+  const source = adaptation.source ? ` &middot; from ${escapeXml(adaptation.source)}` : '';
+  return `<div class="adaptation">
+  <p><strong>Adapted</strong>: ${escapeXml(adaptation.reason)} <span class="meta">confidence ${Math.round(adaptation.confidence * 100)}%${source}</span></p>
+  <table><thead><tr><th></th><th>Original</th><th>Adapted</th></tr></thead><tbody>${rows.join('')}</tbody></table>
+</div>`;
+}
+
+function describeAdaptation(adaptation: StepAdaptation): string {
+  const { originalAction: before, adaptedAction: after } = adaptation;
+  return `${before.type} ${before.selector} -> ${after.type} ${after.selector} (${adaptation.reason}, confidence ${adaptation.confidence})`;
+}
+
+function targetLabel(step: StepReport): string {
+  const target = step.target ?? {};
+  return String(target.selector ?? target.description ?? target.url ?? '');
+}
+
+function statusBadge(status: string): string {
+  return `<span class="badge ${escapeXml(status)}">${escapeXml(status)}</span>`;
+}
+
+function attributes(values: Record<string, string | number | undefined>): string {
+  return Object.entries(values)
+    .filter((entry): entry is [string, string | number] => entry[1] !== undefined)
+    .map(([name, value]) => `${name}="${escapeXml(String(value))}"`)
+    .join(' ');
+}
+
+function seconds(durationMs: number | null): string {
+  return ((durationMs ?? 0) / 1000).toFixed(3);
+}
+
+function formatDuration(durationMs: number | null): string {
+  if (durationMs === null) {
+    return '-';
+  }
+  return durationMs < 1000 ? `${durationMs}ms` : `${(durationMs / 1000).toFixed(1)}s`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    .split('')
+    .filter(isXmlChar)
+    .join('');
+}
+
+// Control characters other than tab, line feed and carriage return are not allowed in XML 1.0
+function isXmlChar(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+const HTML_STYLES = `
+body { font: 14px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; margin: 0; color: #1f2328; background: #f6f8fa; }
+header, main { max-width: 1100px; margin: 0 auto; padding: 16px 24px; }
+h1 { font-size: 22px; margin: 8px 0; }
+h2 { font-size: 17px; margin: 0 0 4px; }
+.meta { color: #656d76; font-size: 12px; }
+.summary { display: flex; gap: 16px; list-style: none; padding: 0; }
+.run { background: #fff; border: 1px solid #d0d7de; border-radius: 6px; padding: 16px; margin-bottom: 16px; }
+.step { border-top: 1px solid #eaeef2; padding: 8px 0; }
+.step-head .num { display: inline-block; min-width: 24px; color: #656d76; }
+.badge { font-size: 11px; padding: 1px 6px; border-radius: 10px; background: #eaeef2; text-transform: uppercase; }
+.badge.completed, .badge.success, .completed strong { background: #dafbe1; color: #1a7f37; }
+.badge.failed, .failed strong { background: #ffebe9; color: #cf222e; }
+.badge.adapted, .adapted strong { background: #fff8c5; color: #9a6700; }
+.error { color: #cf222e; white-space: pre-wrap; }
+.adaptation { background: #fffbdd; border-radius: 4px; padding: 4px 8px; margin: 6px 0 6px 24px; }
+.adaptation table { border-collapse: collapse; font-family: ui-monospace, monospace; font-size: 12px; }
+.adaptation th, .adaptation td { text-align: left; padding: 2px 8px; vertical-align: top; }
+.adaptation tr.changed { background: #fff1c2; }
+del { background: #ffebe9; text-decoration: line-through; }
+ins { background: #dafbe1; text-decoration: none; }
+.recovery { margin: 4px 0 4px 24px; font-size: 12px; }
+.shots { display: flex; gap: 8px; flex-wrap: wrap; margin-left: 24px; }
+.shots img { max-width: 320px; border: 1px solid #d0d7de; border-radius: 4px; }
+`;
@@ -0,0 +1,422 @@
+/**
+ * Test Report Service
+ *
+ * Collects a test run or a suite run into a report (the stable JSON schema
+ * below), renders it as JUnit XML, JSON or a self-contained HTML page and
+ * stores the files in the reports bucket. Screenshots are inlined into the
+ * HTML report so it can be opened without access to storage.
+ */
+
+import { DatabaseClient, db } from '../client';
+import { createRepositories, type Repositories } from '../repositories';
+import { ArtifactStorageService, createArtifactStorage } from '../storage/artifactStorage.service';
+import type {
+  BucketName,
+  Environment,
+  RecoveryAttempt,
+  StepAdaptation,
+  StepStatus,
+  StorageReference,
+  TestRun,
+  TestStatus,
+  TestStep,
+} from '../types/database';
+import { renderHtmlReport, renderJUnitReport, renderJsonReport } from './reportRenderers';
+
+export const REPORT_SCHEMA_VERSION = 1;
+
+export type ReportFormat = 'junit' | 'json' | 'html';
+
+export const REPORT_FORMATS: ReportFormat[] = ['junit', 'json', 'html'];
+
+const MIME_TYPES: Record<ReportFormat, string> = {
+  junit: 'application/xml',
+  json: 'application/json',
+  html: 'text/html',
+};
+
+// Lifetime of the report download URLs handed to clients
+export const REPORT_URL_TTL_SECONDS = 60 * 60;
+
+// Screenshot bytes inlined into one HTML report at most (base64 adds a third)
+const MAX_INLINE_SCREENSHOT_BYTES = 20 * 1024 * 1024;
+
+export interface ReportSummary {
+  total: number;
+  passed: number;
+  failed: number;
+  adapted: number;
+  cancelled: number;
+  skipped: number;
+}
+
+export interface StepReport {
+  stepId: string;
+  stepNumber: number;
+  action: string;
+  target: Record<string, unknown>;
+  inputData: Record<string, unknown>;
+  status: StepStatus;
+  startedAt: string | null;
+  completedAt: string | null;
+  durationMs: number | null;
+  error: { type: string | null; message: string } | null;
+  adaptations: StepAdaptation[];
+  recoveryAttempts: RecoveryAttempt[];
+  screenshots: Array<{
+    storageReferenceId: string;
+    bucket: BucketName;
+    filePath: string;
+    mimeType: string | null;
+    // Base64 data URL; only filled in while rendering the HTML report
+    dataUrl?: string;
+  }>;
+}
+
+export interface RunReport {
+  testRunId: string;
+  testCaseId: string;
+  testCaseName: string;
+  url: string | null;
+  status: TestStatus;
+  startedAt: string | null;
+  completedAt: string | null;
+  durationMs: number | null;
+  errorSummary: string | null;
+  environment: Environment;
+  // Step counts of the run
+  summary: ReportSummary;
+  steps: StepReport[];
+}
+
+// Stable JSON report schema (`schemaVersion` changes on breaking changes)
+export interface TestReport {
+  schemaVersion: typeof REPORT_SCHEMA_VERSION;
+  // test_runs: runs started together outside a suite, such as by one CI job
+  kind: 'test_run' | 'suite_run' | 'test_runs';
+  id: string;
+  name: string;
+  status: TestStatus;
+  generatedAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  durationMs: number | null;
+  // Test run counts for a suite run or several runs, step counts for a single run
+  summary: ReportSummary;
+  runs: RunReport[];
+}
+
+export interface GeneratedReport {
+  format: ReportFormat;
+  reference: StorageReference;
+}
+
+export type ReportTarget = { testRunId: string } | { suiteRunId: string };
+
+// A stored report with a signed URL to download it
+export interface ReportDownload {
+  id: string;
+  format: ReportFormat | null;
+  filePath: string;
+  mimeType: string | null;
+  fileSize: number | null;
+  url: string;
+  createdAt: string;
+}
+
+export class TestReportService {
+  constructor(
+    private repositories: Repositories = createRepositories(),
+    private storage: ArtifactStorageService = createArtifactStorage()
+  ) {}
+
+  /**
+   * Render the report of a run or suite run in each format and store it
+   */
+  async generate(target: ReportTarget, formats: ReportFormat[] = REPORT_FORMATS): Promise<GeneratedReport[]> {
+    const report = await this.build(target);
+    const generated: GeneratedReport[] = [];
+
+    for (const format of formats) {
+      const content = await this.render(report, format);
+      const reference = await this.storage.uploadReport({
+        ...('testRunId' in target ? { testRunId: target.testRunId } : { suiteRunId: target.suiteRunId }),
+        data: Buffer.from(content, 'utf8'),
+        mimeType: MIME_TYPES[format],
+        metadata: { format },
+      });
+      generated.push({ format, reference });
+    }
+
+    return generated;
+  }
+
+  async build(target: ReportTarget): Promise<TestReport> {
+    return 'testRunId' in target
+      ? this.buildRunReport(target.testRunId)
+      : this.buildSuiteRunReport(target.suiteRunId);
+  }
+
+  async render(report: TestReport, format: ReportFormat): Promise<string> {
+    switch (format) {
+      case 'junit':
+        return renderJUnitReport(report);
+      case 'json':
+        return renderJsonReport(report);
+      case 'html':
+        return renderHtmlReport(await this.withInlineScreenshots(report));
+    }
+  }
+
+  /**
+   * One report over several test runs, in the given order. It is rendered on
+   * request and not stored, since it belongs to none of the runs.
+   */
+  async buildRunsReport(testRuns: TestRun[], name: string): Promise<TestReport> {
+    const runs: RunReport[] = [];
+    for (const testRun of testRuns) {
+      runs.push(await this.collectRun(testRun));
+    }
+
+    const count = (status: TestStatus) => testRuns.filter((run) => run.status === status).length;
+    const startedAt = earliest(testRuns.map((run) => run.started_at));
+    const completedAt = testRuns.every((run) => run.completed_at)
+      ? latest(testRuns.map((run) => run.completed_at))
+      : null;
+    const summary: ReportSummary = {
+      total: testRuns.length,
+      passed: count('completed'),
+      failed: count('failed'),
+      adapted: count('adapted'),
+      cancelled: count('cancelled'),
+      skipped: count('pending') + count('running'),
+    };
+
+    return {
+      schemaVersion: REPORT_SCHEMA_VERSION,
+      kind: 'test_runs',
+      id: testRuns.map((run) => run.id).join(','),
+      name,
+      status: combinedStatus(summary),
+      generatedAt: new Date().toISOString(),
+      startedAt,
+      completedAt,
+      durationMs: startedAt && completedAt ? new Date(completedAt).getTime() - new Date(startedAt).getTime() : null,
+      summary,
+      runs,
+    };
+  }
+
+  /**
+   * Reports stored for a run or suite run, oldest first
+   */
+  async listReports(target: ReportTarget): Promise<StorageReference[]> {
+    if ('suiteRunId' in target) {
+      return this.repositories.storageReference.findReportsBySuiteRunId(target.suiteRunId);
+    }
+    const references = await this.repositories.storageReference.findByTestRunId(target.testRunId);
+    return references.filter((reference) => reference.file_type === 'report');
+  }
+
+  /**
+   * Download details of a stored report, with a URL valid for expiresInSeconds
+   */
+  async toDownload(reference: StorageReference, expiresInSeconds = REPORT_URL_TTL_SECONDS): Promise<ReportDownload> {
+    return {
+      id: reference.id,
+      format: (reference.metadata?.format ?? null) as ReportFormat | null,
+      filePath: reference.file_path,
+      mimeType: reference.mime_type,
+      fileSize: reference.file_size_bytes,
+      url: await this.storage.createSignedUrl(reference, expiresInSeconds),
+      createdAt: reference.created_at,
+    };
+  }
+
+  private async buildRunReport(testRunId: string): Promise<TestReport> {
+    const testRun = await this.repositories.testRun.findById(testRunId);
+    if (!testRun) {
+      throw new Error(`Test run not found: ${testRunId}`);
+    }
+
+    const run = await this.collectRun(testRun);
+
+    return {
+      schemaVersion: REPORT_SCHEMA_VERSION,
+      kind: 'test_run',
+      id: testRun.id,
+      name: run.testCaseName,
+      status: testRun.status,
+      generatedAt: new Date().toISOString(),
+      startedAt: testRun.started_at,
+      completedAt: testRun.completed_at,
+      durationMs: testRun.duration_ms,
+      summary: run.summary,
+      runs: [run],
+    };
+  }
+
+  private async buildSuiteRunReport(suiteRunId: string): Promise<TestReport> {
+    const suiteRun = await this.repositories.testSuiteRun.findByIdOrThrow(suiteRunId);
+    const suite = await this.repositories.testSuite.findById(suiteRun.suite_id);
+    const testRuns = await this.repositories.testRun.findBySuiteRunId(suiteRunId);
+
+    const runs: RunReport[] = [];
+    for (const testRun of testRuns) {
+      runs.push(await this.collectRun(testRun));
+    }
+
+    const count = (status: TestStatus) => testRuns.filter((run) => run.status === status).length;
+    const startedAt = suiteRun.started_at ? new Date(suiteRun.started_at).getTime() : null;
+    const completedAt = suiteRun.completed_at ? new Date(suiteRun.completed_at).getTime() : null;
+
+    return {
+      schemaVersion: REPORT_SCHEMA_VERSION,
+      kind: 'suite_run',
+      id: suiteRun.id,
+      name: suite?.name ?? `Suite run ${suiteRun.id}`,
+      status: suiteRun.status,
+      generatedAt: new Date().toISOString(),
+      startedAt: suiteRun.started_at,
+      completedAt: suiteRun.completed_at,
+      durationMs: suiteRun.summary?.durationMs ?? (startedAt && completedAt ? completedAt - startedAt : null),
+      summary: {
+        total: suiteRun.test_case_ids.length,
+        passed: count('completed'),
+        failed: count('failed'),
+        adapted: count('adapted'),
+        cancelled: count('cancelled'),
+        skipped: suiteRun.test_case_ids.length - testRuns.length,
+      },
+      runs,
+    };
+  }
+
+  private async collectRun(testRun: TestRun): Promise<RunReport> {
+    const [testCase, steps, references] = await Promise.all([
+      this.repositories.testCase.findById(testRun.test_case_id),
+      this.repositories.testStep.findByTestRunId(testRun.id),
+      this.repositories.storageReference.findByTestRunId(testRun.id),
+    ]);
+
+    const screenshots = references.filter((reference) => reference.file_type === 'screenshot' && reference.test_step_id);
+
+    return {
+      testRunId: testRun.id,
+      testCaseId: testRun.test_case_id,
+      testCaseName: testCase?.name ?? testRun.test_case_id,
+      url: testCase?.url ?? null,
+      status: testRun.status,
+      startedAt: testRun.started_at,
+      completedAt: testRun.completed_at,
+      durationMs: testRun.duration_ms,
+      errorSummary: testRun.error_summary,
+      environment: testRun.environment,
+      summary: stepSummary(steps),
+      steps: steps
+        .sort((a, b) => a.step_number - b.step_number)
+        .map((step) => toStepReport(step, screenshots.filter((reference) => reference.test_step_id === step.id))),
+    };
+  }
+
+  /**
+   * Copy of the report with screenshots embedded as data URLs. Screenshots
+   * that cannot be downloaded, or no longer fit in the size budget, are left
+   * out of the page.
+   */
+  private async withInlineScreenshots(report: TestReport): Promise<TestReport> {
+    let remainingBytes = MAX_INLINE_SCREENSHOT_BYTES;
+
+    const runs: RunReport[] = [];
+    for (const run of report.runs) {
+      const steps: StepReport[] = [];
+      for (const step of run.steps) {
+        const screenshots: StepReport['screenshots'] = [];
+        for (const screenshot of step.screenshots) {
+          if (remainingBytes <= 0) {
+            screenshots.push(screenshot);
+            continue;
+          }
+
+          try {
+            const data = await this.storage.download({ bucket_name: screenshot.bucket, file_path: screenshot.filePath });
+            if (data.length > remainingBytes) {
+              screenshots.push(screenshot);
+              continue;
+            }
+            remainingBytes -= data.length;
+            screenshots.push({ ...screenshot, dataUrl: `data:${screenshot.mimeType ?? 'image/png'};base64,${data.toString('base64')}` });
+          } catch {
+            screenshots.push(screenshot);
+          }
+        }
+        steps.push({ ...step, screenshots });
+      }
+      runs.push({ ...run, steps });
+    }
+
+    return { ...report, runs };
+  }
+}
+
+function toStepReport(step: TestStep, screenshots: StorageReference[]): StepReport {
+  return {
+    stepId: step.id,
+    stepNumber: step.step_number,
+    action: step.action,
+    target: step.target ?? {},
+    inputData: step.input_data ?? {},
+    status: step.status,
+    startedAt: step.started_at,
+    completedAt: step.completed_at,
+    durationMs: step.duration_ms,
+    error: step.error_message ? { type: step.error_type, message: step.error_message } : null,
+    adaptations: step.adaptations ?? [],
+    recoveryAttempts: step.recovery_attempts ?? [],
+    screenshots: screenshots.map((reference) => ({
+      storageReferenceId: reference.id,
+      bucket: reference.bucket_name,
+      filePath: reference.file_path,
+      mimeType: reference.mime_type,
+    })),
+  };
+}
+
+function stepSummary(steps: TestStep[]): ReportSummary {
+  const count = (status: StepStatus) => steps.filter((step) => step.status === status).length;
+
+  return {
+    total: steps.length,
+    passed: count('success'),
+    failed: count('failed'),
+    adapted: count('adapted'),
+    cancelled: 0,
+    skipped: count('skipped') + count('pending'),
+  };
+}
+
+// The most severe status among the runs; running while any run is unfinished
+function combinedStatus(summary: ReportSummary): TestStatus {
+  if (summary.failed > 0) {
+    return 'failed';
+  }
+  if (summary.cancelled > 0) {
+    return 'cancelled';
+  }
+  if (summary.skipped > 0) {
+    return 'running';
+  }
+  return summary.adapted > 0 ? 'adapted' : 'completed';
+}
+
+function earliest(timestamps: Array<string | null>): string | null {
+  return timestamps.filter((value): value is string => !!value).sort()[0] ?? null;
+}
+
+function latest(timestamps: Array<string | null>): string | null {
+  return timestamps.filter((value): value is string => !!value).sort().reverse()[0] ?? null;
+}
+
+export function createTestReportService(client: DatabaseClient = db): TestReportService {
+  return new TestReportService(createRepositories(client), createArtifactStorage(client));
+}
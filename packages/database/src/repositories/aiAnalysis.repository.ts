@@ -440,4 +440,28 @@ export class AIAnalysisRepository extends BaseRepository<AIAnalysis, AIAnalysisI
 
     return data?.length || 0;
   }
-}
\ No newline at end of file
+
+  /**
+   * Delete old analysis records, keeping the latest record of each
+   * preserved type per test case (test execution reads the latest
+   * scenario_analysis no matter how old it is). The latest records are
+   * selected in SQL by the delete_old_ai_analysis function.
+   */
+  async deleteOldRecordsExceptLatest(
+    olderThanDays = 90,
+    preservedTypes: AnalysisType[] = ['scenario_analysis']
+  ): Promise<number> {
+    const threshold = new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000).toISOString();
+
+    const { data, error } = await this.client.client.rpc('delete_old_ai_analysis', {
+      older_than: threshold,
+      preserved_types: preservedTypes,
+    });
+
+    if (error) {
+      throw new Error(`Failed to delete old analysis records: ${error.message}`);
+    }
+
+    return data || 0;
+  }
+}
@@ -6,20 +6,47 @@
 export { TestCaseRepository } from './testCase.repository';
 export { TestRunRepository } from './testRun.repository';
 export { TestStepRepository } from './testStep.repository';
+export { TestExecutionEventsRepository } from './testExecutionEvents.repository';
+export { AIAnalysisRepository } from './aiAnalysis.repository';
+export { StorageReferenceRepository } from './storageReference.repository';
+export { ContainerAllocationRepository } from './containerAllocation.repository';
+export { ReliabilityHistoryRepository } from './reliabilityHistory.repository';
+export { TestScheduleRepository } from './testSchedule.repository';
+export { TestSuiteRepository, TestSuiteRunRepository } from './testSuite.repository';
+export { TestMatrixRunRepository } from './testMatrixRun.repository';
 
 // Export as a convenience object
 import { DatabaseClient, db } from '../client';
 import { TestCaseRepository } from './testCase.repository';
 import { TestRunRepository } from './testRun.repository';
 import { TestStepRepository } from './testStep.repository';
+import { TestExecutionEventsRepository } from './testExecutionEvents.repository';
+import { AIAnalysisRepository } from './aiAnalysis.repository';
+import { StorageReferenceRepository } from './storageReference.repository';
+import { ContainerAllocationRepository } from './containerAllocation.repository';
+import { ReliabilityHistoryRepository } from './reliabilityHistory.repository';
+import { TestScheduleRepository } from './testSchedule.repository';
+import { TestSuiteRepository, TestSuiteRunRepository } from './testSuite.repository';
+import { TestMatrixRunRepository } from './testMatrixRun.repository';
 
 export function createRepositories(client: DatabaseClient = db) {
   return {
     testCase: new TestCaseRepository(client),
     testRun: new TestRunRepository(client),
     testStep: new TestStepRepository(client),
+    testExecutionEvents: new TestExecutionEventsRepository(client),
+    aiAnalysis: new AIAnalysisRepository(client),
+    storageReference: new StorageReferenceRepository(client),
+    containerAllocation: new ContainerAllocationRepository(client),
+    reliabilityHistory: new ReliabilityHistoryRepository(client),
+    testSchedule: new TestScheduleRepository(client),
+    testSuite: new TestSuiteRepository(client),
+    testSuiteRun: new TestSuiteRunRepository(client),
+    testMatrixRun: new TestMatrixRunRepository(client),
   };
 }
 
+export type Repositories = ReturnType<typeof createRepositories>;
+
 // Default repositories instance
-export const repositories = createRepositories();
\ No newline at end of file
+export const repositories = createRepositories();
@@ -0,0 +1,58 @@
+import { BaseRepository } from './base.repository';
+import type {
+  ReliabilityScoreHistory,
+  ReliabilityScoreHistoryInsert,
+  ReliabilityScoreHistoryUpdate
+} from '../types/database';
+
+export class ReliabilityHistoryRepository extends BaseRepository<ReliabilityScoreHistory, ReliabilityScoreHistoryInsert, ReliabilityScoreHistoryUpdate> {
+  protected readonly tableName = 'reliability_score_history';
+
+  /**
+   * Record a computed score. Recording again for the same test run replaces
+   * the earlier entry.
+   */
+  async record(data: ReliabilityScoreHistoryInsert): Promise<ReliabilityScoreHistory> {
+    const { data: result, error } = await this.client.client
+      .from(this.tableName)
+      .upsert(data, { onConflict: 'test_case_id,test_run_id' })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to record reliability score: ${error.message}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Get the score history of a test case, most recent first
+   */
+  async findByTestCaseId(testCaseId: string, options?: {
+    limit?: number;
+    since?: string;
+  }): Promise<ReliabilityScoreHistory[]> {
+    let query = this.client.client
+      .from(this.tableName)
+      .select('*')
+      .eq('test_case_id', testCaseId)
+      .order('created_at', { ascending: false });
+
+    if (options?.since) {
+      query = query.gte('created_at', options.since);
+    }
+
+    if (options?.limit) {
+      query = query.limit(options.limit);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to get reliability history: ${error.message}`);
+    }
+
+    return data || [];
+  }
+}
@@ -5,7 +5,7 @@
  */
 
 import { BaseRepository } from './base.repository';
-import type { StorageReference, StorageReferenceInsert, StorageReferenceUpdate } from '../types/database';
+import type { FileType, StorageReference, StorageReferenceInsert, StorageReferenceUpdate } from '../types/database';
 import { DatabaseError } from '../types';
 
 export class StorageReferenceRepository extends BaseRepository<StorageReference, StorageReferenceInsert, StorageReferenceUpdate> {
@@ -35,6 +35,31 @@ export class StorageReferenceRepository extends BaseRepository<StorageReference,
     }
   }
 
+  /**
+   * Find the reports generated for a suite run
+   */
+  async findReportsBySuiteRunId(suiteRunId: string): Promise<StorageReference[]> {
+    try {
+      const { data, error } = await this.client.client
+        .from(this.tableName)
+        .select('*')
+        .eq('file_type', 'report')
+        .eq('metadata->>suite_run_id', suiteRunId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        throw new DatabaseError(`Failed to find suite run reports: ${error.message}`, error.code);
+      }
+
+      return data as StorageReference[];
+    } catch (error) {
+      if (error instanceof DatabaseError) {
+        throw error;
+      }
+      throw new DatabaseError(`Unexpected error finding suite run reports: ${error}`);
+    }
+  }
+
   /**
    * Find storage references by test step ID
    */
@@ -114,6 +139,63 @@ export class StorageReferenceRepository extends BaseRepository<StorageReference,
     }
   }
 
+  /**
+   * Find unarchived files of a type created before the given number of days
+   */
+  async findOlderThan(fileType: FileType, olderThanDays: number): Promise<StorageReference[]> {
+    try {
+      const cutoffDate = new Date();
+      cutoffDate.setDate(cutoffDate.getDate() - olderThanDays);
+
+      const { data, error } = await this.client.client
+        .from(this.tableName)
+        .select('*')
+        .eq('file_type', fileType)
+        .eq('is_archived', false)
+        .lt('created_at', cutoffDate.toISOString())
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        throw new DatabaseError(`Failed to find storage references by age: ${error.message}`, error.code);
+      }
+
+      return data as StorageReference[];
+    } catch (error) {
+      if (error instanceof DatabaseError) {
+        throw error;
+      }
+      throw new DatabaseError(`Unexpected error finding storage references by age: ${error}`);
+    }
+  }
+
+  /**
+   * Find storage references archived before the given number of days
+   * (the rows removed by cleanup with the same threshold)
+   */
+  async findArchived(olderThanDays = 7): Promise<StorageReference[]> {
+    try {
+      const cutoffDate = new Date();
+      cutoffDate.setDate(cutoffDate.getDate() - olderThanDays);
+
+      const { data, error } = await this.client.client
+        .from(this.tableName)
+        .select('*')
+        .eq('is_archived', true)
+        .lt('archived_at', cutoffDate.toISOString());
+
+      if (error) {
+        throw new DatabaseError(`Failed to find archived storage references: ${error.message}`, error.code);
+      }
+
+      return data as StorageReference[];
+    } catch (error) {
+      if (error instanceof DatabaseError) {
+        throw error;
+      }
+      throw new DatabaseError(`Unexpected error finding archived storage references: ${error}`);
+    }
+  }
+
   /**
    * Archive a storage reference
    */
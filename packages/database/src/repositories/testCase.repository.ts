@@ -8,9 +8,16 @@ import type {
   TestCase, 
   TestCaseInsert, 
   TestCaseUpdate,
+  TestExecutionSummary,
   TestRun 
 } from '../types/database';
 
+// File keys per `in` filter, keeping the request URL short
+const FILE_KEY_CHUNK_SIZE = 100;
+
+// Characters that end or nest a value inside a PostgREST `or` filter
+const SEARCH_TERM_RESERVED_CHARACTERS = /[,(){}"\\]/;
+
 export class TestCaseRepository {
   private client: DatabaseClient;
 
@@ -112,11 +119,16 @@ export class TestCaseRepository {
     offset?: number;
     orderBy?: string;
     ascending?: boolean;
+    tags?: string[];
   }): Promise<TestCase[]> {
     let query = this.client.client
       .from('test_cases')
       .select('*');
 
+    if (options?.tags && options.tags.length > 0) {
+      query = query.contains('tags', options.tags);
+    }
+
     if (options?.orderBy) {
       query = query.order(options.orderBy, { ascending: options.ascending ?? true });
     }
@@ -139,13 +151,39 @@ export class TestCaseRepository {
   }
 
   /**
-   * Search test cases by name or tags
+   * Count test cases, optionally restricted to those having all given tags
+   */
+  async count(options?: { tags?: string[] }): Promise<number> {
+    let query = this.client.client
+      .from('test_cases')
+      .select('*', { count: 'exact', head: true });
+
+    if (options?.tags && options.tags.length > 0) {
+      query = query.contains('tags', options.tags);
+    }
+
+    const { count, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to count test cases: ${error.message}`);
+    }
+
+    return count || 0;
+  }
+
+  /**
+   * Search test cases by name or tags.
+   * The term is embedded in the filter, so filter syntax characters are rejected.
    */
   async search(searchTerm: string): Promise<TestCase[]> {
+    if (SEARCH_TERM_RESERVED_CHARACTERS.test(searchTerm)) {
+      throw new Error('Search term cannot contain , ( ) { } " or \\');
+    }
+
     const { data, error } = await this.client.client
       .from('test_cases')
       .select('*')
-      .or(`name.ilike.%${searchTerm}%,tags.cs.{${searchTerm}}`)
+      .or(`name.ilike."%${searchTerm}%",tags.cs.{"${searchTerm}"}`)
       .order('created_at', { ascending: false });
 
     if (error) {
@@ -155,6 +193,45 @@ export class TestCaseRepository {
     return data || [];
   }
 
+  /**
+   * Get test cases synced from files by their file keys
+   */
+  async findByFileKeys(fileKeys: string[]): Promise<TestCase[]> {
+    const testCases: TestCase[] = [];
+
+    for (let start = 0; start < fileKeys.length; start += FILE_KEY_CHUNK_SIZE) {
+      const { data, error } = await this.client.client
+        .from('test_cases')
+        .select('*')
+        .in('file_key', fileKeys.slice(start, start + FILE_KEY_CHUNK_SIZE));
+
+      if (error) {
+        throw new Error(`Failed to get test cases by file key: ${error.message}`);
+      }
+
+      testCases.push(...(data || []));
+    }
+
+    return testCases;
+  }
+
+  /**
+   * List all test cases synced from files
+   */
+  async findWithFileKey(): Promise<TestCase[]> {
+    const { data, error } = await this.client.client
+      .from('test_cases')
+      .select('*')
+      .not('file_key', 'is', null)
+      .order('file_key', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to list file test cases: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
   /**
    * Update reliability score
    */
@@ -168,4 +245,21 @@ export class TestCaseRepository {
       throw new Error(`Failed to update reliability score: ${error.message}`);
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Get run statistics from the test_execution_summary view
+   */
+  async getExecutionSummary(id: string): Promise<TestExecutionSummary | null> {
+    const { data, error } = await this.client.client
+      .from('test_execution_summary')
+      .select('*')
+      .eq('test_case_id', id)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      throw new Error(`Failed to get test execution summary: ${error.message}`);
+    }
+
+    return data;
+  }
+}
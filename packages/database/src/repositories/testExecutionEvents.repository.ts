@@ -307,10 +307,11 @@ export class TestExecutionEventsRepository extends BaseRepository<TestExecutionE
   }
 
   /**
-   * Get adaptation events for learning purposes
+   * Get adaptation events for learning purposes, optionally narrowed to a
+   * test case or a single test run
    */
   async getAdaptationEvents(
-    testCaseId?: string,
+    filter: { testCaseId?: string; testRunId?: string } = {},
     limit = 100
   ): Promise<TestExecutionEvent[]> {
     let query = this.client.client
@@ -323,8 +324,12 @@ export class TestExecutionEventsRepository extends BaseRepository<TestExecutionE
       .order('created_at', { ascending: false })
       .limit(limit);
 
-    if (testCaseId) {
-      query = query.eq('test_runs.test_case_id', testCaseId);
+    if (filter.testCaseId) {
+      query = query.eq('test_runs.test_case_id', filter.testCaseId);
+    }
+
+    if (filter.testRunId) {
+      query = query.eq('test_run_id', filter.testRunId);
     }
 
     const { data, error } = await query;
@@ -0,0 +1,24 @@
+import { BaseRepository } from './base.repository';
+import type { TestMatrixRun, TestMatrixRunInsert, TestMatrixRunUpdate } from '../types/database';
+
+export class TestMatrixRunRepository extends BaseRepository<TestMatrixRun, TestMatrixRunInsert, TestMatrixRunUpdate> {
+  protected readonly tableName = 'test_matrix_runs';
+
+  /**
+   * Get the matrix runs of a test case, most recent first
+   */
+  async findByTestCaseId(testCaseId: string, limit = 20): Promise<TestMatrixRun[]> {
+    const { data, error } = await this.client.client
+      .from(this.tableName)
+      .select('*')
+      .eq('test_case_id', testCaseId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to get matrix runs: ${error.message}`);
+    }
+
+    return data || [];
+  }
+}
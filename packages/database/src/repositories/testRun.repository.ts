@@ -90,6 +90,26 @@ export class TestRunRepository {
     return result;
   }
 
+  /**
+   * Update a test run only while it is pending or running. Returns null when
+   * the run has already finished.
+   */
+  async updateUnfinished(id: string, data: TestRunUpdate): Promise<TestRun | null> {
+    const { data: result, error } = await this.client.client
+      .from('test_runs')
+      .update(data)
+      .eq('id', id)
+      .in('status', ['pending', 'running'])
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update unfinished test run: ${error.message}`);
+    }
+
+    return result;
+  }
+
   /**
    * Delete test run
    */
@@ -121,6 +141,60 @@ export class TestRunRepository {
     return data || [];
   }
 
+  /**
+   * Get the latest finished (completed, failed or adapted) runs of a test
+   * case, most recently finished first
+   */
+  async findRecentFinishedByTestCaseId(testCaseId: string, limit: number): Promise<TestRun[]> {
+    const { data, error } = await this.client.client
+      .from('test_runs')
+      .select('*')
+      .eq('test_case_id', testCaseId)
+      .in('status', ['completed', 'failed', 'adapted'])
+      .order('completed_at', { ascending: false, nullsFirst: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to get recent test runs by test case: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Get the test runs of a suite run, oldest first
+   */
+  async findBySuiteRunId(suiteRunId: string): Promise<TestRun[]> {
+    const { data, error } = await this.client.client
+      .from('test_runs')
+      .select('*')
+      .eq('suite_run_id', suiteRunId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to get test runs by suite run: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Get the sibling test runs of a matrix run, oldest first
+   */
+  async findByMatrixRunId(matrixRunId: string): Promise<TestRun[]> {
+    const { data, error } = await this.client.client
+      .from('test_runs')
+      .select('*')
+      .eq('matrix_run_id', matrixRunId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to get test runs by matrix run: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
   /**
    * Get recent test runs
    */
@@ -0,0 +1,53 @@
+import { BaseRepository } from './base.repository';
+import type {
+  TestSchedule,
+  TestScheduleInsert,
+  TestScheduleUpdate
+} from '../types/database';
+
+export class TestScheduleRepository extends BaseRepository<TestSchedule, TestScheduleInsert, TestScheduleUpdate> {
+  protected readonly tableName = 'test_schedules';
+
+  /**
+   * Get schedules, optionally of one test case
+   */
+  async findByTestCaseId(testCaseId?: string): Promise<TestSchedule[]> {
+    let query = this.client.client
+      .from(this.tableName)
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (testCaseId) {
+      query = query.eq('test_case_id', testCaseId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to get test schedules: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Enable or disable a schedule
+   */
+  async setEnabled(id: string, enabled: boolean): Promise<TestSchedule> {
+    return this.updateById(id, { enabled });
+  }
+
+  /**
+   * Record the test run a schedule fired last
+   */
+  async recordRun(id: string, testRunId: string): Promise<void> {
+    const { error } = await this.client.client
+      .from(this.tableName)
+      .update({ last_run_at: new Date().toISOString(), last_run_id: testRunId })
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to record scheduled run: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import { BaseRepository } from './base.repository';
+import type {
+  TestSuite,
+  TestSuiteInsert,
+  TestSuiteRun,
+  TestSuiteRunInsert,
+  TestSuiteRunUpdate,
+  TestSuiteUpdate
+} from '../types/database';
+
+export class TestSuiteRepository extends BaseRepository<TestSuite, TestSuiteInsert, TestSuiteUpdate> {
+  protected readonly tableName = 'test_suites';
+
+  /**
+   * List suites, optionally restricted to those having all given tags
+   */
+  async findByTags(options?: {
+    tags?: string[];
+    limit?: number;
+    offset?: number;
+  }): Promise<{ items: TestSuite[]; total: number }> {
+    const limit = options?.limit ?? 20;
+    const offset = options?.offset ?? 0;
+
+    let query = this.client.client
+      .from(this.tableName)
+      .select('*', { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (options?.tags && options.tags.length > 0) {
+      query = query.contains('tags', options.tags);
+    }
+
+    const { data, count, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to list test suites: ${error.message}`);
+    }
+
+    return { items: data || [], total: count || 0 };
+  }
+}
+
+export class TestSuiteRunRepository extends BaseRepository<TestSuiteRun, TestSuiteRunInsert, TestSuiteRunUpdate> {
+  protected readonly tableName = 'test_suite_runs';
+
+  /**
+   * Get the runs of a suite, most recent first
+   */
+  async findBySuiteId(suiteId: string, limit = 20): Promise<TestSuiteRun[]> {
+    const { data, error } = await this.client.client
+      .from(this.tableName)
+      .select('*')
+      .eq('suite_id', suiteId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to get suite runs: ${error.message}`);
+    }
+
+    return data || [];
+  }
+}
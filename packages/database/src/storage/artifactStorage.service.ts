@@ -0,0 +1,253 @@
+/**
+ * Artifact Storage Service
+ *
+ * Uploads test artifacts into their buckets and records a storage_references
+ * row for each file. File paths follow the layout in storage-strategy.md;
+ * expiration is set by the set_storage_expiration trigger.
+ */
+
+import * as path from 'path';
+import { DatabaseClient, db } from '../client';
+import { StorageReferenceRepository } from '../repositories/storageReference.repository';
+import type { BucketName, FileType, StorageMetadata, StorageReference } from '../types/database';
+import { ValidationError } from '../types';
+import type { StorageBackend } from './storageBackend';
+import { SupabaseStorageBackend } from './supabaseStorage.backend';
+import { FileSystemStorageBackend } from './fileSystemStorage.backend';
+
+const DEFAULT_SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'video/webm': 'webm',
+  'video/mp4': 'mp4',
+  'application/json': 'json',
+  'application/xml': 'xml',
+  'text/html': 'html',
+};
+
+/**
+ * Binary artifact content: raw bytes or a base64 data URL
+ */
+export type ArtifactData = Buffer | string;
+
+export interface UploadScreenshotParams {
+  testRunId: string;
+  testStepId?: string;
+  stepNumber: number;
+  data: ArtifactData;
+  mimeType?: string;
+  wasAdapted?: boolean;
+  adaptationReason?: string;
+  captureContext?: string;
+}
+
+export interface UploadRunArtifactParams {
+  testRunId: string;
+  data: ArtifactData;
+  mimeType?: string;
+  metadata?: Partial<StorageMetadata>;
+}
+
+export interface UploadReportParams extends Omit<UploadRunArtifactParams, 'testRunId'> {
+  // A report covers either a test run or a suite run
+  testRunId?: string;
+  suiteRunId?: string;
+}
+
+export class ArtifactStorageService {
+  constructor(
+    private backend: StorageBackend,
+    private storageReferences: StorageReferenceRepository = new StorageReferenceRepository()
+  ) {}
+
+  get backendName(): StorageBackend['name'] {
+    return this.backend.name;
+  }
+
+  /**
+   * screenshots/{year}/{month}/{day}/{test_run_id}/{step_number}_{timestamp}.{ext}
+   */
+  async uploadScreenshot(params: UploadScreenshotParams): Promise<StorageReference> {
+    const { buffer, mimeType } = decodeArtifact(params.data, params.mimeType ?? 'image/png');
+    const now = new Date();
+    const filePath = path.posix.join(
+      datePath(now, true),
+      params.testRunId,
+      `${params.stepNumber}_${now.getTime()}.${extensionFor(mimeType)}`
+    );
+
+    return this.store('screenshots', filePath, 'screenshot', buffer, mimeType, {
+      testRunId: params.testRunId,
+      testStepId: params.testStepId,
+      metadata: {
+        format: extensionFor(mimeType),
+        was_adapted: params.wasAdapted ?? false,
+        adaptation_reason: params.adaptationReason,
+        capture_context: params.captureContext,
+      },
+    });
+  }
+
+  /**
+   * test-artifacts/videos/{test_run_id}/recording_{timestamp}.{ext}
+   */
+  async uploadVideo(params: UploadRunArtifactParams): Promise<StorageReference> {
+    const { buffer, mimeType } = decodeArtifact(params.data, params.mimeType ?? 'video/webm');
+    const filePath = `videos/${params.testRunId}/recording_${Date.now()}.${extensionFor(mimeType)}`;
+
+    return this.store('test-artifacts', filePath, 'video', buffer, mimeType, {
+      testRunId: params.testRunId,
+      metadata: { format: extensionFor(mimeType), was_adapted: false, ...params.metadata },
+    });
+  }
+
+  /**
+   * test-artifacts/har/{test_run_id}/network_{timestamp}.har
+   */
+  async uploadHar(params: UploadRunArtifactParams): Promise<StorageReference> {
+    const { buffer } = decodeArtifact(params.data, 'application/json');
+    const filePath = `har/${params.testRunId}/network_${Date.now()}.har`;
+
+    return this.store('test-artifacts', filePath, 'har', buffer, 'application/json', {
+      testRunId: params.testRunId,
+      metadata: { format: 'har', was_adapted: false, ...params.metadata },
+    });
+  }
+
+  /**
+   * reports/{year}/{month}/{test_run_id}/report_{timestamp}.{ext}
+   * reports/{year}/{month}/suite-runs/{suite_run_id}/report_{timestamp}.{ext}
+   */
+  async uploadReport(params: UploadReportParams): Promise<StorageReference> {
+    if (!params.testRunId && !params.suiteRunId) {
+      throw new ValidationError('A report needs a test run or a suite run', 'testRunId');
+    }
+
+    const { buffer, mimeType } = decodeArtifact(params.data, params.mimeType ?? 'text/html');
+    const now = new Date();
+    const filePath = path.posix.join(
+      datePath(now, false),
+      params.testRunId ?? `suite-runs/${params.suiteRunId}`,
+      `report_${now.getTime()}.${extensionFor(mimeType)}`
+    );
+
+    return this.store('reports', filePath, 'report', buffer, mimeType, {
+      testRunId: params.testRunId,
+      metadata: {
+        format: extensionFor(mimeType),
+        was_adapted: false,
+        ...(params.suiteRunId ? { suite_run_id: params.suiteRunId } : {}),
+        ...params.metadata,
+      },
+    });
+  }
+
+  async download(reference: Pick<StorageReference, 'bucket_name' | 'file_path'>): Promise<Buffer> {
+    return this.backend.download(reference.bucket_name, reference.file_path);
+  }
+
+  async createSignedUrl(
+    reference: Pick<StorageReference, 'bucket_name' | 'file_path'>,
+    expiresInSeconds = DEFAULT_SIGNED_URL_TTL_SECONDS
+  ): Promise<string> {
+    return this.backend.createSignedUrl(reference.bucket_name, reference.file_path, expiresInSeconds);
+  }
+
+  /**
+   * Delete stored files. Their storage_references rows are left to the caller.
+   */
+  async removeFiles(references: Array<Pick<StorageReference, 'bucket_name' | 'file_path'>>): Promise<void> {
+    const byBucket = new Map<BucketName, string[]>();
+    for (const reference of references) {
+      byBucket.set(reference.bucket_name, [...(byBucket.get(reference.bucket_name) ?? []), reference.file_path]);
+    }
+
+    for (const [bucket, filePaths] of byBucket) {
+      await this.backend.remove(bucket, filePaths);
+    }
+  }
+
+  private async store(
+    bucket: BucketName,
+    filePath: string,
+    fileType: FileType,
+    data: Buffer,
+    mimeType: string,
+    link: { testRunId?: string; testStepId?: string; metadata: StorageMetadata }
+  ): Promise<StorageReference> {
+    await this.backend.upload(bucket, filePath, data, mimeType);
+
+    try {
+      return await this.storageReferences.createForUpload({
+        bucket_name: bucket,
+        file_path: filePath,
+        file_type: fileType,
+        file_size_bytes: data.length,
+        mime_type: mimeType,
+        test_run_id: link.testRunId,
+        test_step_id: link.testStepId,
+        metadata: link.metadata,
+      });
+    } catch (error) {
+      // Do not leave untracked files behind
+      await this.backend.remove(bucket, [filePath]).catch(() => undefined);
+      throw error;
+    }
+  }
+}
+
+function decodeArtifact(data: ArtifactData, fallbackMimeType: string): { buffer: Buffer; mimeType: string } {
+  if (Buffer.isBuffer(data)) {
+    return { buffer: data, mimeType: fallbackMimeType };
+  }
+
+  const match = data.match(/^data:([^;,]+);base64,(.*)$/s);
+  if (match) {
+    return { buffer: Buffer.from(match[2], 'base64'), mimeType: match[1] };
+  }
+
+  if (fallbackMimeType.startsWith('image/') || fallbackMimeType.startsWith('video/')) {
+    throw new ValidationError('Binary artifacts must be a Buffer or a base64 data URL', 'data');
+  }
+
+  return { buffer: Buffer.from(data, 'utf8'), mimeType: fallbackMimeType };
+}
+
+function extensionFor(mimeType: string): string {
+  return EXTENSIONS[mimeType] ?? mimeType.split('/')[1] ?? 'bin';
+}
+
+function datePath(date: Date, includeDay: boolean): string {
+  const parts = [
+    String(date.getUTCFullYear()),
+    String(date.getUTCMonth() + 1).padStart(2, '0'),
+  ];
+  if (includeDay) {
+    parts.push(String(date.getUTCDate()).padStart(2, '0'));
+  }
+  return parts.join('/');
+}
+
+/**
+ * Create the storage backend selected by STORAGE_BACKEND (`supabase` or
+ * `local`). The local backend writes under STORAGE_LOCAL_DIR; when it is
+ * served at STORAGE_PUBLIC_BASE_URL, URLs are signed with STORAGE_SIGNING_SECRET.
+ */
+export function createStorageBackend(client: DatabaseClient = db): StorageBackend {
+  if (process.env.STORAGE_BACKEND === 'local') {
+    return new FileSystemStorageBackend({
+      rootDir: process.env.STORAGE_LOCAL_DIR || path.join(process.cwd(), '.storage'),
+      publicBaseUrl: process.env.STORAGE_PUBLIC_BASE_URL,
+      signingSecret: process.env.STORAGE_SIGNING_SECRET,
+    });
+  }
+
+  return new SupabaseStorageBackend(client);
+}
+
+export function createArtifactStorage(client: DatabaseClient = db): ArtifactStorageService {
+  return new ArtifactStorageService(createStorageBackend(client), new StorageReferenceRepository(client));
+}
@@ -0,0 +1,92 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createLogger } from '@cinnamon-qa/logger';
+import { FileSystemStorageBackend } from './fileSystemStorage.backend';
+
+const logger = createLogger({ context: 'FileSystemStorageTest' });
+
+function assert(condition: unknown, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function rejects(promise: Promise<unknown>): Promise<boolean> {
+  return promise.then(() => false, () => true);
+}
+
+/**
+ * Test the local storage backend
+ * Run with: npx tsx packages/database/src/storage/fileSystemStorage.backend.test.ts
+ */
+async function testFileSystemStorage() {
+  logger.info('🧪 Testing FileSystemStorageBackend...');
+
+  const rootDir = await mkdtemp(join(tmpdir(), 'cinnamon-qa-storage-'));
+  const filePath = 'run-1/2026/10/step_001.png';
+
+  try {
+    // Test 1: upload, download and remove; existing files are never overwritten
+    const storage = new FileSystemStorageBackend({ rootDir });
+    await storage.upload('test-screenshots', filePath, Buffer.from('png'));
+    assert((await storage.download('test-screenshots', filePath)).toString() === 'png', 'downloaded content');
+    assert(await rejects(storage.upload('test-screenshots', filePath, Buffer.from('other'))), 'no overwrite');
+    assert(await rejects(storage.download('test-screenshots', '../test-reports/x.json')), 'paths stay in the bucket');
+    await storage.remove('test-screenshots', [filePath]);
+    assert(await rejects(storage.download('test-screenshots', filePath)), 'removed file is gone');
+    logger.info('✅ upload, download and remove');
+
+    // Test 2: without a public URL, signed URLs point at the file
+    const fileUrl = await storage.createSignedUrl('test-screenshots', filePath, 60);
+    assert(fileURLToPath(fileUrl) === join(rootDir, 'test-screenshots', filePath), 'file URL');
+    logger.info('✅ file URLs');
+
+    // Test 3: URLs served over HTTP are signed and verified
+    assert(
+      await rejects((async () => new FileSystemStorageBackend({ rootDir, publicBaseUrl: 'http://localhost:8080/storage' }))()),
+      'a public URL requires a signing secret'
+    );
+
+    const served = new FileSystemStorageBackend({
+      rootDir,
+      publicBaseUrl: 'http://localhost:8080/storage',
+      signingSecret: 'secret',
+    });
+    const signedUrl = await served.createSignedUrl('test-screenshots', filePath, 60);
+    const url = new URL(signedUrl);
+    assert(url.pathname === `/storage/test-screenshots/${filePath}`, 'URL under the public base URL');
+
+    const granted = served.verifySignedUrl(signedUrl);
+    assert(granted?.bucket === 'test-screenshots' && granted.filePath === filePath, 'valid URL is accepted');
+
+    const tampered = new URL(signedUrl);
+    tampered.pathname = '/storage/test-screenshots/run-2/2026/10/step_001.png';
+    assert(served.verifySignedUrl(tampered.href) === null, 'other path is rejected');
+
+    const extended = new URL(signedUrl);
+    extended.searchParams.set('expires', String(Number(url.searchParams.get('expires')) + 3600));
+    assert(served.verifySignedUrl(extended.href) === null, 'changed expiry is rejected');
+
+    const otherSecret = new FileSystemStorageBackend({
+      rootDir,
+      publicBaseUrl: 'http://localhost:8080/storage',
+      signingSecret: 'other',
+    });
+    assert(otherSecret.verifySignedUrl(signedUrl) === null, 'URL signed with another secret is rejected');
+
+    const expired = await served.createSignedUrl('test-screenshots', filePath, -1);
+    assert(served.verifySignedUrl(expired) === null, 'expired URL is rejected');
+    logger.info('✅ signed URLs');
+
+    logger.info('All FileSystemStorageBackend tests passed!');
+  } catch (error) {
+    logger.error('❌ Test failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await rm(rootDir, { recursive: true, force: true });
+  }
+}
+
+testFileSystemStorage();
@@ -0,0 +1,130 @@
+/**
+ * File System Storage Backend
+ *
+ * Stores artifacts under `<rootDir>/<bucket>/<path>` for offline development
+ * and tests. Signed URLs are file URLs, or URLs under `publicBaseUrl` carrying
+ * an expiry and an HMAC signature when the directory is served over HTTP; the
+ * server checks them with `verifySignedUrl`.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import type { BucketName } from '../types/database';
+import { DatabaseError } from '../types';
+import type { StorageBackend } from './storageBackend';
+
+export interface FileSystemStorageOptions {
+  rootDir: string;
+  publicBaseUrl?: string;
+  // Required with publicBaseUrl
+  signingSecret?: string;
+}
+
+export class FileSystemStorageBackend implements StorageBackend {
+  readonly name = 'local' as const;
+  private rootDir: string;
+
+  constructor(private options: FileSystemStorageOptions) {
+    this.rootDir = path.resolve(options.rootDir);
+
+    if (options.publicBaseUrl && !options.signingSecret) {
+      throw new DatabaseError('A signing secret is required to serve local storage over HTTP');
+    }
+  }
+
+  async upload(bucket: BucketName, filePath: string, data: Buffer): Promise<void> {
+    const target = this.resolve(bucket, filePath);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+
+    try {
+      // Same semantics as Supabase without upsert: never overwrite a file
+      await fs.writeFile(target, data, { flag: 'wx' });
+    } catch (error) {
+      throw new DatabaseError(`Failed to upload ${bucket}/${filePath}: ${(error as Error).message}`);
+    }
+  }
+
+  async download(bucket: BucketName, filePath: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.resolve(bucket, filePath));
+    } catch (error) {
+      throw new DatabaseError(`Failed to download ${bucket}/${filePath}: ${(error as Error).message}`);
+    }
+  }
+
+  async remove(bucket: BucketName, filePaths: string[]): Promise<void> {
+    await Promise.all(filePaths.map((filePath) => fs.rm(this.resolve(bucket, filePath), { force: true })));
+  }
+
+  async createSignedUrl(bucket: BucketName, filePath: string, expiresInSeconds: number): Promise<string> {
+    const target = this.resolve(bucket, filePath);
+
+    if (!this.options.publicBaseUrl) {
+      return pathToFileURL(target).href;
+    }
+
+    const expires = String(Math.floor(Date.now() / 1000) + expiresInSeconds);
+    const url = new URL(`${bucket}/${filePath}`, this.publicBaseUrl());
+    url.searchParams.set('expires', expires);
+    url.searchParams.set('signature', this.sign(`${bucket}/${filePath}`, expires));
+    return url.href;
+  }
+
+  /**
+   * Check a URL created by createSignedUrl; returns the bucket and path it
+   * grants access to, or null when it is foreign, tampered with or expired
+   */
+  verifySignedUrl(signedUrl: string): { bucket: BucketName; filePath: string } | null {
+    if (!this.options.publicBaseUrl) {
+      return null;
+    }
+
+    const url = new URL(signedUrl, this.publicBaseUrl());
+    const baseUrl = new URL(this.publicBaseUrl());
+    const expires = url.searchParams.get('expires');
+    const signature = url.searchParams.get('signature');
+
+    if (url.origin !== baseUrl.origin || !url.pathname.startsWith(baseUrl.pathname) || !expires || !signature) {
+      return null;
+    }
+
+    const objectPath = decodeURIComponent(url.pathname.slice(baseUrl.pathname.length));
+    const expected = Buffer.from(this.sign(objectPath, expires));
+    const given = Buffer.from(signature);
+    if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+      return null;
+    }
+    if (Number(expires) < Date.now() / 1000) {
+      return null;
+    }
+
+    const [bucket, ...rest] = objectPath.split('/');
+    return { bucket: bucket as BucketName, filePath: rest.join('/') };
+  }
+
+  private sign(objectPath: string, expires: string): string {
+    return createHmac('sha256', this.options.signingSecret ?? '')
+      .update(`${objectPath}\n${expires}`)
+      .digest('base64url');
+  }
+
+  private publicBaseUrl(): string {
+    return (this.options.publicBaseUrl ?? '').replace(/\/?$/, '/');
+  }
+
+  /**
+   * Map a bucket path to the file system, refusing paths outside the bucket
+   */
+  private resolve(bucket: BucketName, filePath: string): string {
+    const bucketDir = path.join(this.rootDir, bucket);
+    const target = path.resolve(bucketDir, filePath);
+
+    if (!target.startsWith(bucketDir + path.sep)) {
+      throw new DatabaseError(`Invalid storage path: ${filePath}`);
+    }
+
+    return target;
+  }
+}
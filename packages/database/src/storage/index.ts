@@ -0,0 +1,19 @@
+/**
+ * Storage Index
+ */
+
+export type { StorageBackend } from './storageBackend';
+export { SupabaseStorageBackend } from './supabaseStorage.backend';
+export { FileSystemStorageBackend } from './fileSystemStorage.backend';
+export type { FileSystemStorageOptions } from './fileSystemStorage.backend';
+export {
+  ArtifactStorageService,
+  createArtifactStorage,
+  createStorageBackend,
+} from './artifactStorage.service';
+export type {
+  ArtifactData,
+  UploadScreenshotParams,
+  UploadRunArtifactParams,
+  UploadReportParams,
+} from './artifactStorage.service';
@@ -0,0 +1,17 @@
+/**
+ * Storage Backend
+ *
+ * Binary storage used for test artifacts. Supabase Storage is used in
+ * deployed environments; the file system backend keeps development and
+ * tests independent of a Supabase project.
+ */
+
+import type { BucketName } from '../types/database';
+
+export interface StorageBackend {
+  readonly name: 'supabase' | 'local';
+  upload(bucket: BucketName, filePath: string, data: Buffer, contentType: string): Promise<void>;
+  download(bucket: BucketName, filePath: string): Promise<Buffer>;
+  remove(bucket: BucketName, filePaths: string[]): Promise<void>;
+  createSignedUrl(bucket: BucketName, filePath: string, expiresInSeconds: number): Promise<string>;
+}
@@ -0,0 +1,58 @@
+/**
+ * Supabase Storage Backend
+ */
+
+import { DatabaseClient, db } from '../client';
+import type { BucketName } from '../types/database';
+import { DatabaseError } from '../types';
+import type { StorageBackend } from './storageBackend';
+
+export class SupabaseStorageBackend implements StorageBackend {
+  readonly name = 'supabase' as const;
+
+  constructor(private client: DatabaseClient = db) {}
+
+  async upload(bucket: BucketName, filePath: string, data: Buffer, contentType: string): Promise<void> {
+    const { error } = await this.client.storage
+      .from(bucket)
+      .upload(filePath, data, { contentType, upsert: false });
+
+    if (error) {
+      throw new DatabaseError(`Failed to upload ${bucket}/${filePath}: ${error.message}`);
+    }
+  }
+
+  async download(bucket: BucketName, filePath: string): Promise<Buffer> {
+    const { data, error } = await this.client.storage.from(bucket).download(filePath);
+
+    if (error) {
+      throw new DatabaseError(`Failed to download ${bucket}/${filePath}: ${error.message}`);
+    }
+
+    return Buffer.from(await data.arrayBuffer());
+  }
+
+  async remove(bucket: BucketName, filePaths: string[]): Promise<void> {
+    if (filePaths.length === 0) {
+      return;
+    }
+
+    const { error } = await this.client.storage.from(bucket).remove(filePaths);
+
+    if (error) {
+      throw new DatabaseError(`Failed to remove files from ${bucket}: ${error.message}`);
+    }
+  }
+
+  async createSignedUrl(bucket: BucketName, filePath: string, expiresInSeconds: number): Promise<string> {
+    const { data, error } = await this.client.storage
+      .from(bucket)
+      .createSignedUrl(filePath, expiresInSeconds);
+
+    if (error) {
+      throw new DatabaseError(`Failed to create signed URL for ${bucket}/${filePath}: ${error.message}`);
+    }
+
+    return data.signedUrl;
+  }
+}
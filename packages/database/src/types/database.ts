@@ -21,6 +21,13 @@ export interface AdaptationPattern {
   success_rate: number;
   confidence: number;
   created_at: string;
+  // Selector fix learned from recorded step adaptations
+  action?: string;
+  original_selector?: string;
+  adapted_selector?: string;
+  occurrences?: number;
+  successes?: number;
+  updated_at?: string;
 }
 
 export interface StepAdaptation {
@@ -38,8 +45,13 @@ export interface StepAdaptation {
   confidence: number;
   timestamp: string;
   aiSuggestion?: string;
+  // Where the fix came from: a learned adaptation pattern, a Gemini suggestion
+  // or the executor's snapshot matching
+  source?: AdaptationSource;
 }
 
+export type AdaptationSource = 'pattern' | 'ai' | 'snapshot';
+
 export interface RecoveryAttempt {
   strategy: string;
   reason: string;
@@ -100,6 +112,20 @@ export interface Environment {
   };
   userAgent?: string;
   timezone: string;
+  // Name of the device profile the run emulates (matrix runs)
+  device?: string;
+  // Effective test config of the run, with its overrides merged in
+  testConfig?: TestConfig;
+}
+
+// Named browser profile a matrix run launches its test case on
+export interface DeviceProfile {
+  name: string;
+  viewport: {
+    width: number;
+    height: number;
+  };
+  userAgent?: string;
 }
 
 export interface ContainerConfig {
@@ -117,6 +143,36 @@ export interface StorageMetadata {
   was_adapted: boolean;
   adaptation_reason?: string;
   capture_context?: string;
+  // Suite run a report covers; suite run reports have no test_run_id
+  suite_run_id?: string;
+}
+
+// Suite-level result written when the last test run of a suite run finishes
+export interface SuiteRunSummary {
+  totalCases: number;
+  passed: number;
+  failed: number;
+  adapted: number;
+  cancelled: number;
+  // Cases deleted or deactivated before they were dispatched
+  skipped: number;
+  durationMs: number;
+  failures: Array<{
+    testCaseId: string;
+    testRunId: string;
+    status: TestStatus;
+    error: string | null;
+  }>;
+}
+
+// Inputs of a reliability score recomputation (reliability_score_history.components)
+export interface ReliabilityComponents {
+  passRate: number;
+  adaptationRate: number;
+  recoveryRate: number;
+  // Total runs of the test case (test_execution_summary.total_runs)
+  totalRuns: number;
+  halfLifeDays: number;
 }
 
 export interface ContainerMetadata {
@@ -146,6 +202,8 @@ export interface Database {
           created_by: string | null;
           is_active: boolean;
           tags: string[];
+          // Stable key of a case synced from a test case file
+          file_key: string | null;
         };
         Insert: {
           id?: string;
@@ -161,6 +219,7 @@ export interface Database {
           created_by?: string | null;
           is_active?: boolean;
           tags?: string[];
+          file_key?: string | null;
         };
         Update: {
           id?: string;
@@ -176,6 +235,7 @@ export interface Database {
           created_by?: string | null;
           is_active?: boolean;
           tags?: string[];
+          file_key?: string | null;
         };
       };
       test_runs: {
@@ -198,6 +258,8 @@ export interface Database {
           container_config: ContainerConfig;
           metrics: Record<string, any>;
           error_summary: string | null;
+          suite_run_id: string | null;
+          matrix_run_id: string | null;
           created_at: string;
         };
         Insert: {
@@ -219,6 +281,8 @@ export interface Database {
           container_config?: ContainerConfig;
           metrics?: Record<string, any>;
           error_summary?: string | null;
+          suite_run_id?: string | null;
+          matrix_run_id?: string | null;
           created_at?: string;
         };
         Update: {
@@ -240,6 +304,8 @@ export interface Database {
           container_config?: ContainerConfig;
           metrics?: Record<string, any>;
           error_summary?: string | null;
+          suite_run_id?: string | null;
+          matrix_run_id?: string | null;
           created_at?: string;
         };
       };
@@ -479,6 +545,175 @@ export interface Database {
           created_at?: string;
         };
       };
+      reliability_score_history: {
+        Row: {
+          id: string;
+          test_case_id: string;
+          test_run_id: string | null;
+          score: number;
+          components: ReliabilityComponents;
+          runs_considered: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          test_case_id: string;
+          test_run_id?: string | null;
+          score: number;
+          components?: ReliabilityComponents;
+          runs_considered?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          test_case_id?: string;
+          test_run_id?: string | null;
+          score?: number;
+          components?: ReliabilityComponents;
+          runs_considered?: number;
+          created_at?: string;
+        };
+      };
+      test_schedules: {
+        Row: {
+          id: string;
+          test_case_id: string;
+          name: string | null;
+          cron_expression: string;
+          timezone: string;
+          enabled: boolean;
+          config_overrides: Partial<TestConfig>;
+          last_run_at: string | null;
+          last_run_id: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          test_case_id: string;
+          name?: string | null;
+          cron_expression: string;
+          timezone?: string;
+          enabled?: boolean;
+          config_overrides?: Partial<TestConfig>;
+          last_run_at?: string | null;
+          last_run_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          test_case_id?: string;
+          name?: string | null;
+          cron_expression?: string;
+          timezone?: string;
+          enabled?: boolean;
+          config_overrides?: Partial<TestConfig>;
+          last_run_at?: string | null;
+          last_run_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      test_suites: {
+        Row: {
+          id: string;
+          name: string;
+          description: string | null;
+          test_case_ids: string[];
+          config_overrides: Partial<TestConfig>;
+          concurrency: number;
+          tags: string[];
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          description?: string | null;
+          test_case_ids?: string[];
+          config_overrides?: Partial<TestConfig>;
+          concurrency?: number;
+          tags?: string[];
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          description?: string | null;
+          test_case_ids?: string[];
+          config_overrides?: Partial<TestConfig>;
+          concurrency?: number;
+          tags?: string[];
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      test_suite_runs: {
+        Row: {
+          id: string;
+          suite_id: string;
+          status: TestStatus;
+          test_case_ids: string[];
+          config_overrides: Partial<TestConfig>;
+          concurrency: number;
+          next_case_index: number;
+          summary: SuiteRunSummary | null;
+          started_at: string | null;
+          completed_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          suite_id: string;
+          status?: TestStatus;
+          test_case_ids?: string[];
+          config_overrides?: Partial<TestConfig>;
+          concurrency?: number;
+          next_case_index?: number;
+          summary?: SuiteRunSummary | null;
+          started_at?: string | null;
+          completed_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          suite_id?: string;
+          status?: TestStatus;
+          test_case_ids?: string[];
+          config_overrides?: Partial<TestConfig>;
+          concurrency?: number;
+          next_case_index?: number;
+          summary?: SuiteRunSummary | null;
+          started_at?: string | null;
+          completed_at?: string | null;
+          created_at?: string;
+        };
+      };
+      test_matrix_runs: {
+        Row: {
+          id: string;
+          test_case_id: string;
+          profiles: DeviceProfile[];
+          config_overrides: Partial<TestConfig>;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          test_case_id: string;
+          profiles?: DeviceProfile[];
+          config_overrides?: Partial<TestConfig>;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          test_case_id?: string;
+          profiles?: DeviceProfile[];
+          config_overrides?: Partial<TestConfig>;
+          created_at?: string;
+        };
+      };
     };
     Views: {
       test_execution_summary: {
@@ -556,6 +791,12 @@ export type ContainerAllocation = Tables<'container_allocations'>;
 export type StorageReference = Tables<'storage_references'>;
 export type AIAnalysis = Tables<'ai_analysis'>;
 export type TestExecutionEvent = Tables<'test_execution_events'>;
+export type ReliabilityScoreHistory = Tables<'reliability_score_history'>;
+export type TestSchedule = Tables<'test_schedules'>;
+export type TestSuite = Tables<'test_suites'>;
+export type TestSuiteRun = Tables<'test_suite_runs'>;
+export type TestMatrixRun = Tables<'test_matrix_runs'>;
+export type TestExecutionSummary = Database['public']['Views']['test_execution_summary']['Row'];
 
 // Insert and Update types
 export type TestCaseInsert = Database['public']['Tables']['test_cases']['Insert'];
@@ -565,6 +806,11 @@ export type ContainerAllocationInsert = Database['public']['Tables']['container_
 export type StorageReferenceInsert = Database['public']['Tables']['storage_references']['Insert'];
 export type AIAnalysisInsert = Database['public']['Tables']['ai_analysis']['Insert'];
 export type TestExecutionEventInsert = Database['public']['Tables']['test_execution_events']['Insert'];
+export type ReliabilityScoreHistoryInsert = Database['public']['Tables']['reliability_score_history']['Insert'];
+export type TestScheduleInsert = Database['public']['Tables']['test_schedules']['Insert'];
+export type TestSuiteInsert = Database['public']['Tables']['test_suites']['Insert'];
+export type TestSuiteRunInsert = Database['public']['Tables']['test_suite_runs']['Insert'];
+export type TestMatrixRunInsert = Database['public']['Tables']['test_matrix_runs']['Insert'];
 
 export type TestCaseUpdate = Database['public']['Tables']['test_cases']['Update'];
 export type TestRunUpdate = Database['public']['Tables']['test_runs']['Update'];
@@ -572,4 +818,9 @@ export type TestStepUpdate = Database['public']['Tables']['test_steps']['Update'
 export type ContainerAllocationUpdate = Database['public']['Tables']['container_allocations']['Update'];
 export type StorageReferenceUpdate = Database['public']['Tables']['storage_references']['Update'];
 export type AIAnalysisUpdate = Database['public']['Tables']['ai_analysis']['Update'];
-export type TestExecutionEventUpdate = Database['public']['Tables']['test_execution_events']['Update'];
\ No newline at end of file
+export type TestExecutionEventUpdate = Database['public']['Tables']['test_execution_events']['Update'];
+export type ReliabilityScoreHistoryUpdate = Database['public']['Tables']['reliability_score_history']['Update'];
+export type TestScheduleUpdate = Database['public']['Tables']['test_schedules']['Update'];
+export type TestSuiteUpdate = Database['public']['Tables']['test_suites']['Update'];
+export type TestSuiteRunUpdate = Database['public']['Tables']['test_suite_runs']['Update'];
+export type TestMatrixRunUpdate = Database['public']['Tables']['test_matrix_runs']['Update'];
\ No newline at end of file
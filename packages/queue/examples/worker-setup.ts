@@ -8,10 +8,13 @@ import {
   TestExecutionProcessor,
   CleanupJobProcessor,
   JobProcessorFactory,
+  type AdaptationLearningJobData,
+  type CleanupJobData,
   type TestJobData,
   type TestJobResult 
 } from '../src';
 import { Job } from 'bullmq';
+import { createArtifactStorage, createRepositories } from '@cinnamon-qa/database';
 import { createLogger } from '@cinnamon-qa/logger';
 
 const logger = createLogger({ context: 'WorkerSetup' });
@@ -29,8 +32,11 @@ async function workerSetupExample() {
     async (job: Job<TestJobData, TestJobResult>) => {
       logger.info('Processing test job', { jobId: job.id, jobData: job.data });
       
-      // 커스텀 프로세서 사용
-      const processor = new TestExecutionProcessor();
+      // 커스텀 프로세서 사용 (스텝 실행기는 시뮬레이션)
+      const processor = new TestExecutionProcessor(createRepositories(), async () => ({
+        executeStep: async () => ({ success: true }),
+        dispose: async () => undefined,
+      }));
       
       // 진행률 업데이트 예제
       await job.updateProgress({
@@ -84,12 +90,13 @@ async function workerSetupExample() {
   // 2. 정리 작업 Worker 설정
   logger.info('Setting up cleanup worker');
   
-  const cleanupWorker = queueManager.createWorker(
+  const cleanupWorker = queueManager.createWorker<CleanupJobData>(
     QueueNames.CLEANUP,
-    async (job: Job<TestJobData, TestJobResult>) => {
+    async (job: Job<CleanupJobData, TestJobResult>) => {
       logger.info('Processing cleanup job', { jobId: job.id });
       
-      const processor = new CleanupJobProcessor();
+      // 보존 기간이 지난 아티팩트 보관 및 삭제
+      const processor = new CleanupJobProcessor(createRepositories(), createArtifactStorage());
       return await processor.process(job);
     },
     {
@@ -104,12 +111,15 @@ async function workerSetupExample() {
   // 3. 적응 학습 Worker 설정
   logger.info('Setting up adaptation learning worker');
   
-  const learningWorker = queueManager.createWorker(
+  const learningWorker = queueManager.createWorker<AdaptationLearningJobData>(
     QueueNames.ADAPTATION_LEARNING,
-    async (job: Job<TestJobData, TestJobResult>) => {
+    async (job: Job<AdaptationLearningJobData, TestJobResult>) => {
       logger.info('Processing learning job', { jobId: job.id });
       
-      const processor = JobProcessorFactory.createProcessor('adaptation-learning');
+      // 실행 결과의 셀렉터 수정 내역을 adaptation_patterns에 병합하고 신뢰도 점수 재계산
+      const processor = JobProcessorFactory.createProcessor('adaptation-learning', {
+        repositories: createRepositories(),
+      });
       return await processor.process(job);
     },
     {
@@ -0,0 +1,37 @@
+/**
+ * Test Run Cancellation
+ *
+ * Cancellation requests are stored in Redis so that the worker running a
+ * test job can notice them between steps, whichever process asked for it.
+ */
+
+import { RedisClient, getRedisClient } from './redis';
+
+const KEY_PREFIX = 'test-run-cancel:';
+const REQUEST_TTL_SECONDS = 24 * 60 * 60;
+
+export class TestRunCancelledError extends Error {
+  constructor(testRunId: string) {
+    super(`Test run ${testRunId} was cancelled`);
+    this.name = 'TestRunCancelledError';
+  }
+}
+
+export class TestRunCancellation {
+  constructor(private redisClient: RedisClient = getRedisClient()) {}
+
+  async request(testRunId: string): Promise<void> {
+    await this.redisClient.connect();
+    await this.redisClient.instance.set(`${KEY_PREFIX}${testRunId}`, Date.now().toString(), 'EX', REQUEST_TTL_SECONDS);
+  }
+
+  async isRequested(testRunId: string): Promise<boolean> {
+    await this.redisClient.connect();
+    return (await this.redisClient.instance.exists(`${KEY_PREFIX}${testRunId}`)) === 1;
+  }
+
+  async clear(testRunId: string): Promise<void> {
+    await this.redisClient.connect();
+    await this.redisClient.instance.del(`${KEY_PREFIX}${testRunId}`);
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Test Run Event Streaming
+ *
+ * The worker publishes job progress and step events to a per-run Redis
+ * channel; the API server subscribes and fans them out to SSE clients.
+ */
+
+import type Redis from 'ioredis';
+import { createLogger } from '@cinnamon-qa/logger';
+import type { TestExecutionEvent } from '@cinnamon-qa/database';
+import type { JobProgress, TestRunStreamEvent } from './types';
+import { RedisClient, getRedisClient } from './redis';
+
+const logger = createLogger({ context: 'TestRunEvents' });
+
+const CHANNEL_PREFIX = 'test-run-events:';
+
+export type TestRunEventListener = (event: TestRunStreamEvent) => void;
+
+export function getTestRunChannel(testRunId: string): string {
+  return `${CHANNEL_PREFIX}${testRunId}`;
+}
+
+/**
+ * Convert a persisted test_execution_events row into a stream event.
+ * The row id becomes the SSE event id used for Last-Event-ID replay.
+ */
+export function toStreamEvent(event: TestExecutionEvent): TestRunStreamEvent {
+  return {
+    id: event.id,
+    testRunId: event.test_run_id,
+    type: event.event_type,
+    data: event.event_data,
+    message: event.message,
+    timestamp: event.created_at,
+  };
+}
+
+export function progressToStreamEvent(progress: JobProgress): TestRunStreamEvent {
+  return {
+    testRunId: progress.testRunId,
+    type: 'progress',
+    data: progress,
+    message: progress.message ?? null,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Publishes test run events to Redis
+ */
+export class TestRunEventPublisher {
+  constructor(private redisClient: RedisClient = getRedisClient()) {}
+
+  async publish(event: TestRunStreamEvent): Promise<void> {
+    await this.redisClient.connect();
+    await this.redisClient.instance.publish(getTestRunChannel(event.testRunId), JSON.stringify(event));
+  }
+}
+
+/**
+ * Subscribes to test run events over a dedicated Redis connection and
+ * dispatches them to in-process listeners, one Redis subscription per run
+ */
+export class TestRunEventSubscriber {
+  private subscriber: Redis | null = null;
+  private channels = new Map<string, { listeners: Set<TestRunEventListener>; ready: Promise<unknown> }>();
+
+  constructor(private redisClient: RedisClient = getRedisClient()) {}
+
+  /**
+   * Listen to the events of a test run. Resolves once the Redis subscription
+   * is active and returns the function that removes the listener.
+   */
+  async subscribe(testRunId: string, listener: TestRunEventListener): Promise<() => Promise<void>> {
+    const subscriber = await this.getSubscriber();
+    const channel = getTestRunChannel(testRunId);
+
+    let entry = this.channels.get(channel);
+    if (!entry) {
+      entry = { listeners: new Set(), ready: subscriber.subscribe(channel) };
+      this.channels.set(channel, entry);
+    }
+    entry.listeners.add(listener);
+    await entry.ready;
+
+    return async () => {
+      const current = this.channels.get(channel);
+      if (!current) {
+        return;
+      }
+      current.listeners.delete(listener);
+      if (current.listeners.size === 0) {
+        this.channels.delete(channel);
+        await subscriber.unsubscribe(channel);
+      }
+    };
+  }
+
+  async close(): Promise<void> {
+    if (this.subscriber) {
+      await this.subscriber.quit();
+      this.subscriber = null;
+    }
+    this.channels.clear();
+  }
+
+  private async getSubscriber(): Promise<Redis> {
+    if (this.subscriber) {
+      return this.subscriber;
+    }
+
+    await this.redisClient.connect();
+    if (this.subscriber) {
+      return this.subscriber;
+    }
+
+    const subscriber = this.redisClient.instance.duplicate();
+
+    subscriber.on('message', (channel: string, message: string) => {
+      const entry = this.channels.get(channel);
+      if (!entry) {
+        return;
+      }
+
+      let event: TestRunStreamEvent;
+      try {
+        event = JSON.parse(message);
+      } catch {
+        logger.warn('Ignoring malformed test run event', { channel });
+        return;
+      }
+
+      for (const listener of entry.listeners) {
+        listener(event);
+      }
+    });
+
+    subscriber.on('error', (error) => {
+      logger.error('Test run event subscriber error', { error: error.message });
+    });
+
+    this.subscriber = subscriber;
+    return subscriber;
+  }
+}
+
+// Default subscriber instance
+let defaultSubscriber: TestRunEventSubscriber | null = null;
+
+export function getTestRunEventSubscriber(): TestRunEventSubscriber {
+  if (!defaultSubscriber) {
+    defaultSubscriber = new TestRunEventSubscriber();
+  }
+  return defaultSubscriber;
+}
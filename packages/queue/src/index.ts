@@ -8,4 +8,8 @@
 export * from './redis';
 export * from './queue';
 export * from './jobs';
+export * from './events';
+export * from './cancellation';
+export * from './suites';
+export * from './matrix';
 export * from './types';
\ No newline at end of file
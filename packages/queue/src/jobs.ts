@@ -3,19 +3,91 @@
  */
 
 import type { Job } from 'bullmq';
+import { parseExpression } from 'cron-parser';
 import { createLogger } from '@cinnamon-qa/logger';
-import type { TestJobData, TestJobResult, JobProgress } from './types';
+import { ReliabilityScoreService } from '@cinnamon-qa/database';
+import type {
+  AdaptationPattern,
+  ArtifactStorageService,
+  Environment,
+  FileType,
+  Repositories,
+  StepAdaptation,
+  TestCaseUpdate,
+  TestConfig,
+  TestStatus,
+  TestStep,
+  TestStepUpdate,
+} from '@cinnamon-qa/database';
+import type {
+  AdaptationLearningJobData,
+  AdaptationLearningSummary,
+  CleanupJobData,
+  CleanupSummary,
+  RetentionPolicy,
+  ScheduledTestJobData,
+  RunConfigOverrides,
+  TestJobData,
+  TestJobResult,
+  JobProgress,
+  ExecutableTestStep,
+  StepExecutionOutcome,
+  TestStepExecutor,
+  TestStepExecutorFactory,
+  TestRunStreamEvent,
+} from './types';
+import { progressToStreamEvent, toStreamEvent, type TestRunEventPublisher } from './events';
+import { TestRunCancelledError, type TestRunCancellation } from './cancellation';
+import { getQueueManager, type QueueManager } from './queue';
 
 const logger = createLogger({ context: 'JobProcessor' });
 
+interface ExecutionState {
+  totalSteps: number;
+  completedSteps: number;
+  failedSteps: number;
+  adaptations: NonNullable<TestJobResult['adaptations']>;
+}
+
+// Selector fix recorded on a step, as considered by the learning job
+interface LearnedAdaptation {
+  action: string;
+  originalSelector: string;
+  adaptedSelector: string;
+  reason: string;
+  confidence: number;
+  successful: boolean;
+}
+
+function calculatePercentage(done: number, total: number): number {
+  return total > 0 ? Math.round((done / total) * 100) : 0;
+}
+
+// Learned patterns handed to executors must be this reliable
+const MIN_APPLIED_PATTERN_CONFIDENCE = 0.7;
+const MIN_APPLIED_PATTERN_SUCCESS_RATE = 0.8;
+
+/**
+ * Learned selector fixes reliable enough for an executor to apply before
+ * falling back to its own element matching
+ */
+export function selectApplicablePatterns(patterns: AdaptationPattern[]): AdaptationPattern[] {
+  return patterns.filter((pattern) =>
+    !!pattern.original_selector &&
+    !!pattern.adapted_selector &&
+    pattern.confidence >= MIN_APPLIED_PATTERN_CONFIDENCE &&
+    pattern.success_rate >= MIN_APPLIED_PATTERN_SUCCESS_RATE
+  );
+}
+
 /**
  * Abstract base class for job processors
  */
-export abstract class BaseJobProcessor {
-  abstract process(job: Job<TestJobData, TestJobResult>): Promise<TestJobResult>;
+export abstract class BaseJobProcessor<TData = TestJobData> {
+  abstract process(job: Job<TData, TestJobResult>): Promise<TestJobResult>;
 
   protected async updateProgress(
-    job: Job<TestJobData, TestJobResult>,
+    job: Job<TData, TestJobResult>,
     progress: JobProgress
   ): Promise<void> {
     await job.updateProgress(progress);
@@ -39,16 +111,60 @@ export abstract class BaseJobProcessor {
 
 /**
  * Test execution job processor
+ *
+ * Loads the analyzed steps of the test case, runs them one by one through
+ * the step executor and persists step results, adaptations and progress.
+ * When a publisher is given, progress and step events are also streamed to
+ * the API server through Redis; when a cancellation store is given, the run
+ * stops before the next step once cancellation has been requested. When an
+ * artifact storage is given, step screenshots and run artifacts are uploaded.
+ * The test case's reliability score is recomputed once the run finishes.
  */
 export class TestExecutionProcessor extends BaseJobProcessor {
+  private publisher?: TestRunEventPublisher;
+  private cancellation?: TestRunCancellation;
+  private storage?: ArtifactStorageService;
+  private reliability: ReliabilityScoreService;
+
+  constructor(
+    private repositories: Repositories,
+    private createExecutor: TestStepExecutorFactory,
+    options: {
+      publisher?: TestRunEventPublisher;
+      cancellation?: TestRunCancellation;
+      storage?: ArtifactStorageService;
+    } = {}
+  ) {
+    super();
+    this.publisher = options.publisher;
+    this.cancellation = options.cancellation;
+    this.storage = options.storage;
+    this.reliability = new ReliabilityScoreService(repositories);
+  }
+
   async process(job: Job<TestJobData, TestJobResult>): Promise<TestJobResult> {
-    const { testCaseId, testRunId, config } = job.data;
-    
+    const { testCaseId, testRunId } = job.data;
+    const startTime = Date.now();
+    const state: ExecutionState = {
+      totalSteps: 0,
+      completedSteps: 0,
+      failedSteps: 0,
+      adaptations: [],
+    };
+    let executor: TestStepExecutor | null = null;
+
     try {
       logger.info('Starting test execution', { testCaseId, testRunId });
-      
-      // Update initial progress
-      await this.updateProgress(job, {
+
+      // The run may have been cancelled while the job was being picked up
+      await this.throwIfCancelled(testRunId);
+
+      await this.repositories.testRun.update(testRunId, {
+        status: 'running',
+        started_at: new Date().toISOString(),
+      });
+
+      await this.reportProgress(job, {
         testRunId,
         currentStep: 0,
         totalSteps: 0,
@@ -56,122 +172,953 @@ export class TestExecutionProcessor extends BaseJobProcessor {
         message: 'Initializing test execution...',
       });
 
-      // TODO: Implement actual test execution logic
-      // This will involve:
-      // 1. Loading test case from database
-      // 2. Starting Playwright browser
-      // 3. Executing test steps with adaptation
-      // 4. Updating progress throughout
-      // 5. Saving results to database
+      const { steps, adaptationPatterns } = await this.loadSteps(testCaseId);
+      state.totalSteps = steps.length;
+      await this.repositories.testRun.update(testRunId, { total_steps: steps.length });
 
-      // Placeholder implementation
-      const result: TestJobResult = {
+      executor = await this.createExecutor(job, { adaptationPatterns });
+      await this.executeSteps(job, executor, steps, state);
+
+      const status: TestStatus = state.failedSteps > 0
+        ? 'failed'
+        : state.adaptations.some((adaptation) => adaptation.successful) ? 'adapted' : 'completed';
+
+      return await this.finish(job, status, state, startTime);
+
+    } catch (error) {
+      if (error instanceof TestRunCancelledError) {
+        logger.info('Test execution cancelled', { testRunId });
+        return await this.finish(job, 'cancelled', state, startTime, 'Cancelled by user');
+      }
+
+      const err = error as Error;
+      logger.error('Test execution failed', { testRunId, error: err.message, stack: err.stack });
+      return await this.finish(job, 'failed', state, startTime, err.message);
+
+    } finally {
+      if (executor) {
+        await this.storeRunArtifacts(testRunId, executor);
+        await executor.dispose().catch((error: Error) => {
+          logger.warn('Failed to dispose step executor', { testRunId, error: error.message });
+        });
+      }
+    }
+  }
+
+  /**
+   * Load the most recent analyzed steps of an active test case, along with
+   * the learned adaptation patterns reliable enough to apply
+   */
+  private async loadSteps(
+    testCaseId: string
+  ): Promise<{ steps: ExecutableTestStep[]; adaptationPatterns: AdaptationPattern[] }> {
+    const testCase = await this.repositories.testCase.findById(testCaseId);
+    if (!testCase) {
+      throw new Error(`Test case not found: ${testCaseId}`);
+    }
+
+    const analysis = await this.repositories.aiAnalysis.getLatestByType(testCaseId, 'scenario_analysis');
+    const generatedSteps: Omit<ExecutableTestStep, 'stepNumber'>[] = analysis?.output_data?.generated_steps ?? [];
+
+    if (generatedSteps.length === 0) {
+      throw new Error(`Test case ${testCaseId} has no analyzed steps`);
+    }
+
+    return {
+      steps: generatedSteps.map((step, index) => ({
+        ...step,
+        stepNumber: index + 1,
+      })),
+      adaptationPatterns: selectApplicablePatterns(testCase.adaptation_patterns ?? []),
+    };
+  }
+
+  private async executeSteps(
+    job: Job<TestJobData, TestJobResult>,
+    executor: TestStepExecutor,
+    steps: ExecutableTestStep[],
+    state: ExecutionState
+  ): Promise<void> {
+    const { testRunId, config } = job.data;
+    const adaptiveMode = config?.adaptiveMode ?? true;
+    const maxAdaptations = config?.maxAdaptations ?? Number.POSITIVE_INFINITY;
+
+    for (const step of steps) {
+      await this.throwIfCancelled(testRunId);
+
+      // Inserted as 'running' so that the status triggers on test_steps emit
+      // step_complete / step_error events when the step finishes
+      const stepRecord = await this.repositories.testStep.create({
+        test_run_id: testRunId,
+        step_number: step.stepNumber,
+        action: step.action,
+        target: { selector: step.selector },
+        input_data: {
+          value: step.value,
+          description: step.description,
+          waitCondition: step.waitCondition,
+          expectedResult: step.expectedResult,
+        },
+        status: 'running',
+        started_at: new Date().toISOString(),
+      });
+
+      const startEvent = await this.repositories.testExecutionEvents.createStepStartEvent(testRunId, stepRecord.id, {
+        stepNumber: step.stepNumber,
+        action: step.action,
+        target: stepRecord.target,
+      });
+      await this.publish(toStreamEvent(startEvent));
+
+      await this.reportProgress(job, {
         testRunId,
-        status: 'completed',
-        totalSteps: 1,
-        completedSteps: 1,
-        failedSteps: 0,
-        adaptedSteps: 0,
-        duration: 1000,
+        currentStep: step.stepNumber,
+        totalSteps: steps.length,
+        percentage: calculatePercentage(step.stepNumber - 1, steps.length),
+        message: step.description ?? `Executing ${step.action}`,
+        stepData: {
+          action: step.action,
+          status: 'running',
+        },
+      });
+
+      const stepStartTime = Date.now();
+      const outcome = await executor.executeStep(step, {
+        allowAdaptation: adaptiveMode && state.adaptations.length < maxAdaptations,
+      });
+      const duration = Date.now() - stepStartTime;
+
+      const stepStatus = await this.recordStepOutcome(stepRecord.id, step, outcome, duration, state);
+      await this.publishLatestStepEvent(stepRecord.id);
+      await this.storeScreenshot(testRunId, stepRecord.id, step, outcome, stepStatus);
+
+      await this.reportProgress(job, {
+        testRunId,
+        currentStep: step.stepNumber,
+        totalSteps: steps.length,
+        percentage: calculatePercentage(step.stepNumber, steps.length),
+        stepData: {
+          action: step.action,
+          status: stepStatus === 'success' ? 'completed' : stepStatus,
+          duration,
+          error: outcome.error,
+        },
+      });
+
+      if (stepStatus === 'failed') {
+        logger.warn('Step failed, stopping test execution', {
+          testRunId,
+          stepNumber: step.stepNumber,
+          error: outcome.error,
+        });
+        break;
+      }
+    }
+  }
+
+  /**
+   * Persist the outcome of a step and update the running counters.
+   * A single update is issued so that the test_steps status trigger records
+   * the step_complete / step_error / step_adapted event with the final data.
+   */
+  private async recordStepOutcome(
+    testStepId: string,
+    step: ExecutableTestStep,
+    outcome: StepExecutionOutcome,
+    duration: number,
+    state: ExecutionState
+  ): Promise<'success' | 'failed' | 'adapted'> {
+    const status = !outcome.success ? 'failed' : outcome.adaptation ? 'adapted' : 'success';
+    const update: TestStepUpdate = {
+      status,
+      completed_at: new Date().toISOString(),
+      duration_ms: duration,
+    };
+
+    if (outcome.adaptation) {
+      const adaptation: StepAdaptation = {
+        reason: outcome.adaptation.reason,
+        originalAction: outcome.adaptation.originalAction,
+        adaptedAction: outcome.adaptation.adaptedAction,
+        confidence: outcome.adaptation.confidence,
+        timestamp: new Date().toISOString(),
+        aiSuggestion: outcome.adaptation.aiSuggestion,
+        source: outcome.adaptation.source,
       };
+      update.adaptations = [adaptation];
 
-      logger.info('Test execution completed', { testRunId, result });
-      return result;
-      
+      state.adaptations.push({
+        stepNumber: step.stepNumber,
+        adaptationType: outcome.adaptation.adaptationType,
+        reason: outcome.adaptation.reason,
+        source: outcome.adaptation.source,
+        successful: outcome.success,
+      });
+
+      logger.info('Step adapted', {
+        testStepId,
+        stepNumber: step.stepNumber,
+        source: outcome.adaptation.source,
+        adaptedSelector: outcome.adaptation.adaptedAction.selector,
+        successful: outcome.success,
+      });
+    }
+
+    // Undefined fields are dropped from the update and keep their column defaults
+    if (outcome.capture) {
+      update.page_state_before = outcome.capture.pageStateBefore;
+      update.page_state_after = outcome.capture.pageStateAfter;
+      update.dom_snapshot = outcome.capture.domSnapshot;
+      update.console_logs = outcome.capture.consoleLogs;
+      update.network_logs = outcome.capture.networkLogs;
+    }
+
+    if (status === 'failed') {
+      update.error_type = 'execution_error';
+      update.error_message = outcome.error ?? null;
+      state.failedSteps++;
+    } else {
+      state.completedSteps++;
+    }
+
+    await this.repositories.testStep.update(testStepId, update);
+    return status;
+  }
+
+  private async storeScreenshot(
+    testRunId: string,
+    testStepId: string,
+    step: ExecutableTestStep,
+    outcome: StepExecutionOutcome,
+    stepStatus: string
+  ): Promise<void> {
+    if (!this.storage || !outcome.screenshot) {
+      return;
+    }
+
+    try {
+      await this.storage.uploadScreenshot({
+        testRunId,
+        testStepId,
+        stepNumber: step.stepNumber,
+        data: outcome.screenshot,
+        wasAdapted: !!outcome.adaptation,
+        adaptationReason: outcome.adaptation?.reason,
+        captureContext: `after_${step.action}_${stepStatus}`,
+      });
+    } catch (error) {
+      logger.warn('Failed to store step screenshot', {
+        testRunId,
+        stepNumber: step.stepNumber,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  private async storeRunArtifacts(testRunId: string, executor: TestStepExecutor): Promise<void> {
+    if (!this.storage || !executor.collectArtifacts) {
+      return;
+    }
+
+    try {
+      const artifacts = await executor.collectArtifacts();
+      for (const artifact of artifacts) {
+        const params = { testRunId, data: artifact.data, mimeType: artifact.mimeType };
+        await (artifact.type === 'video' ? this.storage.uploadVideo(params) : this.storage.uploadHar(params));
+      }
+    } catch (error) {
+      logger.warn('Failed to store run artifacts', { testRunId, error: (error as Error).message });
+    }
+  }
+
+  private async updateReliability(testCaseId: string, testRunId: string): Promise<void> {
+    try {
+      const entry = await this.reliability.recompute(testCaseId, testRunId);
+      logger.info('Reliability score updated', { testCaseId, testRunId, score: entry.score });
+    } catch (error) {
+      logger.warn('Failed to update reliability score', {
+        testCaseId,
+        testRunId,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  private async finish(
+    job: Job<TestJobData, TestJobResult>,
+    status: TestStatus,
+    state: ExecutionState,
+    startTime: number,
+    errorSummary?: string
+  ): Promise<TestJobResult> {
+    const { testRunId } = job.data;
+
+    // A cancel that arrived during the last step still wins; the API has
+    // already marked the run cancelled
+    if (status !== 'cancelled' && await this.isCancellationRequested(testRunId)) {
+      status = 'cancelled';
+      errorSummary = 'Cancelled by user';
+    }
+
+    const duration = Date.now() - startTime;
+    const adaptedSteps = state.adaptations.filter((adaptation) => adaptation.successful).length;
+
+    try {
+      await this.repositories.testRun.update(testRunId, {
+        status,
+        completed_at: new Date().toISOString(),
+        error_summary: errorSummary ?? null,
+      });
+
+      const completeEvent = await this.repositories.testExecutionEvents.createTestCompleteEvent(testRunId, {
+        status,
+        totalSteps: state.totalSteps,
+        completedSteps: state.completedSteps,
+        failedSteps: state.failedSteps,
+        adaptedSteps,
+        duration,
+        adaptationCount: state.adaptations.length,
+      });
+      await this.publish(toStreamEvent(completeEvent));
+    } catch (error) {
+      logger.error('Failed to record test run completion', {
+        testRunId,
+        error: (error as Error).message,
+      });
+    }
+
+    if (status !== 'cancelled') {
+      await this.updateReliability(job.data.testCaseId, testRunId);
+    }
+
+    await this.reportProgress(job, {
+      testRunId,
+      currentStep: state.completedSteps + state.failedSteps,
+      totalSteps: state.totalSteps,
+      percentage: 100,
+      message: status === 'failed'
+        ? 'Test execution failed'
+        : status === 'cancelled' ? 'Test execution cancelled' : 'Test execution completed',
+    });
+
+    const result: TestJobResult = {
+      testRunId,
+      status: status === 'failed' || status === 'cancelled' || status === 'adapted' ? status : 'completed',
+      totalSteps: state.totalSteps,
+      completedSteps: state.completedSteps,
+      failedSteps: state.failedSteps,
+      adaptedSteps,
+      duration,
+      error: errorSummary,
+      adaptations: state.adaptations,
+    };
+
+    logger.info('Test execution completed', { testRunId, result });
+    return result;
+  }
+
+  /**
+   * Progress is informational; never fail the run because of it
+   */
+  private async reportProgress(job: Job<TestJobData, TestJobResult>, progress: JobProgress): Promise<void> {
+    try {
+      await this.updateProgress(job, progress);
+    } catch (error) {
+      logger.warn('Failed to update job progress', { jobId: job.id, error: (error as Error).message });
+    }
+    await this.publish(progressToStreamEvent(progress));
+  }
+
+  private async throwIfCancelled(testRunId: string): Promise<void> {
+    if (this.cancellation && await this.cancellation.isRequested(testRunId)) {
+      throw new TestRunCancelledError(testRunId);
+    }
+  }
+
+  /**
+   * Like throwIfCancelled, but for the end of the run where a failing check
+   * must not lose the outcome
+   */
+  private async isCancellationRequested(testRunId: string): Promise<boolean> {
+    try {
+      return !!this.cancellation && await this.cancellation.isRequested(testRunId);
+    } catch (error) {
+      logger.warn('Failed to check test run cancellation', { testRunId, error: (error as Error).message });
+      return false;
+    }
+  }
+
+  /**
+   * Step completion events are written by the test_steps status trigger,
+   * so read back the newest one to stream it
+   */
+  private async publishLatestStepEvent(testStepId: string): Promise<void> {
+    if (!this.publisher) {
+      return;
+    }
+
+    try {
+      const events = await this.repositories.testExecutionEvents.getByTestStepId(testStepId);
+      const latest = events[events.length - 1];
+      if (latest) {
+        await this.publish(toStreamEvent(latest));
+      }
+    } catch (error) {
+      logger.warn('Failed to load step event for streaming', { testStepId, error: (error as Error).message });
+    }
+  }
+
+  private async publish(event: TestRunStreamEvent): Promise<void> {
+    if (!this.publisher) {
+      return;
+    }
+
+    try {
+      await this.publisher.publish(event);
     } catch (error) {
-      return this.handleError(error as Error, `test execution ${testRunId}`);
+      logger.warn('Failed to publish test run event', {
+        testRunId: event.testRunId,
+        type: event.type,
+        error: (error as Error).message,
+      });
     }
   }
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Ids per request when archiving, to keep the PostgREST filter short
+const ARCHIVE_BATCH_SIZE = 100;
+
+// Defaults follow packages/database/storage-strategy.md
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  files: {
+    screenshot: 30,
+    video: 7,
+    har: 30,
+    report: 90,
+  },
+  adaptedFileExtension: 60,
+  archivedGracePeriod: 7,
+  aiAnalysis: 90,
+  executionEvents: 30,
+  containerAllocations: 30,
+};
+
+export function resolveRetentionPolicy(
+  base: RetentionPolicy,
+  overrides: CleanupJobData['retention'] = {}
+): RetentionPolicy {
+  return {
+    ...base,
+    ...overrides,
+    files: { ...base.files, ...overrides.files },
+  };
+}
+
 /**
  * Cleanup job processor for removing old data
+ *
+ * Archives files past their retention, deletes the blobs and rows of files
+ * archived longer than the grace period, and prunes old analysis, event and
+ * container allocation records. Each phase runs even when an earlier one
+ * fails; failures are reported in the result.
  */
-export class CleanupJobProcessor extends BaseJobProcessor {
-  async process(job: Job<TestJobData, TestJobResult>): Promise<TestJobResult> {
-    try {
-      logger.info('Starting cleanup job');
-      
-      // TODO: Implement cleanup logic
-      // This will involve:
-      // 1. Cleaning old test runs
-      // 2. Cleaning old storage files
-      // 3. Cleaning old container allocations
-      // 4. Cleaning old analysis data
+export class CleanupJobProcessor extends BaseJobProcessor<CleanupJobData> {
+  constructor(
+    private repositories: Repositories,
+    private storage: ArtifactStorageService,
+    private policy: RetentionPolicy = DEFAULT_RETENTION_POLICY
+  ) {
+    super();
+  }
 
-      const result: TestJobResult = {
-        testRunId: 'cleanup',
-        status: 'completed',
-        totalSteps: 1,
-        completedSteps: 1,
-        failedSteps: 0,
-        adaptedSteps: 0,
-        duration: 500,
-      };
+  async process(job: Job<CleanupJobData, TestJobResult>): Promise<TestJobResult> {
+    const startTime = Date.now();
+    const policy = resolveRetentionPolicy(this.policy, job.data?.retention);
+    const summary: CleanupSummary = {
+      archivedFiles: 0,
+      deletedFiles: 0,
+      freedBytes: 0,
+      deletedAnalyses: 0,
+      deletedExecutionEvents: 0,
+      releasedStaleAllocations: 0,
+      deletedContainerAllocations: 0,
+      errors: [],
+    };
 
-      logger.info('Cleanup job completed', { result });
-      return result;
-      
-    } catch (error) {
-      return this.handleError(error as Error, 'cleanup job');
+    logger.info('Starting cleanup job', { jobId: job.id, policy });
+
+    const phases: Array<[string, () => Promise<void>]> = [
+      ['archive files', () => this.archiveFiles(policy, summary)],
+      ['delete archived files', () => this.deleteArchivedFiles(policy, summary)],
+      ['prune analyses', async () => {
+        summary.deletedAnalyses = await this.repositories.aiAnalysis.deleteOldRecordsExceptLatest(policy.aiAnalysis);
+      }],
+      ['prune execution events', async () => {
+        summary.deletedExecutionEvents = await this.repositories.testExecutionEvents.deleteOldEvents(policy.executionEvents);
+      }],
+      ['prune container allocations', async () => {
+        summary.releasedStaleAllocations = await this.repositories.containerAllocation.cleanupStaleAllocations();
+        summary.deletedContainerAllocations = await this.repositories.containerAllocation.deleteOldRecords(policy.containerAllocations);
+      }],
+    ];
+
+    let failedPhases = 0;
+    for (const [name, run] of phases) {
+      try {
+        await run();
+      } catch (error) {
+        failedPhases++;
+        summary.errors.push(`${name}: ${(error as Error).message}`);
+        logger.error('Cleanup phase failed', { phase: name, error: (error as Error).message });
+      }
+    }
+
+    const result: TestJobResult = {
+      testRunId: 'cleanup',
+      status: failedPhases > 0 ? 'failed' : 'completed',
+      totalSteps: phases.length,
+      completedSteps: phases.length - failedPhases,
+      failedSteps: failedPhases,
+      adaptedSteps: 0,
+      duration: Date.now() - startTime,
+      error: summary.errors.length > 0 ? summary.errors.join('; ') : undefined,
+      cleanup: summary,
+    };
+
+    logger.info('Cleanup job completed', { result });
+    return result;
+  }
+
+  /**
+   * Archive expired files and files older than their type's retention.
+   * Files captured on adapted steps are kept for the extension period.
+   */
+  private async archiveFiles(policy: RetentionPolicy, summary: CleanupSummary): Promise<void> {
+    const storageReference = this.repositories.storageReference;
+    const ids = new Set((await storageReference.findExpired()).map((reference) => reference.id));
+
+    for (const [fileType, days] of Object.entries(policy.files) as Array<[FileType, number]>) {
+      const adaptedCutoff = Date.now() - (days + policy.adaptedFileExtension) * DAY_MS;
+
+      for (const reference of await storageReference.findOlderThan(fileType, days)) {
+        if (reference.metadata?.was_adapted && new Date(reference.created_at).getTime() > adaptedCutoff) {
+          continue;
+        }
+        ids.add(reference.id);
+      }
+    }
+
+    const toArchive = Array.from(ids);
+    for (let i = 0; i < toArchive.length; i += ARCHIVE_BATCH_SIZE) {
+      await storageReference.archiveBatch(toArchive.slice(i, i + ARCHIVE_BATCH_SIZE));
+      summary.archivedFiles += Math.min(ARCHIVE_BATCH_SIZE, toArchive.length - i);
+    }
+  }
+
+  /**
+   * Delete the blobs of files archived longer than the grace period, then
+   * their storage_references rows
+   */
+  private async deleteArchivedFiles(policy: RetentionPolicy, summary: CleanupSummary): Promise<void> {
+    const archived = await this.repositories.storageReference.findArchived(policy.archivedGracePeriod);
+    if (archived.length === 0) {
+      return;
     }
+
+    await this.storage.removeFiles(archived);
+    const { deletedCount } = await this.repositories.storageReference.cleanup(policy.archivedGracePeriod);
+
+    summary.deletedFiles = deletedCount;
+    summary.freedBytes = archived.reduce((sum, reference) => sum + (reference.file_size_bytes || 0), 0);
   }
 }
 
+// Learned patterns kept per test case; the least recently seen are dropped first
+const MAX_ADAPTATION_PATTERNS = 50;
+// A pattern is written into refined_scenario once it has recurred this reliably
+const SCENARIO_PATTERN_MIN_SUCCESSES = 2;
+const SCENARIO_PATTERN_MIN_SUCCESS_RATE = 0.8;
+const LEARNED_SECTION_HEADER = '## Learned selector updates';
+
+/**
+ * Strip the snapshot-specific `[ref=..]` suffix the MCP executor appends to
+ * adapted selectors, leaving the role/name locator that is stable across runs
+ */
+function normalizeSelector(selector: string): string {
+  return selector.replace(/\s*\[ref=[^\]]*\]\s*$/, '').trim();
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
 /**
  * Adaptation learning job processor
+ *
+ * Runs after a test run finishes. Selector fixes recorded on the run's steps
+ * are merged into test_cases.adaptation_patterns, counting how often each fix
+ * occurred and how often the adapted step then succeeded. Recurring reliable
+ * fixes can also be written into refined_scenario. The reliability score is
+ * left to the execution processor, which recomputes it when the run finishes.
  */
-export class AdaptationLearningProcessor extends BaseJobProcessor {
-  async process(job: Job<TestJobData, TestJobResult>): Promise<TestJobResult> {
-    const { testCaseId } = job.data;
-    
+export class AdaptationLearningProcessor extends BaseJobProcessor<AdaptationLearningJobData> {
+  constructor(private repositories: Repositories) {
+    super();
+  }
+
+  async process(job: Job<AdaptationLearningJobData, TestJobResult>): Promise<TestJobResult> {
+    const startTime = Date.now();
+    const { testCaseId, testRunId, refineScenario } = job.data;
+
     try {
-      logger.info('Starting adaptation learning', { testCaseId });
-      
-      // TODO: Implement adaptation learning logic
-      // This will involve:
-      // 1. Analyzing recent test runs for patterns
-      // 2. Identifying successful adaptations
-      // 3. Updating test case adaptation patterns
-      // 4. Training/updating adaptation models
+      logger.info('Starting adaptation learning', { testCaseId, testRunId });
+
+      const testCase = await this.repositories.testCase.findById(testCaseId);
+      if (!testCase) {
+        throw new Error(`Test case ${testCaseId} not found`);
+      }
+
+      const steps = await this.repositories.testStep.findByTestRunId(testRunId);
+      const learned = this.collectAdaptations(steps);
+      const { patterns, created, updated } = this.mergePatterns(testCase.adaptation_patterns ?? [], learned);
+
+      const update: TestCaseUpdate = {};
+      if (learned.length > 0) {
+        update.adaptation_patterns = patterns;
+      }
+
+      let scenarioRefined = false;
+      if (refineScenario) {
+        const base = testCase.refined_scenario ?? testCase.original_scenario;
+        const refined = this.refineScenario(base, patterns);
+        if (refined !== base) {
+          update.refined_scenario = refined;
+          scenarioRefined = true;
+        }
+      }
+
+      if (Object.keys(update).length > 0) {
+        await this.repositories.testCase.update(testCaseId, update);
+      }
+
+      const successful = learned.filter((adaptation) => adaptation.successful).length;
+      const summary: AdaptationLearningSummary = {
+        testCaseId,
+        adaptationsAnalyzed: learned.length,
+        patternsCreated: created,
+        patternsUpdated: updated,
+        totalPatterns: patterns.length,
+        scenarioRefined,
+      };
 
       const result: TestJobResult = {
-        testRunId: 'learning',
+        testRunId,
         status: 'completed',
-        totalSteps: 1,
-        completedSteps: 1,
-        failedSteps: 0,
-        adaptedSteps: 0,
-        duration: 2000,
+        totalSteps: steps.length,
+        completedSteps: steps.filter((step) => step.status === 'success' || step.status === 'adapted').length,
+        failedSteps: steps.filter((step) => step.status === 'failed').length,
+        adaptedSteps: successful,
+        duration: Date.now() - startTime,
+        learning: summary,
       };
 
-      logger.info('Adaptation learning completed', { testCaseId, result });
+      logger.info('Adaptation learning completed', { testCaseId, testRunId, summary });
       return result;
-      
     } catch (error) {
-      return this.handleError(error as Error, `adaptation learning ${testCaseId}`);
+      // Rethrown so the job is retried and recorded as failed by BullMQ
+      logger.error('Adaptation learning failed', {
+        testCaseId,
+        testRunId,
+        error: (error as Error).message,
+        stack: (error as Error).stack,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Selector fixes recorded on the run's steps. An adaptation counts as
+   * successful when the adapted step passed.
+   */
+  private collectAdaptations(steps: TestStep[]): LearnedAdaptation[] {
+    const learned: LearnedAdaptation[] = [];
+
+    for (const step of steps) {
+      for (const adaptation of step.adaptations ?? []) {
+        const originalSelector = normalizeSelector(adaptation.originalAction?.selector ?? '');
+        const adaptedSelector = normalizeSelector(adaptation.adaptedAction?.selector ?? '');
+        if (!adaptedSelector || adaptedSelector === originalSelector) {
+          continue;
+        }
+
+        learned.push({
+          action: adaptation.originalAction.type,
+          originalSelector,
+          adaptedSelector,
+          reason: adaptation.reason,
+          confidence: adaptation.confidence,
+          successful: step.status === 'adapted',
+        });
+      }
+    }
+
+    return learned;
+  }
+
+  /**
+   * Merge the run's selector fixes into the stored patterns. Patterns without
+   * selector details (entered by hand or by the analyzer) are kept as they are.
+   */
+  private mergePatterns(
+    existing: AdaptationPattern[],
+    learned: LearnedAdaptation[]
+  ): { patterns: AdaptationPattern[]; created: number; updated: number } {
+    const now = new Date().toISOString();
+    const patterns = existing.map((pattern) => ({ ...pattern }));
+    const touched = new Set<AdaptationPattern>();
+    let created = 0;
+
+    for (const adaptation of learned) {
+      let pattern = patterns.find((candidate) =>
+        candidate.action === adaptation.action &&
+        candidate.original_selector === adaptation.originalSelector &&
+        candidate.adapted_selector === adaptation.adaptedSelector
+      );
+
+      if (!pattern) {
+        pattern = {
+          pattern: `${adaptation.originalSelector || '(none)'} -> ${adaptation.adaptedSelector}`,
+          reason: adaptation.reason,
+          success_rate: 0,
+          confidence: 0,
+          created_at: now,
+          action: adaptation.action,
+          original_selector: adaptation.originalSelector,
+          adapted_selector: adaptation.adaptedSelector,
+          occurrences: 0,
+          successes: 0,
+        };
+        patterns.push(pattern);
+        created++;
+      }
+
+      const occurrences = (pattern.occurrences ?? 0) + 1;
+      const successes = (pattern.successes ?? 0) + (adaptation.successful ? 1 : 0);
+
+      // Confidence is the running mean of the executor's confidence
+      pattern.confidence = round((pattern.confidence * (occurrences - 1) + adaptation.confidence) / occurrences);
+      pattern.success_rate = round(successes / occurrences);
+      pattern.occurrences = occurrences;
+      pattern.successes = successes;
+      pattern.reason = adaptation.reason;
+      pattern.updated_at = now;
+      touched.add(pattern);
+    }
+
+    const updated = touched.size - created;
+    if (patterns.length > MAX_ADAPTATION_PATTERNS) {
+      const lastSeen = (pattern: AdaptationPattern) => new Date(pattern.updated_at ?? pattern.created_at).getTime();
+      patterns.sort((a, b) => lastSeen(b) - lastSeen(a));
+      patterns.length = MAX_ADAPTATION_PATTERNS;
     }
+
+    return { patterns, created, updated };
+  }
+
+  /**
+   * Replace the learned selector section at the end of the scenario with the
+   * recurring reliable patterns (or drop it when there are none)
+   */
+  private refineScenario(scenario: string, patterns: AdaptationPattern[]): string {
+    const headerIndex = scenario.indexOf(LEARNED_SECTION_HEADER);
+    const base = (headerIndex >= 0 ? scenario.slice(0, headerIndex) : scenario).trimEnd();
+
+    const reliable = patterns.filter((pattern) =>
+      pattern.adapted_selector &&
+      (pattern.successes ?? 0) >= SCENARIO_PATTERN_MIN_SUCCESSES &&
+      pattern.success_rate >= SCENARIO_PATTERN_MIN_SUCCESS_RATE
+    );
+
+    if (reliable.length === 0) {
+      return headerIndex >= 0 ? base : scenario;
+    }
+
+    const lines = reliable.map((pattern) => {
+      const target = pattern.original_selector ? `instead of \`${pattern.original_selector}\`` : 'when no selector is given';
+      return `- ${pattern.action}: use \`${pattern.adapted_selector}\` ${target} (success rate ${Math.round(pattern.success_rate * 100)}%)`;
+    });
+
+    return `${base}\n\n${LEARNED_SECTION_HEADER}\n${lines.join('\n')}`;
+  }
+}
+
+/**
+ * Scheduled test job processor
+ *
+ * Handles the jobs fired by test schedules: creates a pending test run for
+ * the scheduled test case and queues its execution with the schedule's
+ * config overrides applied. Fires of schedules that were disabled or
+ * deleted in the meantime are skipped.
+ */
+export class ScheduledTestProcessor extends BaseJobProcessor<ScheduledTestJobData> {
+  constructor(
+    private repositories: Repositories,
+    private queueManager: QueueManager = getQueueManager()
+  ) {
+    super();
+  }
+
+  async process(job: Job<ScheduledTestJobData, TestJobResult>): Promise<TestJobResult> {
+    const startTime = Date.now();
+    const { scheduleId } = job.data;
+
+    const schedule = await this.repositories.testSchedule.findById(scheduleId);
+    if (!schedule || !schedule.enabled) {
+      // The scheduler should have been removed with the schedule or when it
+      // was paused; remove it now so it stops firing
+      await this.queueManager.removeTestSchedule(scheduleId);
+      return this.skipped(startTime, `Schedule ${scheduleId} is ${schedule ? 'disabled' : 'deleted'}`);
+    }
+
+    const testCase = await this.repositories.testCase.findById(schedule.test_case_id);
+    if (!testCase || !testCase.is_active) {
+      return this.skipped(startTime, `Test case ${schedule.test_case_id} is ${testCase ? 'inactive' : 'deleted'}`);
+    }
+
+    const { config, environment } = JobUtils.resolveRunConfig(testCase.test_config, {
+      config: schedule.config_overrides,
+    });
+    const testRun = await this.repositories.testRun.create({
+      test_case_id: testCase.id,
+      status: 'pending',
+      environment,
+    });
+
+    try {
+      await this.queueManager.addTestJob(
+        {
+          testCaseId: testCase.id,
+          testRunId: testRun.id,
+          config: JobUtils.buildJobConfig(config),
+          environment: JobUtils.buildJobEnvironment(environment),
+        },
+        { jobId: testRun.id }
+      );
+    } catch (error) {
+      const message = (error as Error).message;
+      await this.repositories.testRun.update(testRun.id, {
+        status: 'failed',
+        error_summary: `Failed to queue scheduled test execution: ${message}`,
+        completed_at: new Date().toISOString(),
+      });
+      throw error;
+    }
+
+    await this.repositories.testSchedule.recordRun(schedule.id, testRun.id);
+    logger.info('Scheduled test run queued', { scheduleId, testCaseId: testCase.id, testRunId: testRun.id });
+
+    return {
+      testRunId: testRun.id,
+      status: 'completed',
+      totalSteps: 0,
+      completedSteps: 0,
+      failedSteps: 0,
+      adaptedSteps: 0,
+      duration: Date.now() - startTime,
+    };
+  }
+
+  private skipped(startTime: number, reason: string): TestJobResult {
+    logger.warn('Scheduled test run skipped', { reason });
+
+    return {
+      testRunId: '',
+      status: 'cancelled',
+      totalSteps: 0,
+      completedSteps: 0,
+      failedSteps: 0,
+      adaptedSteps: 0,
+      duration: Date.now() - startTime,
+      error: reason,
+    };
   }
 }
 
 /**
  * Job factory for creating appropriate processors
  */
+export interface JobProcessorDeps {
+  repositories: Repositories;
+  createExecutor?: TestStepExecutorFactory;
+  storage?: ArtifactStorageService;
+}
+
 export class JobProcessorFactory {
-  static createProcessor(jobType: string): BaseJobProcessor {
+  static createProcessor(jobType: 'cleanup', deps: JobProcessorDeps): BaseJobProcessor<CleanupJobData>;
+  static createProcessor(jobType: 'adaptation-learning', deps: JobProcessorDeps): BaseJobProcessor<AdaptationLearningJobData>;
+  static createProcessor(jobType: 'scheduled-test', deps: JobProcessorDeps): BaseJobProcessor<ScheduledTestJobData>;
+  static createProcessor(jobType: string, deps?: JobProcessorDeps): BaseJobProcessor;
+  static createProcessor(
+    jobType: string,
+    deps?: JobProcessorDeps
+  ):
+    | BaseJobProcessor
+    | BaseJobProcessor<CleanupJobData>
+    | BaseJobProcessor<AdaptationLearningJobData>
+    | BaseJobProcessor<ScheduledTestJobData> {
     switch (jobType) {
       case 'execute-test':
-        return new TestExecutionProcessor();
+        if (!deps?.createExecutor) {
+          throw new Error('execute-test processor requires repositories and a step executor factory');
+        }
+        return new TestExecutionProcessor(deps.repositories, deps.createExecutor, { storage: deps.storage });
       case 'cleanup':
-        return new CleanupJobProcessor();
+        if (!deps?.storage) {
+          throw new Error('cleanup processor requires repositories and an artifact storage');
+        }
+        return new CleanupJobProcessor(deps.repositories, deps.storage);
       case 'adaptation-learning':
-        return new AdaptationLearningProcessor();
+        if (!deps?.repositories) {
+          throw new Error('adaptation-learning processor requires repositories');
+        }
+        return new AdaptationLearningProcessor(deps.repositories);
+      case 'scheduled-test':
+        if (!deps?.repositories) {
+          throw new Error('scheduled-test processor requires repositories');
+        }
+        return new ScheduledTestProcessor(deps.repositories);
       default:
         throw new Error(`Unknown job type: ${jobType}`);
     }
   }
 }
 
+// Environment of a run unless the run overrides it; matches the test_runs column default
+const DEFAULT_ENVIRONMENT: Omit<Environment, 'viewport'> = {
+  browser: 'chrome',
+  timezone: 'UTC',
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function deepMerge<T>(base: T, overrides: Partial<T>): T {
+  const result: Record<string, unknown> = { ...(base as Record<string, unknown>) };
+
+  for (const [key, value] of Object.entries(overrides as Record<string, unknown>)) {
+    if (value === undefined) {
+      continue;
+    }
+    result[key] = isPlainObject(value) && isPlainObject(result[key])
+      ? deepMerge(result[key], value)
+      : value;
+  }
+
+  return result as T;
+}
+
 /**
  * Utility functions for job management
  */
@@ -213,4 +1160,69 @@ export class JobUtils {
     // Base time: 30 seconds + 5 seconds per step
     return 30000 + (stepCount * 5000);
   }
-}
\ No newline at end of file
+
+  /**
+   * Effective config and environment of a run: the overrides are deep-merged
+   * over the test case config (arrays are replaced, not merged). A viewport
+   * given in the environment wins over the config viewport, and the merged
+   * config is kept on the environment so the run can be reproduced.
+   */
+  static resolveRunConfig(
+    testConfig: TestConfig,
+    overrides: RunConfigOverrides = {}
+  ): { config: TestConfig; environment: Environment } {
+    const config = deepMerge(testConfig, overrides.config ?? {});
+    if (overrides.environment?.viewport) {
+      config.viewport = { ...overrides.environment.viewport };
+    }
+
+    const environment: Environment = {
+      ...DEFAULT_ENVIRONMENT,
+      ...overrides.environment,
+      viewport: { ...config.viewport },
+      testConfig: config,
+    };
+
+    return { config, environment };
+  }
+
+  /**
+   * Pick the browser settings of a run that differ from the defaults the
+   * pooled containers are launched with
+   */
+  static buildJobEnvironment(environment: Environment): TestJobData['environment'] {
+    return {
+      browser: environment.browser !== DEFAULT_ENVIRONMENT.browser ? environment.browser : undefined,
+      userAgent: environment.userAgent,
+      timezone: environment.timezone !== DEFAULT_ENVIRONMENT.timezone ? environment.timezone : undefined,
+    };
+  }
+
+  /**
+   * Pick the execution settings a worker needs out of a test config
+   */
+  static buildJobConfig(testConfig: Partial<TestConfig>): TestJobData['config'] {
+    return {
+      timeout: testConfig.timeout,
+      headless: testConfig.headless,
+      viewport: testConfig.viewport,
+      adaptiveMode: testConfig.adaptiveMode,
+      maxAdaptations: testConfig.maxAdaptations,
+    };
+  }
+
+  /**
+   * Next fire times of a cron expression; throws when the expression or the
+   * timezone is invalid
+   */
+  static getNextRunTimes(cronExpression: string, timezone = 'UTC', count = 5, from: Date = new Date()): Date[] {
+    const interval = parseExpression(cronExpression, { currentDate: from, tz: timezone });
+    const times: Date[] = [];
+
+    for (let i = 0; i < count; i++) {
+      times.push(interval.next().toDate());
+    }
+
+    return times;
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * Device Matrix Runs
+ *
+ * A matrix run launches one test case once per device profile. Each profile
+ * gets its own sibling test run, linked to the matrix run, whose environment
+ * records the device it emulated. The comparison lines the runs up step by
+ * step so differences between devices (e.g. a step that only adapted on
+ * mobile) stand out.
+ */
+
+import { createLogger } from '@cinnamon-qa/logger';
+import {
+  NotFoundError,
+  ValidationError,
+  type DeviceProfile,
+  type Repositories,
+  type StepAdaptation,
+  type StepStatus,
+  type TestConfig,
+  type TestMatrixRun,
+  type TestStatus,
+} from '@cinnamon-qa/database';
+import { getQueueManager, type QueueManager } from './queue';
+import { JobUtils } from './jobs';
+
+const logger = createLogger({ context: 'TestMatrixRunner' });
+
+// Built-in device profiles, selectable by name
+export const DEVICE_PROFILES: Record<string, DeviceProfile> = {
+  desktop: {
+    name: 'desktop',
+    viewport: { width: 1920, height: 1080 },
+  },
+  tablet: {
+    name: 'tablet',
+    viewport: { width: 820, height: 1180 },
+    userAgent: 'Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1',
+  },
+  mobile: {
+    name: 'mobile',
+    viewport: { width: 390, height: 844 },
+    userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1',
+  },
+};
+
+// One device's outcome of a step
+export interface MatrixStepResult {
+  testRunId: string;
+  status: StepStatus;
+  adaptations: StepAdaptation[];
+  error: string | null;
+  durationMs: number | null;
+}
+
+// Side-by-side view of the sibling runs of a matrix run
+export interface MatrixComparison {
+  matrixRunId: string;
+  testCaseId: string;
+  status: TestStatus;
+  devices: Array<{
+    device: string;
+    profile: DeviceProfile;
+    testRunId: string | null;
+    status: TestStatus | null;
+    durationMs: number | null;
+    totalSteps: number;
+    completedSteps: number;
+    failedSteps: number;
+    adaptedSteps: number;
+    errorSummary: string | null;
+  }>;
+  steps: Array<{
+    stepNumber: number;
+    action: string;
+    // Keyed by device name; devices that never reached the step are absent
+    results: Record<string, MatrixStepResult>;
+    // Devices on which the step had to be adapted
+    adaptedOn: string[];
+  }>;
+}
+
+const FINISHED_STATUSES: TestStatus[] = ['completed', 'failed', 'adapted', 'cancelled'];
+
+export class TestMatrixRunner {
+  constructor(
+    private repositories: Repositories,
+    private queueManager: QueueManager = getQueueManager()
+  ) {}
+
+  /**
+   * Launch the test case on every profile, one queued test run each
+   */
+  async start(
+    testCaseId: string,
+    profiles: DeviceProfile[],
+    configOverrides: Partial<TestConfig> = {}
+  ): Promise<TestMatrixRun> {
+    if (profiles.length === 0) {
+      throw new ValidationError('A matrix run needs at least one device profile', 'profiles');
+    }
+    const names = profiles.map((profile) => profile.name);
+    const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+    if (duplicate) {
+      throw new ValidationError(`Duplicate device profile: ${duplicate}`, 'profiles');
+    }
+
+    const testCase = await this.repositories.testCase.findById(testCaseId);
+    if (!testCase) {
+      throw new NotFoundError('Test case', testCaseId);
+    }
+    if (!testCase.is_active) {
+      throw new ValidationError(`Test case ${testCaseId} is inactive`, 'testCaseId');
+    }
+
+    const matrixRun = await this.repositories.testMatrixRun.create({
+      test_case_id: testCase.id,
+      profiles,
+      config_overrides: configOverrides,
+    });
+
+    for (const profile of profiles) {
+      const { config, environment } = JobUtils.resolveRunConfig(testCase.test_config, {
+        config: configOverrides,
+        environment: {
+          device: profile.name,
+          viewport: profile.viewport,
+          userAgent: profile.userAgent,
+        },
+      });
+
+      const testRun = await this.repositories.testRun.create({
+        test_case_id: testCase.id,
+        matrix_run_id: matrixRun.id,
+        status: 'pending',
+        environment,
+      });
+
+      try {
+        // The run id doubles as the job id so the job can be looked up from the run
+        await this.queueManager.addTestJob(
+          {
+            testCaseId: testCase.id,
+            testRunId: testRun.id,
+            config: JobUtils.buildJobConfig(config),
+            environment: JobUtils.buildJobEnvironment(environment),
+          },
+          { jobId: testRun.id }
+        );
+      } catch (error) {
+        const message = (error as Error).message;
+        await this.repositories.testRun.update(testRun.id, {
+          status: 'failed',
+          error_summary: `Failed to queue test execution: ${message}`,
+          completed_at: new Date().toISOString(),
+        });
+        logger.error('Failed to queue matrix device run', { matrixRunId: matrixRun.id, device: profile.name, error: message });
+      }
+    }
+
+    logger.info('Matrix run started', { matrixRunId: matrixRun.id, testCaseId, devices: names });
+    return matrixRun;
+  }
+
+  /**
+   * Compare the sibling runs of a matrix run, device by device and step by step
+   */
+  async compare(matrixRunId: string): Promise<MatrixComparison> {
+    const matrixRun = await this.repositories.testMatrixRun.findByIdOrThrow(matrixRunId);
+    const runs = await this.repositories.testRun.findByMatrixRunId(matrixRunId);
+    const runsByDevice = new Map(runs.map((run) => [run.environment?.device ?? run.id, run]));
+
+    const devices: MatrixComparison['devices'] = matrixRun.profiles.map((profile) => {
+      const run = runsByDevice.get(profile.name);
+      return {
+        device: profile.name,
+        profile,
+        testRunId: run?.id ?? null,
+        status: run?.status ?? null,
+        durationMs: run?.duration_ms ?? null,
+        totalSteps: run?.total_steps ?? 0,
+        completedSteps: run?.completed_steps ?? 0,
+        failedSteps: run?.failed_steps ?? 0,
+        adaptedSteps: run?.adapted_steps ?? 0,
+        errorSummary: run?.error_summary ?? null,
+      };
+    });
+
+    const steps = new Map<number, MatrixComparison['steps'][number]>();
+    for (const { device, testRunId } of devices) {
+      if (!testRunId) {
+        continue;
+      }
+
+      for (const step of await this.repositories.testStep.findByTestRunId(testRunId)) {
+        let row = steps.get(step.step_number);
+        if (!row) {
+          row = { stepNumber: step.step_number, action: step.action, results: {}, adaptedOn: [] };
+          steps.set(step.step_number, row);
+        }
+
+        row.results[device] = {
+          testRunId,
+          status: step.status,
+          adaptations: step.adaptations ?? [],
+          error: step.error_message,
+          durationMs: step.duration_ms,
+        };
+        if (step.status === 'adapted' || (step.adaptations?.length ?? 0) > 0) {
+          row.adaptedOn.push(device);
+        }
+      }
+    }
+
+    return {
+      matrixRunId: matrixRun.id,
+      testCaseId: matrixRun.test_case_id,
+      status: this.aggregateStatus(devices.map((device) => device.status)),
+      devices,
+      steps: [...steps.values()].sort((a, b) => a.stepNumber - b.stepNumber),
+    };
+  }
+
+  /**
+   * Overall status of a matrix run: running until every device finished,
+   * then failed if any device failed, adapted if any adapted
+   */
+  private aggregateStatus(statuses: Array<TestStatus | null>): TestStatus {
+    if (statuses.some((status) => !status || !FINISHED_STATUSES.includes(status))) {
+      return statuses.some((status) => status === 'running') ? 'running' : 'pending';
+    }
+    if (statuses.includes('failed')) {
+      return 'failed';
+    }
+    if (statuses.every((status) => status === 'cancelled')) {
+      return 'cancelled';
+    }
+    return statuses.includes('adapted') ? 'adapted' : 'completed';
+  }
+}
@@ -5,7 +5,10 @@
 import { Queue, Worker, Job, QueueEvents } from 'bullmq';
 import { createLogger } from '@cinnamon-qa/logger';
 import type { 
+  AdaptationLearningJobData,
+  CleanupJobData,
   QueueConfig, 
+  ScheduledTestJobData,
   TestJobData, 
   TestJobResult, 
   JobProgress
@@ -15,6 +18,9 @@ import { getRedisClient } from './redis';
 
 const logger = createLogger({ context: 'QueueManager' });
 
+const CLEANUP_SCHEDULER_ID = 'scheduled-cleanup';
+const TEST_SCHEDULER_PREFIX = 'test-schedule:';
+
 export class QueueManager {
   private queues: Map<string, Queue> = new Map();
   private workers: Map<string, Worker> = new Map();
@@ -60,7 +66,9 @@ export class QueueManager {
   }
 
   /**
-   * Add a test execution job
+   * Add a test execution job. Runs are not retried by default: the processor
+   * records a failure on the test run itself, and a retry would execute a run
+   * that has already been reported as finished.
    */
   async addTestJob(
     data: TestJobData,
@@ -68,36 +76,149 @@ export class QueueManager {
       priority?: JobPriority;
       delay?: number;
       attempts?: number;
+      jobId?: string;
     }
   ): Promise<Job<TestJobData, TestJobResult>> {
     const queue = this.getQueue(QueueNames.TEST_EXECUTION);
     
     return await queue.add('execute-test', data, {
+      jobId: options?.jobId,
       priority: options?.priority || JobPriority.NORMAL,
       delay: options?.delay,
-      attempts: options?.attempts || 3,
+      attempts: options?.attempts ?? 1,
       removeOnComplete: 100,
       removeOnFail: 50,
     });
   }
 
+  /**
+   * Remove a test job that has not been picked up by a worker yet.
+   * Returns false when the job is running (or already gone).
+   */
+  async removePendingTestJob(jobId: string): Promise<boolean> {
+    const job = await this.getQueue(QueueNames.TEST_EXECUTION).getJob(jobId);
+    if (!job) {
+      return false;
+    }
+
+    const state = await job.getState();
+    if (state !== 'waiting' && state !== 'delayed' && state !== 'prioritized') {
+      return false;
+    }
+
+    try {
+      await job.remove();
+      return true;
+    } catch (error) {
+      // The job was locked by a worker between the state check and the removal
+      logger.warn('Failed to remove pending test job', {
+        jobId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Add an adaptation learning job for a finished test run. The job id is
+   * derived from the run, so a run is only learned from once.
+   */
+  async addAdaptationLearningJob(
+    data: AdaptationLearningJobData
+  ): Promise<Job<AdaptationLearningJobData, TestJobResult>> {
+    const queue = this.getQueue(QueueNames.ADAPTATION_LEARNING);
+
+    return await queue.add('adaptation-learning', data, {
+      jobId: `learning-${data.testRunId}`,
+      priority: JobPriority.LOW,
+      attempts: 2,
+      removeOnComplete: 100,
+      removeOnFail: 50,
+    });
+  }
+
+  /**
+   * Schedule the repeatable cleanup job (cron pattern). Calling it again
+   * replaces the existing schedule.
+   */
+  async scheduleCleanupJob(pattern = '0 3 * * *', data: CleanupJobData = {}): Promise<void> {
+    const queue = this.getQueue(QueueNames.CLEANUP);
+
+    await queue.upsertJobScheduler(CLEANUP_SCHEDULER_ID, { pattern }, {
+      name: 'cleanup',
+      data,
+      opts: {
+        attempts: 1,
+        removeOnComplete: 20,
+        removeOnFail: 20,
+      },
+    });
+
+    logger.info('Cleanup job scheduled', { pattern });
+  }
+
+  /**
+   * Create or replace the job scheduler of a test schedule. Each fire adds a
+   * scheduled-test job, which creates the test run and queues its execution.
+   */
+  async upsertTestSchedule(schedule: {
+    id: string;
+    testCaseId: string;
+    cronExpression: string;
+    timezone?: string;
+  }): Promise<void> {
+    const queue = this.getQueue(QueueNames.SCHEDULED_TESTS);
+    const data: ScheduledTestJobData = { scheduleId: schedule.id, testCaseId: schedule.testCaseId };
+
+    await queue.upsertJobScheduler(
+      `${TEST_SCHEDULER_PREFIX}${schedule.id}`,
+      { pattern: schedule.cronExpression, tz: schedule.timezone },
+      {
+        name: 'scheduled-test',
+        data,
+        opts: {
+          attempts: 1,
+          removeOnComplete: 100,
+          removeOnFail: 50,
+        },
+      }
+    );
+
+    logger.info('Test schedule registered', {
+      scheduleId: schedule.id,
+      pattern: schedule.cronExpression,
+      timezone: schedule.timezone,
+    });
+  }
+
+  /**
+   * Remove the job scheduler of a test schedule. Returns false when none was registered.
+   */
+  async removeTestSchedule(scheduleId: string): Promise<boolean> {
+    const removed = await this.getQueue(QueueNames.SCHEDULED_TESTS)
+      .removeJobScheduler(`${TEST_SCHEDULER_PREFIX}${scheduleId}`);
+
+    logger.info('Test schedule removed', { scheduleId, removed });
+    return removed;
+  }
+
   /**
    * Create a worker for processing jobs
    */
-  createWorker(
+  createWorker<TData = TestJobData>(
     queueName: string,
-    processor: (job: Job<TestJobData, TestJobResult>) => Promise<TestJobResult>,
+    processor: (job: Job<TData, TestJobResult>) => Promise<TestJobResult>,
     options?: {
       concurrency?: number;
       maxStalledCount?: number;
       stalledInterval?: number;
     }
-  ): Worker<TestJobData, TestJobResult> {
+  ): Worker<TData, TestJobResult> {
     if (this.workers.has(queueName)) {
       throw new Error(`Worker for queue ${queueName} already exists`);
     }
 
-    const worker = new Worker<TestJobData, TestJobResult>(
+    const worker = new Worker<TData, TestJobResult>(
       queueName,
       processor,
       {
@@ -236,14 +357,23 @@ export class QueueManager {
   }
 
   /**
-   * Close all queues and workers
+   * Close all workers; resolves once their active jobs have finished
    */
-  async close(): Promise<void> {
-    // Close all workers
+  async closeWorkers(): Promise<void> {
     for (const worker of this.workers.values()) {
       await worker.close();
     }
 
+    this.workers.clear();
+  }
+
+  /**
+   * Close all queues and workers
+   */
+  async close(): Promise<void> {
+    // Close all workers
+    await this.closeWorkers();
+
     // Close all queue events
     for (const queueEvents of this.queueEvents.values()) {
       await queueEvents.close();
@@ -254,7 +384,6 @@ export class QueueManager {
       await queue.close();
     }
 
-    this.workers.clear();
     this.queueEvents.clear();
     this.queues.clear();
   }
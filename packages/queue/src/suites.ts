@@ -0,0 +1,303 @@
+/**
+ * Test Suite Runs
+ *
+ * A suite run fans out one test run per test case of the suite, in order,
+ * keeping at most `concurrency` of them queued or running at a time. The
+ * suite run advances whenever one of its test runs finishes or is cancelled;
+ * once the last one has finished, the suite-level summary is written.
+ * Advancing is serialized through a Redis lock since any worker may finish a
+ * test run.
+ */
+
+import { createLogger } from '@cinnamon-qa/logger';
+import {
+  NotFoundError,
+  ValidationError,
+  type Repositories,
+  type SuiteRunSummary,
+  type TestRun,
+  type TestStatus,
+  type TestSuiteRun,
+} from '@cinnamon-qa/database';
+import { getQueueManager, type QueueManager } from './queue';
+import { getRedisClient, type RedisClient } from './redis';
+import { JobUtils } from './jobs';
+
+const logger = createLogger({ context: 'TestSuiteRunner' });
+
+const LOCK_PREFIX = 'suite-run-lock:';
+const LOCK_TTL_MS = 30000;
+const LOCK_RETRY_INTERVAL_MS = 100;
+const LOCK_MAX_WAIT_MS = 10000;
+
+const FINISHED_STATUSES: TestStatus[] = ['completed', 'failed', 'adapted', 'cancelled'];
+
+// Aggregate progress of a suite run
+export interface SuiteRunProgress {
+  suiteRunId: string;
+  status: TestStatus;
+  totalCases: number;
+  dispatched: number;
+  pending: number;
+  running: number;
+  completed: number;
+  failed: number;
+  adapted: number;
+  cancelled: number;
+  percentage: number;
+  summary: SuiteRunSummary | null;
+}
+
+export class TestSuiteRunner {
+  constructor(
+    private repositories: Repositories,
+    private queueManager: QueueManager = getQueueManager(),
+    private redisClient: RedisClient = getRedisClient()
+  ) {}
+
+  /**
+   * Start a run of the suite with its current cases and settings. A suite
+   * run whose first cases cannot be dispatched is marked failed.
+   */
+  async start(suiteId: string): Promise<TestSuiteRun> {
+    const suite = await this.repositories.testSuite.findById(suiteId);
+    if (!suite) {
+      throw new NotFoundError('Test suite', suiteId);
+    }
+    if (suite.test_case_ids.length === 0) {
+      throw new ValidationError(`Test suite ${suiteId} has no test cases`, 'test_case_ids');
+    }
+
+    const suiteRun = await this.repositories.testSuiteRun.create({
+      suite_id: suite.id,
+      status: 'running',
+      test_case_ids: suite.test_case_ids,
+      config_overrides: suite.config_overrides,
+      concurrency: suite.concurrency,
+      started_at: new Date().toISOString(),
+    });
+
+    logger.info('Suite run started', { suiteId, suiteRunId: suiteRun.id, cases: suite.test_case_ids.length });
+
+    try {
+      await this.advance(suiteRun.id);
+    } catch (error) {
+      await this.repositories.testSuiteRun.updateById(suiteRun.id, {
+        status: 'failed',
+        completed_at: new Date().toISOString(),
+      });
+      logger.error('Failed to start suite run', { suiteRunId: suiteRun.id, error: (error as Error).message });
+      throw error;
+    }
+
+    return (await this.repositories.testSuiteRun.findById(suiteRun.id)) ?? suiteRun;
+  }
+
+  /**
+   * Dispatch the next test cases while there are free slots, and write the
+   * summary once every dispatched run has finished
+   */
+  async advance(suiteRunId: string): Promise<SuiteRunProgress> {
+    return this.withLock(suiteRunId, async () => {
+      const suiteRun = await this.repositories.testSuiteRun.findByIdOrThrow(suiteRunId);
+      if (FINISHED_STATUSES.includes(suiteRun.status)) {
+        return this.toProgress(suiteRun, await this.repositories.testRun.findBySuiteRunId(suiteRunId));
+      }
+
+      let runs = await this.repositories.testRun.findBySuiteRunId(suiteRunId);
+      let nextIndex = suiteRun.next_case_index;
+      let slots = suiteRun.concurrency - runs.filter((run) => !FINISHED_STATUSES.includes(run.status)).length;
+
+      while (slots > 0 && nextIndex < suiteRun.test_case_ids.length) {
+        const queued = await this.dispatch(suiteRun, suiteRun.test_case_ids[nextIndex]);
+        nextIndex++;
+        if (queued) {
+          slots--;
+        }
+      }
+
+      let current = suiteRun;
+      if (nextIndex !== suiteRun.next_case_index) {
+        current = await this.repositories.testSuiteRun.updateById(suiteRunId, { next_case_index: nextIndex });
+        runs = await this.repositories.testRun.findBySuiteRunId(suiteRunId);
+      }
+
+      const allDispatched = nextIndex >= suiteRun.test_case_ids.length;
+      if (allDispatched && runs.every((run) => FINISHED_STATUSES.includes(run.status))) {
+        current = await this.finish(current, runs);
+      }
+
+      return this.toProgress(current, runs);
+    });
+  }
+
+  /**
+   * Stop dispatching cases and cancel the unfinished test runs through
+   * `cancelTestRun`, which must not advance the suite run itself. The suite
+   * run is finished as cancelled; cases never dispatched count as skipped.
+   */
+  async cancel(suiteRunId: string, cancelTestRun: (testRun: TestRun) => Promise<void>): Promise<SuiteRunProgress> {
+    return this.withLock(suiteRunId, async () => {
+      const suiteRun = await this.repositories.testSuiteRun.findByIdOrThrow(suiteRunId);
+      if (FINISHED_STATUSES.includes(suiteRun.status)) {
+        return this.toProgress(suiteRun, await this.repositories.testRun.findBySuiteRunId(suiteRunId));
+      }
+
+      const unfinished = (await this.repositories.testRun.findBySuiteRunId(suiteRunId))
+        .filter((run) => !FINISHED_STATUSES.includes(run.status));
+      for (const run of unfinished) {
+        await cancelTestRun(run);
+      }
+
+      const stopped = await this.repositories.testSuiteRun.updateById(suiteRunId, {
+        next_case_index: suiteRun.test_case_ids.length,
+      });
+      const runs = await this.repositories.testRun.findBySuiteRunId(suiteRunId);
+
+      logger.info('Suite run cancelled', { suiteRunId, cancelledRuns: unfinished.length });
+      return this.toProgress(await this.finish(stopped, runs, 'cancelled'), runs);
+    });
+  }
+
+  async getProgress(suiteRunId: string): Promise<SuiteRunProgress> {
+    const suiteRun = await this.repositories.testSuiteRun.findByIdOrThrow(suiteRunId);
+    return this.toProgress(suiteRun, await this.repositories.testRun.findBySuiteRunId(suiteRunId));
+  }
+
+  /**
+   * Create and queue the test run of one case. Cases deleted or deactivated
+   * since the suite was defined are skipped. Returns whether the run was
+   * queued and so takes up a slot; a run that could not be queued is
+   * recorded as failed right away.
+   */
+  private async dispatch(suiteRun: TestSuiteRun, testCaseId: string): Promise<boolean> {
+    const testCase = await this.repositories.testCase.findById(testCaseId);
+    if (!testCase || !testCase.is_active) {
+      logger.warn('Skipping suite case', { suiteRunId: suiteRun.id, testCaseId, reason: testCase ? 'inactive' : 'deleted' });
+      return false;
+    }
+
+    const { config, environment } = JobUtils.resolveRunConfig(testCase.test_config, {
+      config: suiteRun.config_overrides,
+    });
+    const testRun = await this.repositories.testRun.create({
+      test_case_id: testCase.id,
+      suite_run_id: suiteRun.id,
+      status: 'pending',
+      environment,
+    });
+
+    try {
+      // The run id doubles as the job id so the job can be looked up from the run
+      await this.queueManager.addTestJob(
+        {
+          testCaseId: testCase.id,
+          testRunId: testRun.id,
+          suiteRunId: suiteRun.id,
+          config: JobUtils.buildJobConfig(config),
+          environment: JobUtils.buildJobEnvironment(environment),
+        },
+        { jobId: testRun.id }
+      );
+    } catch (error) {
+      const message = (error as Error).message;
+      await this.repositories.testRun.update(testRun.id, {
+        status: 'failed',
+        error_summary: `Failed to queue test execution: ${message}`,
+        completed_at: new Date().toISOString(),
+      });
+      logger.error('Failed to queue suite case', { suiteRunId: suiteRun.id, testCaseId, error: message });
+      return false;
+    }
+
+    return true;
+  }
+
+  private async finish(suiteRun: TestSuiteRun, runs: TestRun[], finalStatus?: TestStatus): Promise<TestSuiteRun> {
+    const count = (status: TestStatus) => runs.filter((run) => run.status === status).length;
+    const startedAt = suiteRun.started_at ? new Date(suiteRun.started_at).getTime() : Date.now();
+
+    const summary: SuiteRunSummary = {
+      totalCases: suiteRun.test_case_ids.length,
+      passed: count('completed'),
+      failed: count('failed'),
+      adapted: count('adapted'),
+      cancelled: count('cancelled'),
+      skipped: suiteRun.test_case_ids.length - runs.length,
+      durationMs: Date.now() - startedAt,
+      failures: runs
+        .filter((run) => run.status === 'failed' || run.status === 'cancelled')
+        .map((run) => ({
+          testCaseId: run.test_case_id,
+          testRunId: run.id,
+          status: run.status,
+          error: run.error_summary,
+        })),
+    };
+
+    let status: TestStatus;
+    if (finalStatus) {
+      status = finalStatus;
+    } else if (summary.failed > 0) {
+      status = 'failed';
+    } else if (summary.passed + summary.adapted === 0) {
+      status = 'cancelled';
+    } else {
+      status = summary.adapted > 0 ? 'adapted' : 'completed';
+    }
+
+    logger.info('Suite run finished', { suiteRunId: suiteRun.id, status, summary });
+
+    return this.repositories.testSuiteRun.updateById(suiteRun.id, {
+      status,
+      summary,
+      completed_at: new Date().toISOString(),
+    });
+  }
+
+  private toProgress(suiteRun: TestSuiteRun, runs: TestRun[]): SuiteRunProgress {
+    const count = (status: TestStatus) => runs.filter((run) => run.status === status).length;
+    const totalCases = suiteRun.test_case_ids.length;
+    const finished = runs.filter((run) => FINISHED_STATUSES.includes(run.status)).length
+      + Math.max(0, suiteRun.next_case_index - runs.length);
+
+    return {
+      suiteRunId: suiteRun.id,
+      status: suiteRun.status,
+      totalCases,
+      dispatched: runs.length,
+      pending: count('pending'),
+      running: count('running'),
+      completed: count('completed'),
+      failed: count('failed'),
+      adapted: count('adapted'),
+      cancelled: count('cancelled'),
+      percentage: totalCases > 0 ? Math.round((finished / totalCases) * 100) : 0,
+      summary: suiteRun.summary,
+    };
+  }
+
+  private async withLock<T>(suiteRunId: string, fn: () => Promise<T>): Promise<T> {
+    await this.redisClient.connect();
+    const redis = this.redisClient.instance;
+    const key = `${LOCK_PREFIX}${suiteRunId}`;
+    const token = `${process.pid}-${Date.now()}-${Math.random()}`;
+    const deadline = Date.now() + LOCK_MAX_WAIT_MS;
+
+    while ((await redis.set(key, token, 'PX', LOCK_TTL_MS, 'NX')) !== 'OK') {
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out waiting for suite run lock: ${suiteRunId}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_INTERVAL_MS));
+    }
+
+    try {
+      return await fn();
+    } finally {
+      // Only release the lock if it is still ours
+      if ((await redis.get(key)) === token) {
+        await redis.del(key);
+      }
+    }
+  }
+}
@@ -2,10 +2,22 @@
  * Type definitions for queue operations
  */
 
+import type {
+  AdaptationPattern,
+  AdaptationSource,
+  Environment,
+  EventType,
+  FileType,
+  PageState,
+  TestConfig,
+} from '@cinnamon-qa/database';
+
 // Test execution job data
 export interface TestJobData {
   testCaseId: string;
   testRunId: string;
+  // Set when the run belongs to a suite run, which advances once it finishes
+  suiteRunId?: string;
   userId?: string;
   config?: {
     timeout?: number;
@@ -17,12 +29,25 @@ export interface TestJobData {
     adaptiveMode?: boolean;
     maxAdaptations?: number;
   };
+  // Browser settings the worker relaunches its container with; unset values
+  // keep the defaults the pooled containers run with
+  environment?: {
+    browser?: string;
+    userAgent?: string;
+    timezone?: string;
+  };
+}
+
+// Settings a single run overrides on top of its test case config
+export interface RunConfigOverrides {
+  config?: Partial<TestConfig>;
+  environment?: Partial<Omit<Environment, 'testConfig'>>;
 }
 
 // Job result data
 export interface TestJobResult {
   testRunId: string;
-  status: 'completed' | 'failed' | 'adapted';
+  status: 'completed' | 'failed' | 'adapted' | 'cancelled';
   totalSteps: number;
   completedSteps: number;
   failedSteps: number;
@@ -33,17 +58,161 @@ export interface TestJobResult {
     stepNumber: number;
     adaptationType: string;
     reason: string;
+    source?: AdaptationSource;
     successful: boolean;
   }>;
+  cleanup?: CleanupSummary;
+  learning?: AdaptationLearningSummary;
+}
+
+// Retention applied by the cleanup job, in days
+export interface RetentionPolicy {
+  // Files are archived this long after creation (or once expires_at passes)
+  files: Record<FileType, number>;
+  // Extra retention for files captured on adapted steps
+  adaptedFileExtension: number;
+  // Archived files and their rows are deleted after this grace period
+  archivedGracePeriod: number;
+  aiAnalysis: number;
+  executionEvents: number;
+  containerAllocations: number;
+}
+
+// Cleanup job data; omitted values fall back to the default policy
+export interface CleanupJobData {
+  retention?: Partial<Omit<RetentionPolicy, 'files'>> & { files?: Partial<Record<FileType, number>> };
+}
+
+// What a cleanup run archived and freed
+export interface CleanupSummary {
+  archivedFiles: number;
+  deletedFiles: number;
+  freedBytes: number;
+  deletedAnalyses: number;
+  deletedExecutionEvents: number;
+  releasedStaleAllocations: number;
+  deletedContainerAllocations: number;
+  errors: string[];
+}
+
+// Adaptation learning job data, enqueued after a test run finishes
+export interface AdaptationLearningJobData {
+  testCaseId: string;
+  testRunId: string;
+  // Also rewrite the learned selector section of refined_scenario
+  refineScenario?: boolean;
+}
+
+// What an adaptation learning run merged into the test case
+export interface AdaptationLearningSummary {
+  testCaseId: string;
+  adaptationsAnalyzed: number;
+  patternsCreated: number;
+  patternsUpdated: number;
+  totalPatterns: number;
+  scenarioRefined: boolean;
+}
+
+// Fired by a test schedule's job scheduler; the processor creates the test run
+export interface ScheduledTestJobData {
+  scheduleId: string;
+  testCaseId: string;
 }
 
 // Queue names
 export enum QueueNames {
   TEST_EXECUTION = 'test-execution',
   CLEANUP = 'cleanup',
-  ADAPTATION_LEARNING = 'adaptation-learning'
+  ADAPTATION_LEARNING = 'adaptation-learning',
+  SCHEDULED_TESTS = 'scheduled-tests'
 }
 
+// Event streamed to test run subscribers. Events persisted in
+// test_execution_events carry the row id; job progress updates have none.
+export interface TestRunStreamEvent {
+  id?: string;
+  testRunId: string;
+  type: 'progress' | EventType;
+  data: Record<string, any>;
+  message?: string | null;
+  timestamp: string;
+}
+
+// Analyzed test step (ai_analysis.output_data.generated_steps)
+export interface ExecutableTestStep {
+  id: string;
+  stepNumber: number;
+  action: string;
+  description?: string;
+  selector?: string;
+  value?: string;
+  waitCondition?: string;
+  expectedResult?: string;
+}
+
+// Adaptation applied by an executor when the original step could not run as written
+export interface StepAdaptationOutcome {
+  adaptationType: string;
+  reason: string;
+  source: AdaptationSource;
+  originalAction: {
+    type: string;
+    selector: string;
+    value?: string;
+  };
+  adaptedAction: {
+    type: string;
+    selector: string;
+    value?: string;
+  };
+  confidence: number;
+  // Why the AI picked the adapted element, for AI adaptations
+  aiSuggestion?: string;
+}
+
+// Page context captured around a step, persisted on test_steps for triage
+export interface StepPageCapture {
+  pageStateBefore?: PageState;
+  pageStateAfter?: PageState;
+  domSnapshot?: Record<string, any>;
+  consoleLogs?: Record<string, any>[];
+  networkLogs?: Record<string, any>[];
+}
+
+// Result of executing a single step
+export interface StepExecutionOutcome {
+  success: boolean;
+  error?: string;
+  screenshot?: string;
+  adaptation?: StepAdaptationOutcome;
+  capture?: StepPageCapture;
+}
+
+// Artifact covering the whole run (recording or network capture)
+export interface RunArtifact {
+  type: 'video' | 'har';
+  data: Buffer;
+  mimeType: string;
+}
+
+// Executes analyzed steps against a browser (e.g. a Playwright MCP server)
+export interface TestStepExecutor {
+  executeStep(
+    step: ExecutableTestStep,
+    options: { allowAdaptation: boolean }
+  ): Promise<StepExecutionOutcome>;
+  collectArtifacts?(): Promise<RunArtifact[]>;
+  dispose(): Promise<void>;
+}
+
+// Creates the executor for a job, once its steps are loaded. Executors
+// should try the test case's learned adaptation patterns before any other
+// fallback when a selector no longer matches.
+export type TestStepExecutorFactory = (
+  job: { id?: string; data: TestJobData },
+  context: { adaptationPatterns: AdaptationPattern[] }
+) => Promise<TestStepExecutor>;
+
 // Job priorities
 export enum JobPriority {
   LOW = 1,